@@ -1,7 +1,5 @@
 import { useState, useCallback, useMemo } from 'react';
-import { Chess } from 'chess.js';
-import { Chess960Board } from '@chess960/board';
-import { getRandomChess960Position } from './chess960-utils';
+import { CapturedPieces, Chess960Board, MoveList, useChess960Game, getRandomChess960Position, gameEndText } from '@chess960/board';
 
 // Generate a random Chess960 starting position
 function App() {
@@ -11,9 +9,8 @@ function App() {
     return pos.fen;
   }, []);
 
-  const [chess] = useState(() => new Chess(initialPosition));
-  const [fen, setFen] = useState(chess.fen());
-  const [lastMove, setLastMove] = useState<[string, string] | null>(null);
+  // History, undo/redo and the board's fen/lastMove/onMove wiring
+  const game = useChess960Game({ fen: initialPosition });
   const [orientation, setOrientation] = useState<'white' | 'black'>('white');
   const [readOnly, setReadOnly] = useState(false);
   const [animationDuration, setAnimationDuration] = useState(200);
@@ -26,29 +23,15 @@ function App() {
   });
   const [pieceSet] = useState({ path: 'cburnett' });
 
-  const handleMove = useCallback((from: string, to: string, promotion?: 'p' | 'r' | 'n' | 'b' | 'q' | 'k') => {
-    try {
-      const move = chess.move({ from, to, promotion });
-      if (move) {
-        setFen(chess.fen());
-        setLastMove([move.from, move.to]);
-      }
-    } catch (error) {
-      console.error('Invalid move:', error);
-    }
-  }, [chess]);
-
   const resetBoard = () => {
     // Generate a new random Chess960 position
     const newPos = getRandomChess960Position();
-    chess.load(newPos.fen);
-    setFen(chess.fen());
-    setLastMove(null);
+    game.reset(newPos.fen);
     setArrows([]);
   };
 
   const handlePromotionSelect = useCallback((piece: 'p' | 'r' | 'n' | 'b' | 'q' | 'k') => {
-    // Promotion handled in handleMove callback
+    // The promotion piece arrives with the move through game.boardProps.onMove
   }, []);
 
   return (
@@ -97,6 +80,36 @@ function App() {
         >
           Flip Board
         </button>
+        <button
+          onClick={game.undo}
+          disabled={!game.canUndo}
+          style={{
+            padding: '6px 12px',
+            background: '#3a3632',
+            border: '1px solid #474239',
+            borderRadius: '4px',
+            color: 'white',
+            cursor: game.canUndo ? 'pointer' : 'default',
+            opacity: game.canUndo ? 1 : 0.5,
+          }}
+        >
+          Undo
+        </button>
+        <button
+          onClick={game.redo}
+          disabled={!game.canRedo}
+          style={{
+            padding: '6px 12px',
+            background: '#3a3632',
+            border: '1px solid #474239',
+            borderRadius: '4px',
+            color: 'white',
+            cursor: game.canRedo ? 'pointer' : 'default',
+            opacity: game.canRedo ? 1 : 0.5,
+          }}
+        >
+          Redo
+        </button>
         <label style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#c1b9ad' }}>
           <input
             type="checkbox"
@@ -154,28 +167,49 @@ function App() {
         display: 'flex',
         alignItems: 'center',
         justifyContent: 'center',
+        gap: '16px',
         padding: '20px',
         overflow: 'auto',
       }}>
-        <Chess960Board
-          fen={fen}
-          orientation={orientation}
-          width={Math.min(window.innerHeight - 200, window.innerWidth - 40)}
-          onMove={handleMove}
-          readOnly={readOnly}
-          showCoordinates={true}
-          theme={boardTheme}
-          pieceSet={pieceSet}
-          lastMove={lastMove}
-          arrows={arrows}
-          onArrowsChange={setArrows}
-          enablePremove={true}
-          onPromotionSelect={handlePromotionSelect}
-          animationDuration={animationDuration}
-          showDestinations={showDestinations}
-          rookCastle={true}
-          enableKeyboard={enableKeyboard}
-          moveInputMode="both"
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          <CapturedPieces
+            fen={game.fen}
+            startFen={game.startFen}
+            color={orientation === 'white' ? 'black' : 'white'}
+            pieceSet={pieceSet}
+          />
+          <Chess960Board
+            {...game.boardProps}
+            orientation={orientation}
+            width={Math.min(window.innerHeight - 200, window.innerWidth - 340)}
+            readOnly={readOnly}
+            showCoordinates={true}
+            theme={boardTheme}
+            pieceSet={pieceSet}
+            arrows={arrows}
+            onArrowsChange={setArrows}
+            enablePremove={true}
+            onPromotionSelect={handlePromotionSelect}
+            animationDuration={animationDuration}
+            animateJumps={true}
+            showGameEndOverlay={true}
+            animateOrientation={true}
+            showDestinations={showDestinations}
+            rookCastle={true}
+            enableKeyboard={enableKeyboard}
+            moveInputMode="both"
+          />
+          <CapturedPieces
+            fen={game.fen}
+            startFen={game.startFen}
+            color={orientation}
+            pieceSet={pieceSet}
+          />
+        </div>
+        <MoveList
+          {...game.moveListProps}
+          height={Math.min(window.innerHeight - 260, window.innerWidth - 400)}
+          style={{ width: '260px' }}
         />
       </div>
 
@@ -188,10 +222,13 @@ function App() {
         color: '#a0958a',
         textAlign: 'center',
       }}>
-        <span>Turn: {chess.turn() === 'w' ? 'White' : 'Black'}</span>
-        {chess.isCheck() && <span style={{ color: '#ff6b6b', marginLeft: '12px' }}>Check!</span>}
-        {chess.isCheckmate() && <span style={{ color: '#ff6b6b', marginLeft: '12px' }}>Checkmate!</span>}
-        {chess.isDraw() && <span style={{ color: '#ffd93d', marginLeft: '12px' }}>Draw!</span>}
+        <span>Turn: {game.turn === 'white' ? 'White' : 'Black'}</span>
+        {game.inCheck && game.result === '*' && <span style={{ color: '#ff6b6b', marginLeft: '12px' }}>Check!</span>}
+        {game.gameEnd && (
+          <span style={{ color: game.gameEnd.winner ? '#ff6b6b' : '#ffd93d', marginLeft: '12px' }}>
+            {gameEndText(game.gameEnd)}
+          </span>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,89 @@
+/**
+ * BroadcastStatus - "live" or "behind by N moves" for a spectator view
+ *
+ * Features:
+ * - Live badge while the view shows the latest position
+ * - Count of moves the viewer hasn't seen yet, while queued moves play or
+ *   after stepping back
+ * - "Connecting" and "Disconnected" in place of the badge when the feed
+ *   isn't connected
+ * - "Go live" action to catch up
+ *
+ * Pairs with useBroadcast: `<BroadcastStatus {...broadcast.statusProps} />`.
+ *
+ * @packageDocumentation
+ */
+
+import React from 'react';
+import type { BroadcastStatusProps } from './types';
+
+const LIVE = 'rgba(220, 38, 38, 0.9)';
+const ACCENT = 'rgba(249, 115, 22, 0.9)';
+const IDLE = '#a0958a';
+const DISCONNECTED = '#6b6560';
+
+export const BroadcastStatus: React.FC<BroadcastStatusProps> = ({
+  behind,
+  following = true,
+  connection = 'connected',
+  onGoLive,
+  className = '',
+  style,
+}) => {
+  const live = connection === 'connected' && following && behind === 0;
+  let text = live ? 'LIVE' : behind > 0 ? `Behind by ${behind} move${behind === 1 ? '' : 's'}` : 'Paused';
+  if (connection === 'connecting') text = 'Connecting';
+  if (connection === 'disconnected') text = 'Disconnected';
+
+  return (
+    <div
+      className={`broadcast-status ${className}`}
+      role="status"
+      aria-live="polite"
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '4px 10px',
+        background: '#2a2926',
+        border: '1px solid #474239',
+        borderRadius: '4px',
+        color: '#c1b9ad',
+        fontSize: '13px',
+        fontWeight: 600,
+        userSelect: 'none',
+        ...style,
+      }}
+    >
+      <span
+        style={{
+          width: '8px',
+          height: '8px',
+          borderRadius: '50%',
+          background: live ? LIVE : connection === 'disconnected' ? DISCONNECTED : IDLE,
+        }}
+      />
+      <span style={{ color: live ? 'white' : undefined }}>
+        {text}
+      </span>
+      {(behind > 0 || !following) && onGoLive && (
+        <button
+          type="button"
+          onClick={onGoLive}
+          style={{
+            padding: '2px 8px',
+            background: ACCENT,
+            border: 'none',
+            borderRadius: '3px',
+            color: 'white',
+            fontSize: '12px',
+            fontWeight: 600,
+            cursor: 'pointer',
+          }}
+        >
+          Go live
+        </button>
+      )}
+    </div>
+  );
+};
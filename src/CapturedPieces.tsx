@@ -0,0 +1,98 @@
+/**
+ * CapturedPieces - the pieces one side has taken and its material lead
+ *
+ * Features:
+ * - Captured pieces grouped by type, most valuable first
+ * - Point lead ("+3") for the side that is ahead
+ * - Imbalance-only mode that hides captures both sides have made
+ * - Uses the board's piece set images
+ *
+ * Place one per side next to the board:
+ * `<CapturedPieces fen={game.fen} color="white" pieceSet={pieceSet} />`.
+ *
+ * @packageDocumentation
+ */
+
+import React, { useMemo } from 'react';
+import { getMaterial } from './material';
+import type { CapturedPiecesProps, PieceType } from './types';
+
+export const CapturedPieces: React.FC<CapturedPiecesProps> = ({
+  fen,
+  startFen,
+  color,
+  imbalanceOnly = false,
+  showDiff = true,
+  pieceSet,
+  piecesBaseUrl = '/pieces',
+  pieceSize = 20,
+  className = '',
+  style,
+}) => {
+  const opponent = color === 'white' ? 'black' : 'white';
+  const material = useMemo(() => getMaterial(fen, startFen), [fen, startFen]);
+
+  const captured = imbalanceOnly ? material.imbalance[color] : material[opponent].lost;
+  const lead = color === 'white' ? material.diff : -material.diff;
+
+  // Runs of the same piece type, drawn overlapping
+  const groups = useMemo(() => {
+    const result: { type: PieceType; count: number }[] = [];
+    for (const type of captured) {
+      const last = result[result.length - 1];
+      if (last?.type === type) {
+        last.count++;
+      } else {
+        result.push({ type, count: 1 });
+      }
+    }
+    return result;
+  }, [captured]);
+
+  // Same image path rules as the board
+  const getPieceImage = (type: PieceType): string => {
+    const pieceCode = `${opponent === 'white' ? 'w' : 'b'}${type.toUpperCase()}`;
+    const pieceSetPath = pieceSet?.path || 'cburnett';
+    if (pieceSetPath.startsWith('/')) {
+      return `${pieceSetPath}/${pieceCode}.svg`;
+    }
+    return `${piecesBaseUrl}/${pieceSetPath}/${pieceCode}.svg`;
+  };
+
+  return (
+    <div
+      className={`captured-pieces ${className}`}
+      aria-label={`Pieces captured by ${color}`}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        minHeight: `${pieceSize}px`,
+        ...style,
+      }}
+    >
+      {groups.map(({ type, count }, g) => (
+        <span key={`${type}-${g}`} style={{ display: 'inline-flex' }}>
+          {Array.from({ length: count }, (_, i) => (
+            <img
+              key={i}
+              src={getPieceImage(type)}
+              alt={type}
+              draggable={false}
+              style={{
+                width: `${pieceSize}px`,
+                height: `${pieceSize}px`,
+                marginLeft: i > 0 ? `-${Math.round(pieceSize * 0.55)}px` : 0,
+              }}
+            />
+          ))}
+        </span>
+      ))}
+      {showDiff && lead > 0 && (
+        <span style={{ color: '#a0958a', fontSize: `${Math.max(11, Math.round(pieceSize * 0.65))}px`, fontWeight: 600 }}>
+          +{lead}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,693 @@
+// @vitest-environment jsdom
+import React, { act, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Chess } from 'chess.js';
+import { Chess960Board } from './Chess960Board';
+import { chess960Rules, createChessJsRules } from './adapters';
+import { Chess960, STANDARD_FEN } from './rules';
+import type { RulesFactory } from './adapters';
+import type { Move } from './rules';
+import type { Chess960BoardProps, Square } from './types';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+let container: HTMLDivElement;
+let root: Root;
+
+beforeEach(() => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+function click(square: Square) {
+  const element = container.querySelector(`[data-square="${square}"]`);
+  if (!element) throw new Error(`No square ${square}`);
+  act(() => {
+    element.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+  });
+}
+
+describe('legality', () => {
+  it('reports legal moves and ignores illegal ones', () => {
+    const onMove = vi.fn();
+    act(() => root.render(<Chess960Board fen={STANDARD_FEN} animationDuration={0} onMove={onMove} />));
+    click('e2');
+    click('e5');
+    expect(onMove).not.toHaveBeenCalled();
+    click('g1');
+    click('f3');
+    expect(onMove).toHaveBeenLastCalledWith('g1', 'f3', undefined);
+  });
+
+  it('castles by moving the king onto its rook', () => {
+    const onMove = vi.fn();
+    act(() => root.render(
+      <Chess960Board fen="4k3/8/8/8/8/8/8/1RK4R w KQ - 0 1" animationDuration={0} onMove={onMove} />
+    ));
+    click('c1');
+    click('h1');
+    expect(onMove).toHaveBeenLastCalledWith('c1', 'h1', undefined);
+  });
+});
+
+describe('FEN dialects', () => {
+  it('reads castling rights from a Shredder-FEN', () => {
+    const onMove = vi.fn();
+    act(() => root.render(
+      <Chess960Board fen="4k3/8/8/8/8/8/8/1RK4R w B - 0 1" animationDuration={0} onMove={onMove} />
+    ));
+    click('c1');
+    click('h1');
+    expect(onMove).not.toHaveBeenCalled();
+    click('c1');
+    click('b1');
+    expect(onMove).toHaveBeenLastCalledWith('c1', 'b1', undefined);
+  });
+});
+
+describe('Double Chess960', () => {
+  it('castles each side from its own king file', () => {
+    const onMove = vi.fn();
+    act(() => root.render(
+      <Chess960Board fen="rk5r/8/8/8/8/8/5PPP/5RKR b KQkq - 0 1" rookCastle animationDuration={0} onMove={onMove} />
+    ));
+    // The black king is on b8, not on the g-file like the white one
+    click('h8');
+    expect(onMove).toHaveBeenLastCalledWith('b8', 'h8', undefined);
+  });
+});
+
+describe('castling input', () => {
+  const CASTLING_FEN = '4k3/8/8/8/8/8/8/1RK4R w KQ - 0 1';
+
+  function renderCastling(props: Partial<Chess960BoardProps>) {
+    const onMove = vi.fn();
+    act(() => root.render(<Chess960Board fen={CASTLING_FEN} animationDuration={0} onMove={onMove} {...props} />));
+    return onMove;
+  }
+
+  it('castles by moving the king to its final square', () => {
+    const onMove = renderCastling({});
+    click('c1');
+    click('g1');
+    expect(onMove).toHaveBeenLastCalledWith('c1', 'h1', undefined);
+  });
+
+  it('only takes the conventions listed in castlingInput', () => {
+    const onMove = renderCastling({ castlingInput: ['kingOntoRook'] });
+    click('h1');
+    click('c1');
+    click('g1');
+    expect(onMove).not.toHaveBeenCalled();
+    click('c1');
+    click('h1');
+    expect(onMove).toHaveBeenLastCalledWith('c1', 'h1', undefined);
+  });
+
+  it('castles by clicking the rook', () => {
+    const onMove = renderCastling({ castlingInput: ['rookClick'] });
+    click('b1');
+    expect(onMove).toHaveBeenLastCalledWith('c1', 'b1', undefined);
+  });
+
+  describe('a king move that is also castling', () => {
+    // Kg1 is both a step to g1 and O-O with the h1 rook
+    const AMBIGUOUS_FEN = '4k3/8/8/8/8/8/8/5K1R w K - 0 1';
+
+    function choose(title: string) {
+      const button = container.querySelector(`button[title="${title}"]`);
+      if (!button) throw new Error(`No ${title} button`);
+      act(() => {
+        button.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+      });
+    }
+
+    it('asks, and castles when chosen', () => {
+      const onMove = renderCastling({ fen: AMBIGUOUS_FEN });
+      click('f1');
+      click('g1');
+      expect(onMove).not.toHaveBeenCalled();
+      choose('Castle');
+      expect(onMove).toHaveBeenLastCalledWith('f1', 'h1', undefined);
+    });
+
+    it('asks, and moves the king when chosen', () => {
+      const onMove = renderCastling({ fen: AMBIGUOUS_FEN });
+      click('f1');
+      click('g1');
+      choose('Move the king');
+      expect(onMove).toHaveBeenLastCalledWith('f1', 'g1', undefined);
+    });
+
+    it('cancels on Escape', () => {
+      const onMove = renderCastling({ fen: AMBIGUOUS_FEN });
+      click('f1');
+      click('g1');
+      act(() => {
+        window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+      });
+      expect(container.querySelector('button[title="Castle"]')).toBeNull();
+      expect(onMove).not.toHaveBeenCalled();
+    });
+
+    it('decides without asking when told to', () => {
+      const moveFirst = renderCastling({ fen: AMBIGUOUS_FEN, castlingAmbiguity: 'move' });
+      click('f1');
+      click('g1');
+      expect(moveFirst).toHaveBeenLastCalledWith('f1', 'g1', undefined);
+
+      const castleFirst = renderCastling({ fen: AMBIGUOUS_FEN, castlingAmbiguity: 'castle' });
+      click('f1');
+      click('g1');
+      expect(castleFirst).toHaveBeenLastCalledWith('f1', 'h1', undefined);
+    });
+  });
+});
+
+describe('castling rights badges', () => {
+  it('marks the rooks that can still castle', () => {
+    act(() => root.render(
+      <Chess960Board fen="r3k2r/8/8/8/8/8/8/1RK4R w Kq - 0 1" showCastlingRights animationDuration={0} />
+    ));
+    const badged = Array.from(container.querySelectorAll('[title="Can castle"]'))
+      .map(badge => badge.closest('[data-square]')?.getAttribute('data-square'))
+      .sort();
+    expect(badged).toEqual(['a8', 'h1']);
+  });
+});
+
+describe('rules adapters', () => {
+  // The built-in rules without knight moves
+  const noKnights: RulesFactory = fen => {
+    const inner = chess960Rules(fen);
+    const allowed = (move: Move | null) => (move && move.piece !== 'n' ? move : null);
+    return {
+      load: next => inner.load(next),
+      fen: () => inner.fen(),
+      turn: () => inner.turn(),
+      board: () => inner.board(),
+      get: square => inner.get(square),
+      moves: options => inner.moves(options).filter(move => move.piece !== 'n'),
+      dests: square => (inner.get(square)?.type === 'n' ? [] : inner.dests(square)),
+      findMove: input => allowed(inner.findMove(input)),
+      move: input => (allowed(inner.findMove(input)) ? inner.move(input) : null),
+      inCheck: () => inner.inCheck(),
+    };
+  };
+
+  it('takes legality from the rules prop', () => {
+    const onMove = vi.fn();
+    act(() => root.render(<Chess960Board fen={STANDARD_FEN} rules={noKnights} animationDuration={0} onMove={onMove} />));
+    click('g1');
+    click('f3');
+    expect(onMove).not.toHaveBeenCalled();
+    click('e2');
+    click('e4');
+    expect(onMove).toHaveBeenLastCalledWith('e2', 'e4', undefined);
+  });
+
+  it('plays with chess.js', () => {
+    const onMove = vi.fn();
+    act(() => root.render(
+      <Chess960Board fen="r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1" rules={createChessJsRules(Chess)} animationDuration={0} onMove={onMove} />
+    ));
+    click('e1');
+    click('h1');
+    expect(onMove).toHaveBeenLastCalledWith('e1', 'h1', undefined);
+  });
+});
+
+describe('movable', () => {
+  function renderMovable(props: Partial<Chess960BoardProps>) {
+    const onMove = vi.fn();
+    act(() => root.render(<Chess960Board fen={STANDARD_FEN} animationDuration={0} onMove={onMove} {...props} />));
+    return onMove;
+  }
+
+  it('accepts exactly the controlled dests', () => {
+    // The parent allows only e2-e3, and an otherwise illegal b1-b3
+    const dests = new Map([['e2', ['e3']], ['b1', ['b3']]]);
+    const onMove = renderMovable({ movable: { dests } });
+    click('e2');
+    click('e4');
+    expect(onMove).not.toHaveBeenCalled();
+    click('g1');
+    click('f3');
+    expect(onMove).not.toHaveBeenCalled();
+    click('b1');
+    click('b3');
+    expect(onMove).toHaveBeenLastCalledWith('b1', 'b3', undefined);
+  });
+
+  it('only moves the movable color', () => {
+    const onMove = renderMovable({ fen: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1', movable: { color: 'white' } });
+    click('e7');
+    click('e5');
+    expect(onMove).not.toHaveBeenCalled();
+  });
+
+  it('moves pieces anywhere when free', () => {
+    const onMove = renderMovable({ movable: { free: true, color: 'both' } });
+    click('d1');
+    click('d5');
+    expect(onMove).toHaveBeenLastCalledWith('d1', 'd5');
+    click('e7');
+    click('e2');
+    expect(onMove).toHaveBeenLastCalledWith('e7', 'e2');
+  });
+});
+
+describe('free mode', () => {
+  function renderFree(fen: string) {
+    const onMove = vi.fn();
+    const onPositionChange = vi.fn();
+    act(() => root.render(
+      <Chess960Board fen={fen} animationDuration={0} movable={{ free: true, color: 'both' }} onMove={onMove} onPositionChange={onPositionChange} />
+    ));
+    return { onMove, onPositionChange };
+  }
+
+  // jsdom lays the board out with no size, so any release point is off the board
+  function dragOffBoard(square: Square) {
+    const piece = container.querySelector(`[data-square="${square}"] [data-piece-click]`);
+    if (!piece) throw new Error(`No piece on ${square}`);
+    act(() => {
+      piece.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, button: 0, clientX: 1, clientY: 1 }));
+    });
+    act(() => {
+      window.dispatchEvent(new MouseEvent('mousemove', { clientX: 400, clientY: 400 }));
+    });
+    act(() => {
+      window.dispatchEvent(new MouseEvent('mouseup', { clientX: 400, clientY: 400 }));
+    });
+  }
+
+  it('deletes a piece dragged off the board', () => {
+    const { onMove, onPositionChange } = renderFree('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1');
+    dragOffBoard('e2');
+    expect(onMove).not.toHaveBeenCalled();
+    expect(onPositionChange).toHaveBeenLastCalledWith('4k3/8/8/8/8/8/8/4K3 w - - 0 1');
+    expect(container.querySelector('[data-square="e2"] [data-piece-click]')).toBeNull();
+  });
+
+  it('keeps castling rights while king and rook stay put', () => {
+    const { onPositionChange } = renderFree('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+    click('a8');
+    click('a5');
+    expect(onPositionChange).toHaveBeenLastCalledWith('4k2r/8/8/r7/8/8/8/R3K2R w KQk - 0 1');
+    click('e1');
+    click('e2');
+    expect(onPositionChange).toHaveBeenLastCalledWith('4k2r/8/8/r7/8/8/4K3/R6R w k - 0 1');
+  });
+
+  it('drops the rights of a rook dragged off the board', () => {
+    const { onPositionChange } = renderFree('r3k2r/8/8/8/8/8/8/R3K2R b KQkq - 3 20');
+    dragOffBoard('h8');
+    expect(onPositionChange).toHaveBeenLastCalledWith('r3k3/8/8/8/8/8/8/R3K2R b KQq - 3 20');
+  });
+});
+
+describe('promotion', () => {
+  const PROMOTION_FEN = '4k3/P7/8/8/8/8/8/4K3 w - - 0 1';
+
+  function renderPromotion(props: Partial<Chess960BoardProps> = {}) {
+    const onMove = vi.fn();
+    const onPromotionSelect = vi.fn();
+    act(() => root.render(
+      <Chess960Board fen={PROMOTION_FEN} animationDuration={0} onMove={onMove} onPromotionSelect={onPromotionSelect} {...props} />
+    ));
+    return { onMove, onPromotionSelect };
+  }
+
+  function key(key: string) {
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+    });
+  }
+
+  it('asks for the piece and reports it', () => {
+    const { onMove, onPromotionSelect } = renderPromotion();
+    click('a7');
+    click('a8');
+    expect(onMove).not.toHaveBeenCalled();
+    const knight = container.querySelector<HTMLElement>('[title="Promote to knight (N)"]');
+    expect(knight).not.toBeNull();
+    act(() => {
+      knight?.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+    });
+    expect(onPromotionSelect).toHaveBeenCalledWith('n');
+    expect(onMove).toHaveBeenLastCalledWith('a7', 'a8', 'n');
+  });
+
+  it('picks with the piece letter keys', () => {
+    const { onMove } = renderPromotion();
+    click('a7');
+    click('a8');
+    key('R');
+    expect(onMove).toHaveBeenLastCalledWith('a7', 'a8', 'r');
+    expect(container.querySelector('[title^="Promote to"]')).toBeNull();
+  });
+
+  it('cancels on Escape', () => {
+    const { onMove } = renderPromotion();
+    click('a7');
+    click('a8');
+    key('Escape');
+    expect(container.querySelector('[title^="Promote to"]')).toBeNull();
+    key('q');
+    expect(onMove).not.toHaveBeenCalled();
+  });
+
+  it('promotes to a queen without asking when autoQueen is always', () => {
+    const { onMove } = renderPromotion({ autoQueen: 'always' });
+    click('a7');
+    click('a8');
+    expect(container.querySelector('[title^="Promote to"]')).toBeNull();
+    expect(onMove).toHaveBeenLastCalledWith('a7', 'a8', 'q');
+  });
+});
+
+describe('premoves', () => {
+  // A parent that plays every move the board reports, and lets the test play the opponent
+  function renderGame(props: Partial<Chess960BoardProps> = {}, startFen = STANDARD_FEN) {
+    const game = new Chess960(startFen);
+    const onMove = vi.fn();
+    let setFen: (fen: string) => void = () => undefined;
+
+    function Game() {
+      const [fen, setFenState] = useState(game.fen());
+      setFen = setFenState;
+      return (
+        <Chess960Board
+          fen={fen}
+          animationDuration={0}
+          onMove={(from, to, promotion) => {
+            onMove(from, to, promotion);
+            if (game.move({ from, to, promotion })) setFenState(game.fen());
+          }}
+          {...props}
+        />
+      );
+    }
+
+    act(() => root.render(<Game />));
+    return {
+      onMove,
+      opponent: (move: string) => {
+        game.move(move);
+        act(() => setFen(game.fen()));
+      },
+    };
+  }
+
+  it('queues a premove on the opponent\'s turn and plays it when the turn comes back', () => {
+    const onPremoveSet = vi.fn();
+    const { onMove, opponent } = renderGame({ movable: { color: 'white' }, enablePremove: true, onPremoveSet });
+
+    click('e2');
+    click('e4');
+    expect(onMove).toHaveBeenLastCalledWith('e2', 'e4', undefined);
+
+    // Black to move: this is a premove, not a move
+    click('d2');
+    click('d4');
+    expect(onMove).toHaveBeenCalledTimes(1);
+    expect(onPremoveSet).toHaveBeenCalledWith('d2', 'd4', undefined);
+
+    opponent('e5');
+    expect(onMove).toHaveBeenCalledTimes(2);
+    expect(onMove).toHaveBeenLastCalledWith('d2', 'd4', undefined);
+  });
+
+  it('plays a chain one premove per turn', () => {
+    const { onMove, opponent } = renderGame({ movable: { color: 'white' }, enablePremove: true });
+
+    click('e2');
+    click('e4');
+    click('g1');
+    click('f3');
+    // From the ghost square the knight was premoved to
+    click('f3');
+    click('g5');
+
+    opponent('e5');
+    expect(onMove).toHaveBeenLastCalledWith('g1', 'f3', undefined);
+    opponent('Nc6');
+    expect(onMove).toHaveBeenLastCalledWith('f3', 'g5', undefined);
+    expect(onMove).toHaveBeenCalledTimes(3);
+  });
+
+  it('drops the chain when the premove is no longer legal', () => {
+    const onPremoveCancel = vi.fn();
+    const { onMove, opponent } = renderGame({ movable: { color: 'white' }, enablePremove: true, onPremoveCancel });
+
+    click('e2');
+    click('e4');
+    click('e4');
+    click('e5');
+    opponent('e5');
+    expect(onMove).toHaveBeenCalledTimes(1);
+    expect(onPremoveCancel).toHaveBeenCalled();
+  });
+
+  it('premoves castling while the rights last', () => {
+    const { onMove, opponent } = renderGame(
+      { movable: { color: 'white' }, enablePremove: true },
+      'r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R w KQkq - 0 1'
+    );
+
+    click('a2');
+    click('a3');
+    click('e1');
+    click('h1');
+    opponent('a6');
+    expect(onMove).toHaveBeenLastCalledWith('e1', 'h1', undefined);
+  });
+});
+
+describe('move animation', () => {
+  function playTo(from: string, to: string, moveHint?: string) {
+    act(() => root.render(<Chess960Board fen={from} animationDuration={200} />));
+    act(() => root.render(<Chess960Board fen={to} moveHint={moveHint} animationDuration={200} />));
+  }
+
+  // Sliding pieces sit above the board, fading captures just below them
+  function layer(zIndex: string): HTMLElement[] {
+    return Array.from(container.querySelectorAll<HTMLElement>('div.pointer-events-none'))
+      .filter(element => element.style.zIndex === zIndex);
+  }
+
+  const sliding = () => layer('100').map(element => Array.from(element.querySelectorAll('img')).map(img => img.alt).join(' > '));
+
+  it('slides the king and the rook of a hinted castling move', () => {
+    playTo('4k3/8/8/8/8/8/8/4K2R w K - 0 1', '4k3/8/8/8/8/8/8/5RK1 b - - 1 1', 'O-O');
+    expect(sliding().sort()).toEqual(['white k', 'white r']);
+  });
+
+  it('slides only the rook when the 960 king is already on its castled square', () => {
+    playTo('4k3/8/8/8/8/8/8/6KR w H - 0 1', '4k3/8/8/8/8/8/8/5RK1 b - - 1 1', 'O-O');
+    expect(sliding()).toEqual(['white r']);
+  });
+
+  it('fades an en passant victim out on its own square', () => {
+    playTo('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 2', '4k3/8/3P4/8/8/8/8/4K3 b - - 0 2', 'exd6');
+    expect(sliding()).toEqual(['white p']);
+    const [victim] = layer('50');
+    expect(victim.querySelector('img')?.alt).toBe('black p');
+    // d5 on a 280px board
+    expect([victim.style.left, victim.style.top]).toEqual(['105px', '105px']);
+  });
+
+  it('turns a promoting pawn into its new piece', () => {
+    playTo('4k3/P7/8/8/8/8/8/4K3 w - - 0 1', 'N3k3/8/8/8/8/8/8/4K3 b - - 0 1', 'a8=N');
+    expect(sliding()).toEqual(['white p > white n']);
+  });
+
+  it('works the move out without a hint', () => {
+    playTo('4k3/8/8/8/8/8/8/4K2R w K - 0 1', '4k3/8/8/8/8/8/8/5RK1 b - - 1 1');
+    expect(sliding().sort()).toEqual(['white k', 'white r']);
+  });
+
+  describe('jumps of several moves', () => {
+    const AFTER_NF3 = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 1 2';
+
+    function jump(props: Partial<Chess960BoardProps>) {
+      act(() => root.render(<Chess960Board fen={AFTER_NF3} animationDuration={200} {...props} />));
+      act(() => root.render(<Chess960Board fen={STANDARD_FEN} animationDuration={200} {...props} />));
+    }
+
+    it('only animate with animateJumps', () => {
+      jump({});
+      expect(sliding()).toEqual([]);
+    });
+
+    it('slide every relocated piece back with the given easing', () => {
+      jump({ animateJumps: true, animationEasing: 'linear' });
+      expect(sliding().sort()).toEqual(['black p', 'white n', 'white p']);
+      for (const element of layer('100')) {
+        expect(element.style.transition).toBe('transform 200ms linear');
+      }
+    });
+  });
+
+  it('rotates the board into a new orientation', async () => {
+    act(() => root.render(<Chess960Board fen={STANDARD_FEN} animationDuration={200} animateOrientation />));
+    act(() => root.render(<Chess960Board fen={STANDARD_FEN} orientation="black" animationDuration={200} animateOrientation />));
+    const rotated = () => Array.from(container.querySelectorAll<HTMLElement>('*')).find(element => element.style.transform.startsWith('rotate('));
+    expect(rotated()?.style.transform).toBe('rotate(180deg)');
+    await vi.waitFor(() => expect(rotated()?.style.transform).toBe('rotate(0deg)'));
+    expect(rotated()?.style.transition).toBe('transform 300ms ease-in-out');
+  });
+});
+
+describe('game end', () => {
+  const BEFORE_MATE = 'rnbqkbnr/pppp1ppp/8/4p3/6P1/5P2/PPPPP2P/RNBQKBNR b KQkq - 0 2';
+
+  it('reports the end reached in the fen', () => {
+    const onGameEnd = vi.fn();
+    act(() => root.render(<Chess960Board fen="7k/5Q2/6K1/8/8/8/8/8 b - - 0 1" onGameEnd={onGameEnd} showGameEndOverlay />));
+    expect(onGameEnd).toHaveBeenCalledWith({ result: '1/2-1/2', reason: 'stalemate', winner: null });
+    expect(container.textContent).toContain('Stalemate - Draw');
+  });
+
+  // Drag a piece to a square of a white-oriented 280px board (35px squares)
+  function drag(from: Square, to: Square) {
+    // Drops need a board with a size, which jsdom doesn't lay out
+    const rect = vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue(
+      { left: 0, top: 0, width: 280, height: 280, right: 280, bottom: 280, x: 0, y: 0, toJSON: () => ({}) }
+    );
+    const center = (square: Square) => ({
+      clientX: (square.charCodeAt(0) - 97) * 35 + 17,
+      clientY: (8 - Number(square[1])) * 35 + 17,
+    });
+    const piece = container.querySelector(`[data-square="${from}"] [data-piece-click]`);
+    act(() => {
+      piece?.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, button: 0, ...center(from) }));
+    });
+    act(() => {
+      window.dispatchEvent(new MouseEvent('mousemove', center(to)));
+    });
+    act(() => {
+      window.dispatchEvent(new MouseEvent('mouseup', center(to)));
+    });
+    rect.mockRestore();
+  }
+
+  it('detects the end after a move the parent has not echoed yet', () => {
+    const onGameEnd = vi.fn();
+    const onMove = vi.fn();
+    act(() => root.render(<Chess960Board fen={BEFORE_MATE} animationDuration={0} onMove={onMove} onGameEnd={onGameEnd} />));
+    drag('d8', 'h4');
+    expect(onMove).toHaveBeenCalledWith('d8', 'h4', undefined);
+    expect(onGameEnd).toHaveBeenCalledWith({ result: '0-1', reason: 'checkmate', winner: 'black' });
+  });
+
+  it('counts the parent\'s fen as an earlier position', () => {
+    const onGameEnd = vi.fn();
+    // The knights have been out and back once: Ng1-f3 here repeats the position a third time
+    const start = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+    const out = 'rnbqkbnr/pppppppp/8/8/8/5N2/PPPPPPPP/RNBQKB1R b KQkq - 1 1';
+    const previousFens = [
+      start,
+      out,
+      'rnbqkb1r/pppppppp/5n2/8/8/5N2/PPPPPPPP/RNBQKB1R w KQkq - 2 2',
+      'rnbqkb1r/pppppppp/5n2/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 3 2',
+      'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 4 3',
+      'rnbqkbnr/pppppppp/8/8/8/5N2/PPPPPPPP/RNBQKB1R b KQkq - 5 3',
+      'rnbqkb1r/pppppppp/5n2/8/8/5N2/PPPPPPPP/RNBQKB1R w KQkq - 6 4',
+    ];
+    const fen = 'rnbqkb1r/pppppppp/5n2/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 7 4';
+    act(() => root.render(
+      <Chess960Board fen={fen} previousFens={previousFens} animationDuration={0} onMove={vi.fn()} onGameEnd={onGameEnd} />
+    ));
+    expect(onGameEnd).not.toHaveBeenCalled();
+    drag('f6', 'g8');
+    expect(onGameEnd).toHaveBeenLastCalledWith({ result: '1/2-1/2', reason: 'threefoldRepetition', winner: null });
+  });
+});
+
+describe('keyboard input', () => {
+  function type(keys: string[]) {
+    for (const key of keys) {
+      act(() => {
+        window.dispatchEvent(new KeyboardEvent('keydown', { key }));
+      });
+    }
+  }
+
+  it('reads typed SAN in lower case', () => {
+    const onMove = vi.fn();
+    act(() => root.render(
+      <Chess960Board fen="4k3/8/8/8/8/8/1P1B4/1RK4R w KQ - 0 1" enableKeyboard animationDuration={0} onMove={onMove} />
+    ));
+    type(['b', 'c', '3', 'Enter']);
+    expect(onMove).toHaveBeenLastCalledWith('d2', 'c3', undefined);
+  });
+
+  it('reads typed castling', () => {
+    const onMove = vi.fn();
+    act(() => root.render(
+      <Chess960Board fen="4k3/8/8/8/8/8/8/1RK4R w KQ - 0 1" enableKeyboard animationDuration={0} onMove={onMove} />
+    ));
+    type(['o', '-', 'o', 'Enter']);
+    expect(onMove).toHaveBeenLastCalledWith('c1', 'h1', undefined);
+  });
+});
+
+function hasPiece(square: Square): boolean {
+  return container.querySelector(`[data-square="${square}"] .piece-container`) !== null;
+}
+
+describe('onMove verdicts', () => {
+  // The parent never changes `fen`: only the verdict decides what the board shows
+  function renderVerdict(onMove: Chess960BoardProps['onMove']) {
+    act(() => root.render(<Chess960Board fen={STANDARD_FEN} animationDuration={0} onMove={onMove} />));
+  }
+
+  it('shows a clicked move accepted with true', () => {
+    renderVerdict(() => true);
+    click('e2');
+    click('e4');
+    expect(hasPiece('e4')).toBe(true);
+    expect(hasPiece('e2')).toBe(false);
+  });
+
+  it('leaves the board alone on false', () => {
+    renderVerdict(() => false);
+    click('e2');
+    click('e4');
+    expect(hasPiece('e4')).toBe(false);
+    expect(hasPiece('e2')).toBe(true);
+  });
+
+  it('shows the move while the Promise is pending and rolls it back when refused', async () => {
+    let answer: (accepted: boolean) => void = () => undefined;
+    renderVerdict(() => new Promise<boolean>(resolve => { answer = resolve; }));
+    click('g1');
+    click('f3');
+    expect(hasPiece('f3')).toBe(true);
+
+    await act(async () => answer(false));
+    expect(hasPiece('f3')).toBe(false);
+    expect(hasPiece('g1')).toBe(true);
+  });
+
+  it('keeps the move when the Promise resolves true', async () => {
+    let answer: (accepted: boolean) => void = () => undefined;
+    renderVerdict(() => new Promise<boolean>(resolve => { answer = resolve; }));
+    click('g1');
+    click('f3');
+
+    await act(async () => answer(true));
+    expect(hasPiece('f3')).toBe(true);
+    expect(hasPiece('g1')).toBe(false);
+  });
+});
@@ -4,12 +4,15 @@
  * 
  * Features:
  * - Native Chess960 support with proper FEN handling
+ * - Built-in Chess960 rules engine (castling from any king/rook file)
+ * - Pluggable rules adapters (chess.js optional)
  * - Correct piece placement (white at rank 1, black at rank 8)
  * - Theme support (board colors, piece sets)
  * - Read-only mode for spectator/featured games
  * - Smooth piece move animations (configurable duration)
  * - Ghost piece during drag
  * - Arrow drawing and square highlighting
+ * - Engine best-move arrows and principal variation preview
  * - Premove support
  * - Promotion handling
  * - Clean, maintainable codebase
@@ -17,9 +20,25 @@
  * @packageDocumentation
  */
 
-import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Chess } from 'chess.js';
-import type { Chess960BoardProps, Piece, PieceType, Square } from './types';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef } from 'react';
+import { STANDARD_FEN, convertFen, findKing, findLegalMove, makeFen, parseFen as parsePosition, premoveDests, premovePosition, squareIndex, squareName } from './rules';
+import { chess960Rules } from './adapters';
+import type { RulesAdapter, RulesFactory } from './adapters';
+import { detectGameEnd, gameEndText } from './gameEnd';
+import type { GameEnd } from './gameEnd';
+import type { Move, MoveInput, Position } from './rules';
+import type { EngineInfo } from './uci';
+import type { CastlingInputMethod, Chess960BoardProps, Color, Piece, PieceType, Premove, Square } from './types';
+
+// A move typed on the keyboard, which arrives in lower case: SAN is matched
+// ignoring case, reading a leading "b" as the b-pawn before the bishop
+function findTypedMove(legal: Move[], input: string): Move | null {
+  const exact = findLegalMove(legal, input);
+  if (exact) return exact;
+  const normalize = (san: string) => san.replace(/[+#!?]/g, '').replace(/0/g, 'O').toLowerCase();
+  const matches = legal.filter(move => normalize(move.san) === normalize(input));
+  return matches.find(move => move.piece === 'p') ?? matches[0] ?? null;
+}
 
 // Component for animated piece
 function AnimatedPiece({
@@ -31,6 +50,9 @@ function AnimatedPiece({
   squareSize,
   animationDuration,
   getPieceImage,
+  ghost = false,
+  morphTo,
+  easing = 'ease-in-out',
 }: {
   fromX: number;
   fromY: number;
@@ -40,6 +62,12 @@ function AnimatedPiece({
   squareSize: number;
   animationDuration: number;
   getPieceImage: (piece: Piece) => string;
+  /** Render semi-transparent (previews rather than real moves) */
+  ghost?: boolean;
+  /** Piece to fade into while moving (promotion) */
+  morphTo?: Piece;
+  /** CSS timing function of the move */
+  easing?: string;
 }) {
   const [isAnimating, setIsAnimating] = useState(false);
   const ref = useRef<HTMLDivElement>(null);
@@ -69,9 +97,72 @@ function AnimatedPiece({
         width: squareSize,
         height: squareSize,
         transform: isAnimating ? `translate(${dx}px, ${dy}px)` : 'translate(0, 0)',
-        transition: `transform ${animationDuration}ms ease-in-out`,
+        transition: `transform ${animationDuration}ms ${easing}`,
+        opacity: ghost ? 0.55 : 1,
         zIndex: 100,
       }}
+    >
+      <img
+        src={getPieceImage(piece)}
+        alt={`${piece.color} ${piece.type}`}
+        className="absolute inset-0 w-full h-full object-contain object-center select-none"
+        draggable={false}
+        style={morphTo ? { opacity: isAnimating ? 0 : 1, transition: `opacity ${animationDuration}ms ease-in` } : undefined}
+      />
+      {morphTo && (
+        <img
+          src={getPieceImage(morphTo)}
+          alt={`${morphTo.color} ${morphTo.type}`}
+          className="absolute inset-0 w-full h-full object-contain object-center select-none"
+          draggable={false}
+          style={{ opacity: isAnimating ? 1 : 0, transition: `opacity ${animationDuration}ms ease-out` }}
+        />
+      )}
+    </div>
+  );
+}
+
+// Component for a captured piece fading out on its square (or a piece fading in)
+function FadingPiece({
+  x,
+  y,
+  piece,
+  squareSize,
+  animationDuration,
+  getPieceImage,
+  fadeIn = false,
+}: {
+  x: number;
+  y: number;
+  piece: Piece;
+  squareSize: number;
+  animationDuration: number;
+  getPieceImage: (piece: Piece) => string;
+  fadeIn?: boolean;
+}) {
+  const [isFading, setIsFading] = useState(false);
+
+  useEffect(() => {
+    // Start from the opposite opacity so the transition has something to fade
+    requestAnimationFrame(() => {
+      requestAnimationFrame(() => {
+        setIsFading(true);
+      });
+    });
+  }, []);
+
+  return (
+    <div
+      className="absolute pointer-events-none"
+      style={{
+        left: `${x}px`,
+        top: `${y}px`,
+        width: squareSize,
+        height: squareSize,
+        opacity: isFading === fadeIn ? 1 : 0,
+        transition: `opacity ${animationDuration}ms ease-out`,
+        zIndex: 50,
+      }}
     >
       <img
         src={getPieceImage(piece)}
@@ -92,28 +183,275 @@ const DEFAULT_PIECE_SET = {
   path: 'cburnett',
 };
 
+const DEFAULT_CASTLING_INPUT: CastlingInputMethod[] = ['kingOntoRook', 'kingToSquare', 'rookClick'];
+
+// Promotion picker order, closest to the promotion square first (as on lichess)
+const PROMOTION_CHOICES: PieceType[] = ['q', 'n', 'r', 'b'];
+
+const PIECE_NAMES: Record<PieceType, string> = {
+  p: 'pawn',
+  n: 'knight',
+  b: 'bishop',
+  r: 'rook',
+  q: 'queen',
+  k: 'king',
+};
+
+// FEN of a freely edited placement (rows rank 8 first). Side to move and move
+// counters come from the base position; castling rights survive only where
+// both the king and the rook are still on their squares.
+function placementFen(board: Piece[][], baseFen: string): string {
+  const base = parsePosition(baseFen);
+  const squares: (Piece | null)[] = Array(64).fill(null);
+  board.forEach((rank, rankIndex) => {
+    rank.forEach((piece, file) => {
+      if (piece) squares[(7 - rankIndex) * 8 + file] = piece;
+    });
+  });
+  
+  const unchanged = (index: number) => {
+    const before = base.board[index];
+    const after = squares[index];
+    return !!before && !!after && before.type === after.type && before.color === after.color;
+  };
+  const castlingRights: Record<Color, Square[]> = { white: [], black: [] };
+  for (const color of ['white', 'black'] as Color[]) {
+    const king = base.board.findIndex(piece => piece?.type === 'k' && piece.color === color);
+    if (king < 0 || !unchanged(king)) continue;
+    castlingRights[color] = base.castlingRights[color].filter(rook => unchanged(squareIndex(rook)));
+  }
+  
+  return makeFen({ ...base, board: squares, castlingRights, epSquare: null });
+}
+
+// Rows of a position's board, rank 8 first (the layout of boardState)
+function positionRows(position: Position): Piece[][] {
+  return Array.from({ length: 8 }, (_, rankIndex) =>
+    Array.from({ length: 8 }, (_, file) => position.board[(7 - rankIndex) * 8 + file])
+  ) as Piece[][];
+}
+
+// Position as the rules adapter sees it, for the ghost board: pieces, side to
+// move and the castling rooks it reports (none if it doesn't say)
+function rulesPosition(adapter: RulesAdapter): Position {
+  const board: (Piece | null)[] = Array(64).fill(null);
+  adapter.board().forEach((rank, rankIndex) => {
+    rank.forEach((piece, file) => {
+      if (piece) board[(7 - rankIndex) * 8 + file] = piece;
+    });
+  });
+  const castlingRights: Record<Color, Square[]> = { white: [], black: [] };
+  for (const rook of adapter.castlingRooks?.() ?? []) {
+    const piece = board[squareIndex(rook)];
+    if (piece) castlingRights[piece.color].push(rook);
+  }
+  return { board, turn: adapter.turn(), castlingRights, epSquare: null, halfmoves: 0, fullmoves: 1 };
+}
+
+function samePlacement(a: (Piece | null)[][], b: (Piece | null)[][]): boolean {
+  for (let rank = 0; rank < 8; rank++) {
+    for (let file = 0; file < 8; file++) {
+      const x = a[rank]?.[file];
+      const y = b[rank]?.[file];
+      if (x?.type !== y?.type || x?.color !== y?.color) return false;
+    }
+  }
+  return true;
+}
+
+// A piece sliding between squares; `promotion` is the piece it turns into
+interface PieceAnimation {
+  from: Square;
+  to: Square;
+  piece: Piece;
+  promotion?: Piece;
+}
+
+interface AnimationPlan {
+  /** Keyed by destination square and the piece that ends up there */
+  moving: Map<string, PieceAnimation>;
+  captured: Map<string, { square: Square; piece: Piece }>;
+  /** Pieces with no origin on the old board (keyed like `moving`) */
+  appearing: Map<string, { square: Square; piece: Piece }>;
+}
+
+// Everything that moves in one ply: the king and rook of a castling move,
+// the pawn and its en passant victim, the pawn turning into its promotion
+function moveAnimationPlan(move: Move): AnimationPlan {
+  const moving = new Map<string, PieceAnimation>();
+  const captured = new Map<string, { square: Square; piece: Piece }>();
+  const opponent: Color = move.color === 'white' ? 'black' : 'white';
+  const add = (from: Square, to: Square, piece: Piece, promotion?: Piece) => {
+    // A 960 king or rook may already stand on its castled square
+    if (from === to) return;
+    const final = promotion ?? piece;
+    moving.set(`${to}-${final.color}-${final.type}`, { from, to, piece, promotion });
+  };
+
+  if (move.castle) {
+    add(move.from, move.castle.kingTo, { type: 'k', color: move.color });
+    add(move.castle.rookFrom, move.castle.rookTo, { type: 'r', color: move.color });
+  } else {
+    const promotion = move.promotion ? { type: move.promotion, color: move.color } : undefined;
+    add(move.from, move.to, { type: move.piece, color: move.color }, promotion);
+    if (move.enPassant) {
+      captured.set(move.enPassant, { square: move.enPassant, piece: { type: 'p', color: opponent } });
+    } else if (move.captured) {
+      captured.set(move.to, { square: move.to, piece: { type: move.captured, color: opponent } });
+    }
+  }
+  return { moving, captured, appearing: new Map() };
+}
+
+// Every relocated piece between two boards, for jumps of several moves: each
+// piece that left a square is matched to the nearest square that gained a
+// piece of the same kind; unmatched pieces fade out or in
+function diffAnimationPlan(oldBoard: Piece[][], newBoard: Piece[][]): AnimationPlan {
+  const removed: Array<{ square: Square; rank: number; file: number; piece: Piece }> = [];
+  const added: Array<{ square: Square; rank: number; file: number; piece: Piece }> = [];
+  for (let rank = 0; rank < 8; rank++) {
+    for (let file = 0; file < 8; file++) {
+      const oldPiece = oldBoard[rank]?.[file];
+      const newPiece = newBoard[rank]?.[file];
+      if (oldPiece?.type === newPiece?.type && oldPiece?.color === newPiece?.color) continue;
+      const square = squareName((7 - rank) * 8 + file);
+      if (oldPiece) removed.push({ square, rank, file, piece: oldPiece });
+      if (newPiece) added.push({ square, rank, file, piece: newPiece });
+    }
+  }
+
+  // Closest pairs first (Manhattan distance)
+  const pairs: Array<{ from: number; to: number; distance: number }> = [];
+  removed.forEach((r, from) => {
+    added.forEach((a, to) => {
+      if (r.piece.type === a.piece.type && r.piece.color === a.piece.color) {
+        pairs.push({ from, to, distance: Math.abs(r.rank - a.rank) + Math.abs(r.file - a.file) });
+      }
+    });
+  });
+  pairs.sort((a, b) => a.distance - b.distance);
+
+  const moving = new Map<string, PieceAnimation>();
+  const usedFrom = new Set<number>();
+  const usedTo = new Set<number>();
+  for (const { from, to } of pairs) {
+    if (usedFrom.has(from) || usedTo.has(to)) continue;
+    usedFrom.add(from);
+    usedTo.add(to);
+    const target = added[to];
+    moving.set(`${target.square}-${target.piece.color}-${target.piece.type}`, {
+      from: removed[from].square,
+      to: target.square,
+      piece: target.piece,
+    });
+  }
+
+  const captured = new Map<string, { square: Square; piece: Piece }>();
+  removed.forEach(({ square, piece }, i) => {
+    if (!usedFrom.has(i)) captured.set(square, { square, piece });
+  });
+  const appearing = new Map<string, { square: Square; piece: Piece }>();
+  added.forEach(({ square, piece }, i) => {
+    if (!usedTo.has(i)) appearing.set(`${square}-${piece.color}-${piece.type}`, { square, piece });
+  });
+  return { moving, captured, appearing };
+}
+
+// The legal move of `previousFen` that leads to `board`, trying the parent's
+// hint first; null if the change isn't a single legal move
+function findPlayedMove(rules: RulesFactory, previousFen: string, board: Piece[][], hint?: MoveInput | null): Move | null {
+  let previous: RulesAdapter;
+  try {
+    previous = rules(previousFen);
+  } catch {
+    return null;
+  }
+  const legal = previous.moves();
+  const hinted = hint ? previous.findMove(hint) : null;
+  const leadsToBoard = (move: Move) => {
+    const next = rules(previousFen);
+    return next.move({ from: move.from, to: move.to, promotion: move.promotion }) !== null &&
+      samePlacement(next.board(), board);
+  };
+  if (hinted && leadsToBoard(hinted)) return hinted;
+  return legal.find(leadsToBoard) ?? null;
+}
+
+// An engine arrow; width is a share of the square size
+interface EngineArrow {
+  from: Square;
+  to: Square;
+  width: number;
+  opacity: number;
+  /** Move number in the previewed principal variation */
+  label?: number;
+  ghost: boolean;
+}
+
+// Arrows for the engine lines: the first move of each line, bolder for better
+// ranks, then the rest of the best line's PV as numbered ghost arrows
+function engineArrowPlan(lines: EngineInfo[], count: number, pvPreview: number): EngineArrow[] {
+  const squares = (uci: string) => ({ from: uci.slice(0, 2), to: uci.slice(2, 4) });
+  const ranked = lines
+    .filter(line => line.pv.length > 0)
+    .sort((a, b) => a.multipv - b.multipv)
+    .slice(0, count);
+
+  const arrows: EngineArrow[] = ranked.map((line, rank) => ({
+    ...squares(line.pv[0]),
+    width: Math.max(0.04, 0.14 * Math.pow(0.72, rank)),
+    opacity: Math.max(0.3, 1 - rank * 0.22),
+    label: rank === 0 && pvPreview > 0 ? 1 : undefined,
+    ghost: false,
+  }));
+  if (ranked.length > 0) {
+    ranked[0].pv.slice(1, pvPreview).forEach((uci, i) => {
+      arrows.push({ ...squares(uci), width: 0.07, opacity: Math.max(0.3, 0.6 - i * 0.06), label: i + 2, ghost: true });
+    });
+  }
+  return arrows;
+}
+
 export function Chess960Board({
   fen,
   orientation = 'white',
   width = 280,
   onMove,
-  readOnly = false,
+  readOnly: readOnlyProp = false,
   showCoordinates = true,
   theme = DEFAULT_BOARD_THEME,
   pieceSet = DEFAULT_PIECE_SET,
   piecesBaseUrl = '/pieces',
   lastMove,
+  moveHint,
   selectedSquare: externalSelectedSquare,
   legalMoves = [],
   currentPlayerColor,
+  movable,
+  onPositionChange,
   arrows = [],
   onArrowsChange,
+  engineLines,
+  engineArrowCount,
+  engineArrowColor = 'rgba(21, 120, 27, 0.9)',
+  pvPreview = 0,
+  glyphs,
   enablePremove = false,
+  onPremoveSet,
+  onPremoveCancel,
   onPromotionSelect,
+  autoQueen = 'premove',
   animationDuration = 200,
+  animationEasing = 'ease-in-out',
+  animateJumps = false,
+  animateOrientation = false,
   showDestinations = true,
   snapToValidMoves = true,
   rookCastle = true,
+  castlingInput = DEFAULT_CASTLING_INPUT,
+  castlingAmbiguity = 'ask',
+  showCastlingRights = false,
+  showCastlePreview = true,
   touchIgnoreRadius = 0,
   enableKeyboard = false,
   onKeyboardInput,
@@ -123,12 +461,19 @@ export function Chess960Board({
   enableResize = false,
   onResize,
   eraseArrowsOnClick = false,
+  rules = chess960Rules,
+  previousFens,
+  gameEnd: externalGameEnd,
+  onGameEnd,
+  showGameEndOverlay = false,
 }: Chess960BoardProps) {
-  const [chess] = useState(() => new Chess(fen));
+  // Rules adapter is created once; a different `rules` prop needs a remount (key)
+  const [chess] = useState(() => rules(fen));
   const [boardState, setBoardState] = useState<Piece[][]>([]);
   const [previousBoardState, setPreviousBoardState] = useState<Piece[][]>([]);
-  const [animatingPieces, setAnimatingPieces] = useState<Map<string, { from: Square; to: Square; piece: Piece }>>(new Map());
+  const [animatingPieces, setAnimatingPieces] = useState<Map<string, PieceAnimation>>(new Map());
   const [capturedPieces, setCapturedPieces] = useState<Map<string, { square: Square; piece: Piece }>>(new Map());
+  const [appearingPieces, setAppearingPieces] = useState<Map<string, { square: Square; piece: Piece }>>(new Map());
   const [internalSelectedSquare, setInternalSelectedSquare] = useState<Square | null>(null);
   const [draggedPiece, setDraggedPiece] = useState<{ square: Square; piece: Piece } | null>(null);
   const [dragOverSquare, setDragOverSquare] = useState<Square | null>(null);
@@ -137,9 +482,9 @@ export function Chess960Board({
   const [rightClickedSquares, setRightClickedSquares] = useState<Record<Square, { backgroundColor: string }>>({});
   const [arrowStart, setArrowStart] = useState<Square | null>(null);
   const [isDrawingArrow, setIsDrawingArrow] = useState(false);
-  const [premoves, setPremoves] = useState<Array<{ from: Square; to: Square }>>([]);
-  const [showPromotionDialog, setShowPromotionDialog] = useState(false);
-  const [pendingPromotion, setPendingPromotion] = useState<{ from: Square; to: Square } | null>(null);
+  const [premoves, setPremoves] = useState<Premove[]>([]);
+  // Promotion waiting for the player to pick a piece (premove promotions are queued once picked)
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Square; to: Square; color: Color; premove: boolean } | null>(null);
   const [keyboardInput, setKeyboardInput] = useState<string>('');
   const keyboardInputRef = useRef<string>('');
   const [internalWidth, setInternalWidth] = useState<number>(width);
@@ -212,19 +557,14 @@ export function Chess960Board({
     const board: Piece[][] = Array(8).fill(null).map(() => Array(8).fill(null));
     
     try {
-      const chess = new Chess(fenString);
-      const position = chess.board();
+      const position = rules(fenString).board();
       
-      // Convert chess.js board format to our format
-      // chess.js: [rank8, rank7, ..., rank1] where rank8 is index 0
-      // We want: [rank8, rank7, ..., rank1] for display
+      // Rules adapter board layout: [rank8, rank7, ..., rank1] where rank8 is index 0
+      // Same layout we use for display
       position.forEach((rank, rankIndex) => {
         rank.forEach((square, fileIndex) => {
           if (square) {
-            board[rankIndex][fileIndex] = {
-              type: square.type as PieceType,
-              color: square.color === 'w' ? 'white' : 'black',
-            };
+            board[rankIndex][fileIndex] = { ...square };
           }
         });
       });
@@ -233,7 +573,7 @@ export function Chess960Board({
     }
     
     return board;
-  }, []);
+  },[rules]);
 
   // Convert square notation to rank/file (defined early for use in detectAndAnimateMoves)
   const squareToRankFile = useCallback((square: Square): { rank: number; file: number } => {
@@ -242,12 +582,18 @@ export function Chess960Board({
     return { rank, file };
   }, []);
 
-  // Detect moves and set up animations - only animate the ONE actual move
-  const detectAndAnimateMoves = useCallback((oldBoard: Piece[][], newBoard: Piece[][]) => {
-    // Only animate if exactly ONE piece moved (to avoid re-animating old moves)
+  // Read when the FEN changes, without re-running the FEN effect
+  const moveHintRef = useRef(moveHint);
+  useEffect(() => {
+    moveHintRef.current = moveHint;
+  }, [moveHint]);
+
+  // Fallback for changes that aren't a legal move (free mode, editors): only
+  // animate when exactly ONE piece moved, to avoid re-animating old moves
+  const diffSinglePiece = useCallback((oldBoard: Piece[][], newBoard: Piece[][]): AnimationPlan | null => {
     let moveCount = 0;
     let capturedCount = 0;
-    const animating = new Map<string, { from: Square; to: Square; piece: Piece }>();
+    const animating = new Map<string, PieceAnimation>();
     const captured = new Map<string, { square: Square; piece: Piece }>();
     
     // Track squares that had pieces removed
@@ -283,7 +629,7 @@ export function Chess960Board({
     // This prevents re-animating pieces that were already moved
     if (squaresWithRemovedPieces.size !== 1 || squaresWithNewPieces.size > 1) {
       // Too many changes - don't animate (likely a position reset or multiple moves)
-      return;
+      return null;
     }
     
     // Second pass: match removed piece with new piece
@@ -335,20 +681,42 @@ export function Chess960Board({
       }
     }
     
-    // Only set animations if we have exactly one move
+    // Only animate if we have exactly one move
     if (moveCount === 1 || (moveCount === 0 && capturedCount === 1)) {
-      setAnimatingPieces(animating);
-      setCapturedPieces(captured);
-      
-      // Clear animations after duration
-      if (animating.size > 0 || captured.size > 0) {
-        setTimeout(() => {
-          setAnimatingPieces(new Map());
-          setCapturedPieces(new Map());
-        }, animationDuration);
-      }
+      return { moving: animating, captured, appearing: new Map() };
+    }
+    return null;
+  }, [rankFileToSquare, squareToRankFile]);
+
+  // Detect moves and set up animations. A change that is one legal move
+  // animates every piece it moves (castling king and rook), fades its capture
+  // (including en passant) and morphs a promoting pawn.
+  const startAnimations = useCallback((plan: AnimationPlan) => {
+    if (plan.moving.size === 0 && plan.captured.size === 0 && plan.appearing.size === 0) return;
+    setAnimatingPieces(plan.moving);
+    setCapturedPieces(plan.captured);
+    setAppearingPieces(plan.appearing);
+
+    // Clear animations after duration
+    setTimeout(() => {
+      setAnimatingPieces(new Map());
+      setCapturedPieces(new Map());
+      setAppearingPieces(new Map());
+    }, animationDuration);
+  }, [animationDuration]);
+
+  // Anything else is a jump (history navigation, a reset): with animateJumps
+  // every piece slides, otherwise only a lone moved piece does
+  const detectAndAnimateMoves = useCallback((oldBoard: Piece[][], newBoard: Piece[][], previousFen: string) => {
+    const played = findPlayedMove(rules, previousFen, newBoard, moveHintRef.current);
+    const plan = played
+      ? moveAnimationPlan(played)
+      : animateJumps ? diffAnimationPlan(oldBoard, newBoard) : diffSinglePiece(oldBoard, newBoard);
+    if (plan) {
+      startAnimations(plan);
     }
-  }, [rankFileToSquare, animationDuration, squareToRankFile]);
+  }, [rules, animateJumps, diffSinglePiece, startAnimations]);
+
 
   // Update board state when FEN changes and detect moves for animation
   // Use refs to avoid infinite loops from state dependencies
@@ -367,10 +735,19 @@ export function Chess960Board({
 
   // Helper to normalize FEN for comparison (ignore move counters)
   const normalizeFen = useCallback((fenStr: string): string => {
+    // Canonicalize the castling field first so KQkq, X-FEN and Shredder-FEN
+    // spellings of the same position compare equal
+    let canonical = fenStr;
+    try {
+      canonical = convertFen(fenStr, 'xfen');
+    } catch {
+      // Leave malformed FEN as-is - loading it will report the error
+    }
+    
     // Remove move counters at the end for comparison
     // FEN format: "position w/b castling enpassant halfmove fullmove"
     // We only care about the position part for visual comparison
-    const parts = fenStr.split(' ');
+    const parts = canonical.split(' ');
     if (parts.length >= 4) {
       return parts.slice(0, 4).join(' ');
     }
@@ -381,6 +758,9 @@ export function Chess960Board({
   const optimisticUpdateRef = useRef<boolean>(false);
   // Store the FEN before optimistic update so we can detect reverts
   const preOptimisticFenRef = useRef<string | undefined>(undefined);
+  // Move shown while onMove's Promise is unsettled, with the positions around it
+  const pendingMoveRef = useRef<{ id: number; fenBefore: string; fenAfter: string } | null>(null);
+  const pendingMoveIdRef = useRef(0);
   // Track if a drop was successfully handled (to prevent dragEnd from clearing state)
   const dropHandledRef = useRef<boolean>(false);
 
@@ -389,6 +769,20 @@ export function Chess960Board({
     const normalizedFen = fen ? normalizeFen(fen) : undefined;
     const normalizedLastFen = lastFenRef.current ? normalizeFen(lastFenRef.current) : undefined;
     
+    // A move awaiting its verdict stays on the board while the parent still
+    // shows the position before it; any other position replaces it
+    const pendingMove = pendingMoveRef.current;
+    if (pendingMove && fen) {
+      if (normalizedFen === normalizeFen(pendingMove.fenBefore)) {
+        return;
+      }
+      if (normalizedFen === normalizeFen(pendingMove.fenAfter)) {
+        chess.load(fen);
+        lastFenRef.current = fen;
+        return;
+      }
+      pendingMoveRef.current = null;
+    }
     
     // CRITICAL: If we have an optimistic update active, protect boardState from being overwritten
     if (optimisticUpdateRef.current && preOptimisticFenRef.current) {
@@ -463,15 +857,14 @@ export function Chess960Board({
         
         // Use refs to get current state without adding to dependencies
         const currentBoardState = boardStateRef.current;
-        const currentPreviousBoardState = previousBoardStateRef.current;
         
-        // Only animate if we have a previous state and animations are enabled
+        // Only animate if we have a board on screen and animations are enabled
         // AND the position actually changed (not just move counters)
         const normalizedPreviousFen = previousFen ? normalizeFen(previousFen) : undefined;
-        if (currentPreviousBoardState.length > 0 && animationDuration > 0 && normalizedPreviousFen !== normalizedFen) {
-          // Make a deep copy of previous state for comparison
-          const prevBoardCopy = currentPreviousBoardState.map(rank => rank.map(piece => piece ? { ...piece } : null)) as Piece[][];
-          detectAndAnimateMoves(prevBoardCopy, newBoardState);
+        if (currentBoardState.length > 0 && animationDuration > 0 && normalizedPreviousFen !== normalizedFen) {
+          // Diff against the board on screen, which previousFen describes
+          const prevBoardCopy = currentBoardState.map(rank => rank.map(piece => piece ? { ...piece } : null)) as Piece[][];
+          detectAndAnimateMoves(prevBoardCopy, newBoardState, previousFen);
         }
         
         // Update previous state to current before updating current
@@ -483,7 +876,7 @@ export function Chess960Board({
       } catch (error) {
         console.error('[Chess960Board] Error loading FEN:', fen, error);
         // Fallback to standard starting position
-        chess.reset();
+        chess.load(STANDARD_FEN);
         const newBoardState = parseFen(chess.fen());
         const currentBoardState = boardStateRef.current;
         const prevStateCopy = currentBoardState.length > 0 
@@ -494,7 +887,7 @@ export function Chess960Board({
       }
     } else {
       // If no FEN provided, use standard starting position
-      chess.reset();
+      chess.load(STANDARD_FEN);
       const newBoardState = parseFen(chess.fen());
       const currentBoardState = boardStateRef.current;
       const prevStateCopy = currentBoardState.length > 0 
@@ -513,27 +906,176 @@ export function Chess960Board({
   // State for right-click hover destination display
   const [rightClickHoverSquare, setRightClickHoverSquare] = useState<Square | null>(null);
   
+  // Castling input conventions in effect (rookCastle={false} still turns off rook clicks)
+  const castlingMethods = useMemo(
+    () => castlingInput.filter(method => method !== 'rookClick' || rookCastle),
+    [castlingInput, rookCastle]
+  );
+  
+  // Movable configuration - who may move, and whether the parent's dests map or
+  // nothing at all (free mode) replaces the rules adapter as the legality authority
+  const movableColor: Color | 'both' = movable?.color ?? currentPlayerColor ?? 'both';
+  const freeMove = movable?.free ?? false;
+  const controlledDests = freeMove ? undefined : movable?.dests;
+  
+  // Game end: given by the parent, or detected in the board's current position
+  // (not in free mode, where positions needn't be playable). That is the `fen`
+  // prop, or a move shown ahead of it (optimistic, or accepted before the parent
+  // echoed it), for which `fen` becomes an earlier position. `chess` is loaded
+  // in place, so boardState stands in for its position. The board takes no more moves.
+  const detectedGameEnd = useMemo((): GameEnd | null => {
+    if (freeMove || !fen) return null;
+    try {
+      const current = chess.fen();
+      const earlier = normalizeFen(current) === normalizeFen(fen) ? previousFens : [...(previousFens ?? []), fen];
+      return detectGameEnd(rules(current), earlier);
+    } catch {
+      return null;
+    }
+  }, [freeMove, fen, chess, boardState, normalizeFen, rules, previousFens]);
+  const gameEnd = externalGameEnd ?? detectedGameEnd;
+  const readOnly = readOnlyProp || gameEnd !== null;
+  
+  const onGameEndRef = useRef(onGameEnd);
+  useEffect(() => {
+    onGameEndRef.current = onGameEnd;
+  }, [onGameEnd]);
+  
+  // Report each new end once (not again on re-renders with the same result)
+  const gameEndKey = gameEnd ? `${fen}|${gameEnd.result}|${gameEnd.reason}` : null;
+  useEffect(() => {
+    if (gameEnd && onGameEndRef.current) {
+      onGameEndRef.current(gameEnd);
+    }
+  }, [gameEndKey]);
+  
+  const canMoveColor = useCallback((color: Color): boolean => {
+    return movableColor === 'both' || movableColor === color;
+  }, [movableColor]);
+  
+  // Determine if it's the player's turn (for premove validation). `chess` is
+  // one instance loaded in place, so the position changes it goes through -
+  // a new `fen`, an optimistic move (both set boardState) - are the dependencies.
+  const isPlayerTurn = useMemo(() => {
+    // Free mode and 'both' ignore the side to move
+    if (freeMove || movableColor === 'both') return true;
+    try {
+      return chess.turn() === movableColor;
+    } catch {
+      return true;
+    }
+  }, [chess, fen, boardState, freeMove, movableColor]);
+
+  // Ghost position while premoving: the current position with the queued premoves
+  // played for our own pieces. The opponent's pieces are left where they are -
+  // where they will be is unknown. boardState is a dependency so the projection
+  // follows every position change.
+  const premoveGhost = useMemo((): Position | null => {
+    if (!enablePremove || isPlayerTurn || freeMove) return null;
+    try {
+      return premovePosition(rulesPosition(chess), premoves);
+    } catch {
+      return null;
+    }
+  }, [enablePremove, isPlayerTurn, freeMove, chess, premoves, boardState]);
+
+  // Pieces as the player sees and handles them: the ghost board once premoves are queued
+  const pieceBoard = useMemo(
+    () => premoveGhost && premoves.length > 0 ? positionRows(premoveGhost) : boardState,
+    [premoveGhost, premoves, boardState]
+  );
+
+  // Squares of the queued premoves, highlighted in their own color
+  const premoveSquares = useMemo(
+    () => new Set<Square>(premoves.flatMap(premove => [premove.from, premove.to])),
+    [premoves]
+  );
+
+  // Whether the parent's dests map allows a move (castling may be given by either square)
+  const isControlledDest = useCallback((from: Square, to: Square): boolean => {
+    return controlledDests?.get(from)?.includes(to) ?? false;
+  }, [controlledDests]);
+  
+  // Move metadata for input the rules adapter does not know (free mode, or dests
+  // the parent allows beyond the adapter's rules) - enough for sounds and callbacks
+  const uncheckedMove = useCallback((from: Square, to: Square, promotion?: PieceType): Move | null => {
+    const piece = chess.get(from);
+    if (!piece) return null;
+    const target = chess.get(to);
+    const captured = target && target.color !== piece.color ? target.type : undefined;
+    const lastRank = piece.color === 'white' ? '8' : '1';
+    const promoted = piece.type === 'p' && to[1] === lastRank ? (promotion ?? 'q') : undefined;
+    return {
+      from,
+      to,
+      color: piece.color,
+      piece: piece.type,
+      captured,
+      promotion: promoted,
+      san: '',
+      flags: (captured ? 'c' : 'n') + (promoted ? 'p' : ''),
+    };
+  }, [chess]);
+  
+  // Destination squares for a piece, limited to the enabled castling conventions
+  const getDests = useCallback((square: Square): Square[] => {
+    // Free mode has no destinations to show; a dests map is shown exactly as given
+    if (freeMove) return [];
+
+    // Premoves go wherever our own pieces don't block, on the ghost board
+    if (premoveGhost) {
+      const piece = premoveGhost.board[squareIndex(square)];
+      if (!piece || !canMoveColor(piece.color)) return [];
+      return premoveDests(premoveGhost, square).filter(dest => {
+        if (piece.type !== 'k') return true;
+        // A king reaches its own rook or a square two files away only by castling
+        if (premoveGhost.board[squareIndex(dest)]?.color === piece.color) {
+          return castlingMethods.includes('kingOntoRook');
+        }
+        if (Math.abs(dest.charCodeAt(0) - square.charCodeAt(0)) > 1) {
+          return castlingMethods.includes('kingToSquare');
+        }
+        return true;
+      });
+    }
+
+    if (controlledDests) return controlledDests.get(square) ?? [];
+
+    const dests = new Set<Square>();
+    for (const move of chess.moves({ square })) {
+      if (!move.castle) {
+        dests.add(move.to);
+        continue;
+      }
+      if (castlingMethods.includes('kingOntoRook')) {
+        dests.add(move.to);
+      }
+      if (castlingMethods.includes('kingToSquare') && move.castle.kingTo !== move.from) {
+        dests.add(move.castle.kingTo);
+      }
+    }
+    return Array.from(dests);
+  }, [chess, castlingMethods, freeMove, controlledDests, premoveGhost, canMoveColor]);
+  
   // Calculate legal moves for selected square
   const calculatedLegalMoves = useMemo(() => {
     if (!selectedSquare || readOnly || !showDestinations) return [];
     try {
-      const moves = chess.moves({ square: selectedSquare as any, verbose: true });
-      return moves.map((move: any) => move.to);
+      return getDests(selectedSquare);
     } catch {
       return [];
     }
-  }, [selectedSquare, chess, readOnly, showDestinations]);
+  }, [selectedSquare, getDests, readOnly, showDestinations]);
   
   // Calculate legal moves for right-click hover (shows destinations on right-click)
   const rightClickLegalMoves = useMemo(() => {
     if (!rightClickHoverSquare || readOnly || !showDestinations) return [];
     try {
-      const moves = chess.moves({ square: rightClickHoverSquare as any, verbose: true });
-      return moves.map((move: any) => move.to);
+      return getDests(rightClickHoverSquare);
     } catch {
       return [];
     }
-  }, [rightClickHoverSquare, chess, readOnly, showDestinations]);
+  }, [rightClickHoverSquare, getDests, readOnly, showDestinations]);
   
   // Use provided legalMoves or calculate them
   // Show destinations for selected square OR right-click hover square
@@ -545,6 +1087,42 @@ export function Chess960Board({
   
   // Square to show destinations for (either selected or right-click hover)
   const destinationsSquare = selectedSquare || rightClickHoverSquare;
+  
+  // Castling targets of the selected king, keyed by the squares that trigger them
+  // (the rook's square and/or the king's final square, per castlingInput)
+  const castleTargets = useMemo(() => {
+    const targets = new Map<Square, Move>();
+    if (!selectedSquare || readOnly || !showDestinations) return targets;
+    if (freeMove) return targets;
+    // Only squares the dests map allows, when the parent controls legality
+    const allowed = (target: Square) => !controlledDests || isControlledDest(selectedSquare, target);
+    try {
+      for (const move of chess.moves({ square: selectedSquare })) {
+        if (!move.castle) continue;
+        if (castlingMethods.includes('kingOntoRook') && allowed(move.to)) {
+          targets.set(move.to, move);
+        }
+        if (castlingMethods.includes('kingToSquare') && move.castle.kingTo !== move.from && allowed(move.castle.kingTo)) {
+          targets.set(move.castle.kingTo, move);
+        }
+      }
+    } catch {
+      // No castling targets
+    }
+    return targets;
+  }, [selectedSquare, chess, readOnly, showDestinations, castlingMethods, freeMove, controlledDests, isControlledDest]);
+  
+  // Castling move previewed while hovering one of its targets
+  const [castlePreview, setCastlePreview] = useState<Move | null>(null);
+  
+  useEffect(() => {
+    setCastlePreview(null);
+  }, [selectedSquare, fen]);
+  
+  // Rooks that still carry castling rights (for the optional badge)
+  const castlingRookSquares = showCastlingRights
+    ? new Set(chess.castlingRooks?.() ?? [])
+    : new Set<Square>();
 
   // Sound helper function (defined early for use in handlers)
   const playSound = useCallback((soundType: 'move' | 'capture' | 'check' | 'castle' | 'promotion') => {
@@ -566,6 +1144,252 @@ export function Chess960Board({
     });
   }, [sounds]);
   
+  // Pick the sound for a move (castle > promotion > check > capture > move)
+  const playMoveSound = useCallback((move: Move) => {
+    if (move.castle) {
+      playSound('castle');
+    } else if (move.promotion) {
+      playSound('promotion');
+    } else if (move.san.includes('+') || move.san.includes('#')) {
+      playSound('check');
+    } else if (move.captured) {
+      playSound('capture');
+    } else {
+      playSound('move');
+    }
+  }, [playSound]);
+  
+  // Pending choice between a normal king move and castling onto the same square
+  const [castlingChoice, setCastlingChoice] = useState<{ move: Move; castle: Move } | null>(null);
+  
+  // A new position invalidates any pending choice
+  useEffect(() => {
+    setCastlingChoice(null);
+    setPendingPromotion(null);
+  }, [fen]);
+  
+  // Color of the pawn if moving from -> to promotes it, otherwise null
+  const promotingColor = useCallback((from: Square, to: Square): Color | null => {
+    // Premoved pawns may only exist on the ghost board
+    const piece = premoveGhost ? premoveGhost.board[squareIndex(from)] : chess.get(from);
+    if (!piece || piece.type !== 'p') return null;
+    return to[1] === (piece.color === 'white' ? '8' : '1') ? piece.color : null;
+  }, [chess, premoveGhost]);
+  
+  // Whether a promotion asks for the piece (autoQueen decides otherwise)
+  const needsPromotionPicker = useCallback((premove: boolean): boolean => {
+    return autoQueen === 'never' || (autoQueen === 'premove' && !premove);
+  }, [autoQueen]);
+  
+  // Append a premove to the chain
+  const queuePremove = useCallback((premove: Premove) => {
+    setPremoves(prev => [...prev, premove]);
+    if (onPremoveSet) {
+      onPremoveSet(premove.from, premove.to, premove.promotion);
+    }
+  }, [onPremoveSet]);
+  
+  // Drop the whole premove chain
+  const cancelPremoves = useCallback(() => {
+    setPremoves([]);
+    if (onPremoveCancel) {
+      onPremoveCancel();
+    }
+  }, [onPremoveCancel]);
+  
+  // Premoves can't be played once the game is over
+  useEffect(() => {
+    if (gameEnd && premoves.length > 0) {
+      cancelPremoves();
+    }
+  }, [gameEnd, premoves.length, cancelPremoves]);
+  
+  // Queue a premove if the ghost board allows it (returns false otherwise);
+  // pawn moves to the last rank get their piece now
+  const addPremove = useCallback((from: Square, to: Square): boolean => {
+    if (!getDests(from).includes(to)) return false;
+    const color = promotingColor(from, to);
+    if (color && needsPromotionPicker(true)) {
+      setPendingPromotion({ from, to, color, premove: true });
+      return true;
+    }
+    queuePremove({ from, to, promotion: color ? 'q' : undefined });
+    return true;
+  }, [getDests, promotingColor, needsPromotionPicker, queuePremove]);
+  
+  // Put a position on the board, sliding the pieces there from the board on screen
+  const showPosition = useCallback((newFen: string, plan: (oldBoard: Piece[][], newBoard: Piece[][]) => AnimationPlan | null) => {
+    const newBoardState = parseFen(newFen);
+    const currentBoardState = boardStateRef.current;
+    const prevStateCopy = currentBoardState.length > 0
+      ? (currentBoardState.map(rank => rank.map(piece => piece ? { ...piece } : null)) as Piece[][])
+      : newBoardState;
+    if (currentBoardState.length > 0 && animationDuration > 0) {
+      const animation = plan(prevStateCopy, newBoardState);
+      if (animation) startAnimations(animation);
+    }
+    boardStateRef.current = newBoardState;
+    lastFenRef.current = newFen;
+    setPreviousBoardState(prevStateCopy);
+    setBoardState(newBoardState);
+  }, [parseFen, animationDuration, startAnimations]);
+
+  // Take back a refused move, animating the pieces back to where they were
+  const rollbackMove = useCallback((fenBefore: string) => {
+    optimisticUpdateRef.current = false;
+    preOptimisticFenRef.current = undefined;
+    chess.load(fenBefore);
+    showPosition(fenBefore, diffAnimationPlan);
+    cancelPremoves();
+  }, [chess, showPosition, cancelPremoves]);
+
+  // Hand a move to the parent. When onMove answers with a boolean or a
+  // Promise, that answer decides: the move shows at once, stays when accepted
+  // and is rolled back if refused. Without an answer the parent's next FEN
+  // decides, as before.
+  const reportMove = useCallback((from: Square, to: Square, promotion?: PieceType) => {
+    if (!onMove) return;
+    // A dragged move is already on the board
+    const alreadyShown = optimisticUpdateRef.current ? preOptimisticFenRef.current : undefined;
+    const fenBefore = alreadyShown ?? chess.fen();
+    const verdict = onMove(from, to, promotion);
+    if (verdict === undefined) return;
+
+    // The answer replaces the guesswork on the parent's FENs
+    optimisticUpdateRef.current = false;
+    preOptimisticFenRef.current = undefined;
+    if (verdict === false) {
+      if (alreadyShown) rollbackMove(fenBefore);
+      return;
+    }
+
+    // Accepted or awaiting the answer: the move shows at once
+    if (!alreadyShown) {
+      const played = chess.move({ from, to, promotion });
+      if (!played) return;
+      showPosition(chess.fen(), () => moveAnimationPlan(played));
+    }
+    if (verdict === true) return;
+    const id = ++pendingMoveIdRef.current;
+    pendingMoveRef.current = { id, fenBefore, fenAfter: chess.fen() };
+    const settle = (accepted: boolean) => {
+      // A newer move or position has taken over
+      if (pendingMoveRef.current?.id !== id) return;
+      pendingMoveRef.current = null;
+      if (!accepted) rollbackMove(fenBefore);
+    };
+    verdict.then(accepted => settle(accepted !== false), () => settle(false));
+  }, [onMove, chess, showPosition, rollbackMove]);
+
+  // Finish a promotion with the picked piece (null cancels it)
+  const handlePromotionChoice = useCallback((piece: PieceType | null) => {
+    const pending = pendingPromotion;
+    setPendingPromotion(null);
+    if (!pending || !piece) return;
+    if (onPromotionSelect) {
+      onPromotionSelect(piece);
+    }
+    if (pending.premove) {
+      queuePremove({ from: pending.from, to: pending.to, promotion: piece });
+      return;
+    }
+    if (!onMove) return;
+    playSound('promotion');
+    reportMove(pending.from, pending.to, piece);
+  }, [pendingPromotion, onPromotionSelect, onMove, reportMove, playSound, queuePremove]);
+  
+  // Resolve player input to a legal move under the configured castling conventions
+  // A king move onto its castling square that is also an ordinary king move is ambiguous:
+  // depending on castlingAmbiguity it is returned as both candidates for the player to pick
+  const resolveMove = useCallback((from: Square, to: Square, promotion?: PieceType): {
+    move: Move | null;
+    ambiguous?: { move: Move; castle: Move };
+  } => {
+    // Free mode: anything goes
+    if (freeMove) return { move: uncheckedMove(from, to, promotion) };
+    // Controlled dests: the map decides, the adapter only supplies move metadata
+    if (controlledDests && !isControlledDest(from, to)) return { move: null };
+    
+    const moves = chess.moves({ square: from });
+    const normal = moves.find(move =>
+      !move.castle && move.to === to && (!move.promotion || move.promotion === (promotion ?? 'q'))
+    ) ?? null;
+    
+    // King dropped or clicked onto its own rook - always castling
+    const ontoRook = castlingMethods.includes('kingOntoRook')
+      ? moves.find(move => move.castle && move.to === to)
+      : undefined;
+    if (ontoRook) return { move: ontoRook };
+    
+    // King moved to its final castling square
+    const toSquare = castlingMethods.includes('kingToSquare')
+      ? moves.find(move => move.castle && move.castle.kingTo === to && move.castle.kingTo !== from)
+      : undefined;
+    if (toSquare && normal) {
+      if (castlingAmbiguity === 'move') return { move: normal };
+      if (castlingAmbiguity === 'castle') return { move: toSquare };
+      return { move: null, ambiguous: { move: normal, castle: toSquare } };
+    }
+    
+    const move = normal ?? toSquare ?? null;
+    if (!move && controlledDests) return { move: uncheckedMove(from, to, promotion) };
+    return { move };
+  }, [chess, castlingMethods, castlingAmbiguity, freeMove, controlledDests, isControlledDest, uncheckedMove]);
+  
+  // Finish an ambiguous castling input with the player's choice
+  const handleCastlingChoice = useCallback((move: Move | null) => {
+    setCastlingChoice(null);
+    if (!move || !onMove) return;
+    playMoveSound(move);
+    reportMove(move.from, move.to, move.promotion);
+  }, [onMove, reportMove, playMoveSound]);
+  
+  // Free mode: move a piece (or remove it when `to` is null) on the board itself,
+  // then report the resulting placement. Captures of own pieces are allowed.
+  const applyFreeMove = useCallback((from: Square, to: Square | null) => {
+    const currentBoard = boardStateRef.current;
+    const { rank: fromRank, file: fromFile } = squareToRankFile(from);
+    const piece = currentBoard[fromRank]?.[fromFile];
+    if (!piece || from === to) return;
+    
+    const placement: (Piece | null)[][] = currentBoard.map(rank => rank.map(p => p ? { ...p } : null));
+    let captured = false;
+    placement[fromRank][fromFile] = null;
+    if (to) {
+      const { rank: toRank, file: toFile } = squareToRankFile(to);
+      captured = placement[toRank][toFile] !== null;
+      placement[toRank][toFile] = piece;
+    }
+    const newBoardState = placement as Piece[][];
+    
+    let newFen: string;
+    try {
+      newFen = placementFen(newBoardState, lastFenRef.current || chess.fen());
+    } catch (error) {
+      console.error('[Chess960Board] Error building free mode FEN:', error);
+      return;
+    }
+    try {
+      chess.load(newFen);
+    } catch {
+      // Some adapters refuse placements without kings - the board state stays authoritative
+    }
+    
+    // Parent echoing this FEN back must not reload or animate
+    boardStateRef.current = newBoardState;
+    lastFenRef.current = newFen;
+    setPreviousBoardState(currentBoard);
+    setBoardState(newBoardState);
+    
+    if (to && onMove) {
+      playSound(captured ? 'capture' : 'move');
+      onMove(from, to);
+    }
+    if (onPositionChange) {
+      onPositionChange(newFen);
+    }
+  }, [chess, squareToRankFile, playSound, onMove, onPositionChange]);
+  
   // Handle square click with rook castling support and arrow erase
   const handleSquareClick = useCallback((rank: number, file: number, event?: React.MouseEvent | React.TouchEvent) => {
     // Don't handle clicks if it was a right-click (button 2)
@@ -599,12 +1423,36 @@ export function Chess960Board({
     const square = rankFileToSquare(rank, file);
     
     // Check if this is a premove (not player's turn but premove enabled)
-    const isPremove = enablePremove && currentPlayerColor && 
-      chess.turn() !== (currentPlayerColor === 'white' ? 'w' : 'b');
+    const isPremove = enablePremove && !isPlayerTurn;
     
     if (selectedSquare) {
       // Try to make a move
       if (selectedSquare !== square) {
+        // Free mode: anything goes except clicking another piece of the same color,
+        // which selects it instead
+        if (freeMove) {
+          const targetPiece = boardState[rank]?.[file];
+          const selectedPiece = chess.get(selectedSquare);
+          if (targetPiece && selectedPiece && targetPiece.color === selectedPiece.color && canMoveColor(targetPiece.color)) {
+            setInternalSelectedSquare(square);
+          } else {
+            applyFreeMove(selectedSquare, square);
+            setInternalSelectedSquare(null);
+          }
+          return;
+        }
+        
+        // Premoves are checked against the ghost board rather than the rules
+        if (isPremove) {
+          if (!onMove || !addPremove(selectedSquare, square)) {
+            const newPiece = pieceBoard[rank]?.[file];
+            setInternalSelectedSquare(newPiece && canMoveColor(newPiece.color) ? square : null);
+            return;
+          }
+          setInternalSelectedSquare(null);
+          return;
+        }
+        
         // Check if onMove is available - if not, just allow selection changes
         if (!onMove) {
           // No move handler - just allow selection changes
@@ -619,10 +1467,16 @@ export function Chess960Board({
           return;
         }
         
-        // ALWAYS validate move with chess.js - don't trust effectiveLegalMoves alone
+        // ALWAYS validate move with the rules engine - don't trust effectiveLegalMoves alone
         try {
-          const testChess = new Chess(chess.fen());
-          const move = testChess.move({ from: selectedSquare as any, to: square });
+          const { move, ambiguous } = resolveMove(selectedSquare, square);
+          
+          if (ambiguous) {
+            // King move onto its castling square - let the player choose
+            setCastlingChoice(ambiguous);
+            setInternalSelectedSquare(null);
+            return;
+          }
           
           if (!move) {
             // Invalid move - deselect or select new piece
@@ -637,54 +1491,21 @@ export function Chess960Board({
             return;
           }
           
-          // Move is valid - determine move type for sound
-          const targetPiece = boardState[rank]?.[file];
-          const isCapture = !!move.captured;
-          const sourcePiece = chess.get(selectedSquare as any);
-          const isPawn = sourcePiece?.type === 'p';
-          const targetRank = square[1];
-          const isPromotion = !!move.promotion;
-          
-          // Try to detect castling
-          let isCastle = false;
-          if (sourcePiece?.type === 'k') {
-            const fileDiff = Math.abs(square.charCodeAt(0) - selectedSquare.charCodeAt(0));
-            if (fileDiff === 2) {
-              isCastle = true;
-            }
+          // Promotions go through the picker unless autoQueen applies
+          if (move.promotion && needsPromotionPicker(false)) {
+            setPendingPromotion({ from: move.from, to: move.to, color: move.color, premove: false });
+            setInternalSelectedSquare(null);
+            return;
           }
           
-          const isCheck = testChess.inCheck();
+          // Move is valid - play the matching sound
+          playMoveSound(move);
           
-          // Play appropriate sound
-          if (isCastle) {
-            playSound('castle');
-          } else if (isPromotion) {
-            playSound('promotion');
-          } else if (isCheck) {
-            playSound('check');
-          } else if (isCapture) {
-            playSound('capture');
-          } else {
-            playSound('move');
-          }
+          // Castling is reported king-onto-rook (to = rook square)
+          reportMove(move.from, move.to, move.promotion);
           
-          // Handle premove vs regular move
-          const promotion = isPromotion ? (move.promotion as PieceType) : undefined;
-          
-          if (isPremove) {
-            // Store as premove instead of calling onMove immediately
-            setPremoves(prev => [...prev, { from: selectedSquare, to: square }]);
-            
-            // Clear selection after storing premove
-            setInternalSelectedSquare(null);
-          } else {
-            // Regular move - call onMove immediately
-            onMove(selectedSquare, square, promotion);
-            
-            // Clear selection after move
-            setInternalSelectedSquare(null);
-          }
+          // Clear selection after move
+          setInternalSelectedSquare(null);
         } catch (error) {
           // Invalid move - deselect or select new piece
           const newPiece = boardState[rank]?.[file];
@@ -703,56 +1524,38 @@ export function Chess960Board({
       }
     } else {
       // Select a piece (or start premove)
-      const piece = boardState[rank]?.[file];
+      const piece = pieceBoard[rank]?.[file];
       if (piece) {
-        // Rook castling: if rook is clicked and rookCastle is enabled, try to castle
-        if (rookCastle && piece.type === 'r') {
+        // Rook castling: if rook is clicked and rook-click castling is enabled, try to castle
+        if (castlingMethods.includes('rookClick') && piece.type === 'r' && !freeMove) {
           // Check if it's the player's rook
           const pieceColor = piece.color === 'white' ? 'white' : 'black';
-          // Allow castling for player's piece OR if premove is enabled
-          const canCastle = !currentPlayerColor || pieceColor === currentPlayerColor || isPremove;
+          // Premove the castling when the ghost king could castle with this rook
+          if (isPremove && premoveGhost && canMoveColor(pieceColor) && onMove) {
+            const king = findKing(premoveGhost.board, pieceColor);
+            if (king >= 0 && addPremove(squareName(king), square)) {
+              setInternalSelectedSquare(null);
+              return;
+            }
+          }
+          const canCastle = canMoveColor(pieceColor) && !isPremove;
           if (canCastle) {
             try {
-              // Find the king of the same color
-              const kingRank = pieceColor === 'white' ? 7 : 0; // Rank 7 for white, 0 for black
-              let kingSquare: Square | null = null;
-              
-              for (let f = 0; f < 8; f++) {
-                const testSquare = rankFileToSquare(kingRank, f);
-                const testPiece = chess.get(testSquare as any);
-                if (testPiece && testPiece.type === 'k' && testPiece.color === (pieceColor === 'white' ? 'w' : 'b')) {
-                  kingSquare = testSquare;
-                  break;
-                }
-              }
+              // Castling is legal with this rook if the engine generates a castle whose
+              // rook starts on the clicked square. The engine locates each side's king
+              // itself, so this works from any 960 file, even when the two kings start
+              // on different files (Double Chess960).
+              const castleMove = chess.moves()
+                .find(move => move.color === pieceColor && move.castle?.rookFrom === square);
+              const castleAllowed = castleMove && (!controlledDests ||
+                isControlledDest(castleMove.from, castleMove.to) ||
+                isControlledDest(castleMove.from, castleMove.castle!.kingTo));
               
-              if (kingSquare) {
-                // Check if castling is legal
-                const moves = chess.moves({ square: kingSquare as any, verbose: true });
-                const castlingMove = moves.find((move: any) => 
-                  move.flags?.includes('k') || move.flags?.includes('q')
-                );
-                
-                if (castlingMove) {
-                  // Determine castling direction based on rook position
-                  const rookFile = file;
-                  const kingFile = kingSquare.charCodeAt(0) - 97;
-                  const isKingside = rookFile > kingFile;
-                  
-                  // Find the correct castling move
-                  const castleMove = moves.find((move: any) => {
-                    const isKingSide = move.to.charCodeAt(0) > move.from.charCodeAt(0);
-                    return (isKingside && isKingSide && move.flags?.includes('k')) ||
-                           (!isKingside && !isKingSide && move.flags?.includes('q'));
-                  });
-                  
-                  if (castleMove && onMove) {
-                    playSound('castle');
-                    onMove(kingSquare, castleMove.to);
-                    setInternalSelectedSquare(null);
-                    return;
-                  }
-                }
+              if (castleMove && castleAllowed && onMove) {
+                playSound('castle');
+                reportMove(castleMove.from, castleMove.to);
+                setInternalSelectedSquare(null);
+                return;
               }
             } catch (error) {
               // If castling check fails, fall through to normal selection
@@ -760,13 +1563,10 @@ export function Chess960Board({
           }
         }
         
-        // Normal piece selection (or premove selection)
-        // Allow selection if:
-        // 1. It's the player's piece (normal move)
-        // 2. Premove is enabled and it's not the player's turn (premove)
+        // Normal piece selection (or premove selection) - only the player's
+        // pieces, which while premoving are looked up on the ghost board
         const pieceColor = piece.color === 'white' ? 'white' : 'black';
-        const isPlayerPiece = !currentPlayerColor || pieceColor === currentPlayerColor;
-        const canSelect = isPlayerPiece || isPremove;
+        const canSelect = canMoveColor(pieceColor);
         
         if (canSelect) {
           // Select the piece - this shows destinations even for premoves
@@ -779,7 +1579,7 @@ export function Chess960Board({
         setInternalSelectedSquare(null);
       }
     }
-  }, [readOnly, onMove, selectedSquare, rankFileToSquare, boardState, effectiveLegalMoves, externalSelectedSquare, rookCastle, currentPlayerColor, chess, playSound, isClickEnabled, eraseArrowsOnClick, arrows, onArrowsChange, enablePremove]);
+  }, [readOnly, onMove, reportMove, selectedSquare, rankFileToSquare, boardState, pieceBoard, effectiveLegalMoves, externalSelectedSquare, castlingMethods, canMoveColor, isPlayerTurn, freeMove, controlledDests, isControlledDest, applyFreeMove, needsPromotionPicker, premoveGhost, addPremove, chess, playSound, playMoveSound, resolveMove, isClickEnabled, eraseArrowsOnClick, arrows, onArrowsChange, enablePremove]);
 
   // Get piece image path - supports custom piece sets
   const getPieceImage = useCallback((piece: Piece): string => {
@@ -794,17 +1594,47 @@ export function Chess960Board({
   }, [pieceSet, piecesBaseUrl]);
 
   const squareSize = internalWidth / 8;
-
-  // Determine if it's the player's turn (for premove validation)
-  const isPlayerTurn = useMemo(() => {
-    if (!currentPlayerColor) return true; // Default to allowing moves if not specified
-    try {
-      return chess.turn() === (currentPlayerColor === 'white' ? 'w' : 'b');
-    } catch {
-      return true;
+  
+  // Orientation change: the new layout starts turned half a circle (so it
+  // looks like the old one) and rotates into place, while the pieces turn the
+  // other way to stay upright
+  const [flipPhase, setFlipPhase] = useState<'start' | 'run' | null>(null);
+  const previousOrientationRef = useRef(orientation);
+  const flipDuration = Math.max(animationDuration, 300);
+  
+  // Before paint, so the new layout never shows unrotated
+  useLayoutEffect(() => {
+    if (previousOrientationRef.current === orientation) return;
+    previousOrientationRef.current = orientation;
+    if (animateOrientation && animationDuration > 0) {
+      setFlipPhase('start');
     }
-  }, [chess, currentPlayerColor]);
+  }, [orientation, animateOrientation, animationDuration]);
   
+  useEffect(() => {
+    if (flipPhase === 'start') {
+      let frame = requestAnimationFrame(() => {
+        frame = requestAnimationFrame(() => setFlipPhase('run'));
+      });
+      return () => cancelAnimationFrame(frame);
+    }
+    if (flipPhase === 'run') {
+      const timeout = setTimeout(() => setFlipPhase(null), flipDuration);
+      return () => clearTimeout(timeout);
+    }
+    return undefined;
+  }, [flipPhase, flipDuration]);
+  
+  const flipTransition = flipPhase === 'run' ? `transform ${flipDuration}ms ${animationEasing}` : undefined;
+  const boardFlipTransform = flipPhase ? (flipPhase === 'start' ? 'rotate(180deg)' : 'rotate(0deg)') : undefined;
+  const pieceFlipTransform = flipPhase ? (flipPhase === 'start' ? 'rotate(-180deg)' : 'rotate(0deg)') : undefined;
+  
+  // Ghost piece center is off the board (free mode drops there delete the piece)
+  const ghostOffBoard = freeMove && ghostPiecePosition !== null && (
+    ghostPiecePosition.x + squareSize / 2 < 0 || ghostPiecePosition.x + squareSize / 2 >= internalWidth ||
+    ghostPiecePosition.y + squareSize / 2 < 0 || ghostPiecePosition.y + squareSize / 2 >= internalWidth
+  );
+
   // Track previous turn state to detect when it BECOMES the player's turn
   const prevIsPlayerTurnRef = useRef<boolean>(isPlayerTurn);
   const premovesRef = useRef(premoves);
@@ -832,28 +1662,22 @@ export function Chess960Board({
     // Check if the premove is still valid using current FEN
     try {
       const currentFen = fen || chess.fen();
-      const testChess = new Chess(currentFen);
-      const move = testChess.move({
+      const testChess = rules(currentFen);
+      const input = {
         from: firstPremove.from,
         to: firstPremove.to,
-        promotion: 'q', // Default promotion for pawns (will be handled by onMove if needed)
-      });
+        promotion: firstPremove.promotion ?? 'q', // Picked (or auto-queened) when the premove was made
+      };
+      // With a dests map the parent decides whether the premove is still legal
+      const move = controlledDests
+        ? (isControlledDest(input.from, input.to) ? testChess.findMove(input) ?? uncheckedMove(input.from, input.to, input.promotion) : null)
+        : testChess.findMove(input);
       
       if (move) {
-        // Premove is valid - execute it
-        // Determine if it's a promotion
-        const piece = testChess.get(firstPremove.from as any);
-        const isPawn = piece?.type === 'p';
-        const targetRank = firstPremove.to[1];
-        const isPromotion = isPawn && (
-          (piece?.color === 'w' && targetRank === '8') ||
-          (piece?.color === 'b' && targetRank === '1')
-        );
+        // Premove is valid - execute it via onMove callback
+        reportMove(move.from, move.to, move.promotion);
         
-        // Execute the move via onMove callback
-        onMove(firstPremove.from, firstPremove.to, isPromotion ? 'q' : undefined);
-        
-        // Remove this premove from the list
+        // Remove this premove from the list - the rest of the chain waits for the next turn
         setPremoves(prev => prev.slice(1));
         
         // Clear selection
@@ -861,14 +1685,14 @@ export function Chess960Board({
           setInternalSelectedSquare(null);
         }
       } else {
-        // Premove is no longer valid - remove it
-        setPremoves(prev => prev.slice(1));
+        // Premove is no longer valid - the rest of the chain was built on it
+        cancelPremoves();
       }
     } catch (error) {
-      // Premove is invalid - remove it
-      setPremoves(prev => prev.slice(1));
+      // Premove is invalid - drop the chain
+      cancelPremoves();
     }
-  }, [isPlayerTurn, fen, enablePremove, onMove, readOnly, chess, externalSelectedSquare]);
+  }, [isPlayerTurn, fen, enablePremove, onMove, reportMove, readOnly, chess, rules, controlledDests, isControlledDest, uncheckedMove, cancelPremoves, externalSelectedSquare]);
 
   // Handle mouse/touch down on piece - start drag tracking
   // Clicks are handled by squares, drags are handled here
@@ -886,21 +1710,15 @@ export function Chess960Board({
     }
 
     const square = rankFileToSquare(rank, file);
-    const piece = boardState[rank]?.[file];
+    const piece = pieceBoard[rank]?.[file];
     
     if (!piece) {
       return;
     }
 
-    // Check if it's the player's piece
-    if (currentPlayerColor) {
-      const pieceColor = piece.color === 'white' ? 'white' : 'black';
-      if (pieceColor !== currentPlayerColor) {
-        // Allow dragging opponent's piece only if premove is enabled and not player's turn
-        if (!enablePremove || isPlayerTurn) {
-          return;
-        }
-      }
+    // Only the player's pieces can be dragged (premoves included)
+    if (!canMoveColor(piece.color)) {
+      return;
     }
 
     // Get event position for distance tracking
@@ -944,7 +1762,7 @@ export function Chess960Board({
         hasMovedRef.current = false; // Will be set to true once threshold is crossed
       }
     }
-  }, [readOnly, isDragEnabled, rankFileToSquare, boardState, currentPlayerColor, enablePremove, isPlayerTurn, userPrefersDrag]);
+  }, [readOnly, isDragEnabled, rankFileToSquare, pieceBoard, canMoveColor, userPrefersDrag]);
 
   // Track mouse movement during drag for ghost piece
   // Use requestAnimationFrame to avoid excessive re-renders
@@ -1013,128 +1831,84 @@ export function Chess960Board({
     
     const targetSquare = rankFileToSquare(rank, file);
     
+    // Free mode: place the piece wherever it was dropped, no promotion or rules
+    if (freeMove) {
+      dropHandledRef.current = true;
+      setGhostPiecePosition(null);
+      ghostPieceRef.current = null;
+      handleDragEnd();
+      applyFreeMove(currentDraggedPiece.square, targetSquare);
+      return;
+    }
+    
+    // Premove: queued if the ghost board allows it, checked again when it is due
+    if (enablePremove && !isPlayerTurn) {
+      if (onMove) {
+        addPremove(currentDraggedPiece.square, targetSquare);
+      }
+      handleDragEnd();
+      return;
+    }
+    
     // Check for pawn promotion
-    const targetPiece = boardState[rank]?.[file];
-    const sourcePiece = chess.get(currentDraggedPiece.square as any);
+    const sourcePiece = chess.get(currentDraggedPiece.square);
     if (!sourcePiece) {
       // No piece to move - clear drag state
       handleDragEnd();
       return;
     }
     
-    const isPawn = sourcePiece.type === 'p';
-    const targetRank = targetSquare[1];
-    const isPromotion = isPawn && (
-      (sourcePiece.color === 'w' && targetRank === '8') ||
-      (sourcePiece.color === 'b' && targetRank === '1')
-    );
+    const isPromotion = promotingColor(currentDraggedPiece.square, targetSquare) !== null;
 
-    // ALWAYS validate move using chess.js before allowing it (like click-to-move)
+    // ALWAYS validate move using the rules engine before allowing it (like click-to-move)
     // This is CRITICAL - validate before any optimistic updates
-    let validMove: any = null;
+    // Kings are not pre-filtered by distance: in Chess960 castling the king may travel
+    // several files, or be dropped onto its own rook
+    let validMove: Move | null = null;
     let promotionPiece: PieceType | undefined = isPromotion ? 'q' : undefined;
     
-    // Extra validation: Check if king is trying to move 2 squares (must be castling)
-    if (sourcePiece.type === 'k') {
-      const fileDiff = Math.abs(targetSquare.charCodeAt(0) - currentDraggedPiece.square.charCodeAt(0));
-      if (fileDiff === 2) {
-        // King moving 2 squares - must be castling, chess.js will validate if it's legal
-        // Don't reject here, let chess.js handle it
-      } else if (fileDiff > 2) {
-        // King trying to move more than 2 squares (not 1, not 2) - definitely illegal
-        handleDragEnd();
-        return;
-      } else if (fileDiff === 0) {
-        // King trying to stay in place - illegal
+    try {
+      // Validate the move - the engine returns null if illegal
+      const resolved = resolveMove(currentDraggedPiece.square, targetSquare, promotionPiece);
+      
+      if (resolved.ambiguous && isPlayerTurn) {
+        // King dropped on its castling square - let the player choose
+        setCastlingChoice(resolved.ambiguous);
         handleDragEnd();
         return;
       }
-    }
-    
-    try {
-      // Create a fresh chess instance for validation
-      const testChess = new Chess(chess.fen());
-      
-      // Validate the move - chess.js will throw or return null if illegal
-      validMove = testChess.move({ 
-        from: currentDraggedPiece.square as any, 
-        to: targetSquare,
-        promotion: promotionPiece
-      });
+      validMove = resolved.move;
       
       if (!validMove) {
-        // Move is invalid according to chess.js
-        if (enablePremove && !isPlayerTurn) {
-          // Allow as premove (will be validated later)
-          if (onMove) {
-            setPremoves(prev => [...prev, { from: currentDraggedPiece.square, to: targetSquare }]);
-          }
-          handleDragEnd();
-          return;
-        } else {
-          // Invalid move - reject immediately
-          handleDragEnd();
-          return;
-        }
-      }
-    } catch (error) {
-      // chess.js threw an error - move is definitely illegal
-      if (enablePremove && !isPlayerTurn) {
-        // Allow as premove
-        if (onMove) {
-          setPremoves(prev => [...prev, { from: currentDraggedPiece.square, to: targetSquare }]);
-        }
-        handleDragEnd();
-        return;
-      } else {
-        // Invalid move - reject
+        // Invalid move - reject immediately
         handleDragEnd();
         return;
       }
+    } catch (error) {
+      // The engine threw an error - move is definitely illegal
+      handleDragEnd();
+      return;
     }
 
-    // Move is valid - handle promotion dialog if needed
-    if (isPromotion && onPromotionSelect) {
-      setPendingPromotion({ from: currentDraggedPiece.square, to: targetSquare });
-      setShowPromotionDialog(true);
+    // Move is valid - open the promotion picker if needed
+    if (validMove.promotion && isPlayerTurn && needsPromotionPicker(false)) {
+      setPendingPromotion({ from: validMove.from, to: validMove.to, color: validMove.color, premove: false });
       handleDragEnd();
       return;
     }
 
     // Update promotion piece from the actual move
-    if (validMove && validMove.promotion) {
-      promotionPiece = validMove.promotion as PieceType;
+    if (validMove.promotion) {
+      promotionPiece = validMove.promotion;
     }
 
     // Make the move - only if it's our turn (not a premove)
     if (onMove && isPlayerTurn) {
-      // Determine move type for sound
-      let isCastle = false;
-      if (sourcePiece.type === 'k') {
-        const fileDiff = Math.abs(targetSquare.charCodeAt(0) - currentDraggedPiece.square.charCodeAt(0));
-        if (fileDiff === 2) {
-          isCastle = true;
-        }
-      }
-      
-      const isCapture = !!validMove.captured;
-      const isCheck = validMove.san.includes('+') || validMove.san.includes('#');
-      
-      // Play appropriate sound
-      if (isCastle) {
-        playSound('castle');
-      } else if (isPromotion) {
-        playSound('promotion');
-      } else if (isCheck) {
-        playSound('check');
-      } else if (isCapture) {
-        playSound('capture');
-      } else {
-        playSound('move');
-      }
+      // Play the matching sound for the move type
+      playMoveSound(validMove);
       
       // Optimistically make the move in internal chess instance for immediate visual update
-      // We already validated with testChess, so this should succeed
+      // We already validated with the engine, so this should succeed
       try {
         // Store the FEN BEFORE making the optimistic move - we'll use this to detect reverts
         const fenBeforeMove = chess.fen();
@@ -1142,11 +1916,15 @@ export function Chess960Board({
         preOptimisticFenRef.current = fenBeforeMove;
         
         
-        const optimisticMove = chess.move({ 
-          from: currentDraggedPiece.square as any, 
-          to: targetSquare,
-          promotion: promotionPiece
-        });
+        const optimisticMove = chess.move(validMove);
+        
+        if (!optimisticMove && (freeMove || controlledDests)) {
+          // The parent allowed a move the rules adapter can't play - skip the
+          // optimistic update and let the parent's next FEN show the result
+          handleDragEnd();
+          reportMove(validMove.from, validMove.to, promotionPiece);
+          return;
+        }
         
         if (!optimisticMove) {
           // This shouldn't happen since we validated, but handle it
@@ -1155,6 +1933,21 @@ export function Chess960Board({
           return;
         }
         
+        // The dropped king needs no animation, but the castling rook (and the
+        // king, when dropped onto the rook) still slide to their squares
+        if (optimisticMove.castle && animationDuration > 0) {
+          const plan = moveAnimationPlan(optimisticMove);
+          for (const [key, anim] of plan.moving) {
+            if (anim.piece.type !== 'k') continue;
+            if (anim.to === targetSquare) {
+              plan.moving.delete(key);
+            } else {
+              plan.moving.set(key, { ...anim, from: targetSquare });
+            }
+          }
+          startAnimations(plan);
+        }
+        
         // Get the new FEN from our chess instance
         const newFen = chess.fen();
         const normalizedNewFen = normalizeFen(newFen);
@@ -1196,7 +1989,8 @@ export function Chess960Board({
         // Call parent's onMove callback AFTER everything is set
         // The parent will process the move and send back the new FEN
         // Our optimistic update protection will prevent reverting if parent sends old FEN
-        onMove(currentDraggedPiece.square, targetSquare, promotionPiece);
+        // Castling is reported king-onto-rook (to = rook square)
+        reportMove(validMove.from, validMove.to, promotionPiece);
       } catch (error) {
         // This shouldn't happen since we validated, but handle it
         console.error('[Chess960Board] Optimistic move error after validation:', error);
@@ -1209,7 +2003,7 @@ export function Chess960Board({
       handleDragEnd();
       return;
     }
-  }, [draggedPiece, rankFileToSquare, boardState, chess, enablePremove, isPlayerTurn, onMove, onPromotionSelect, externalSelectedSquare, playSound, handleDragEnd]);
+  }, [draggedPiece, rankFileToSquare, chess, enablePremove, isPlayerTurn, freeMove, controlledDests, applyFreeMove, promotingColor, needsPromotionPicker, addPremove, onMove, reportMove, externalSelectedSquare, playMoveSound, resolveMove, handleDragEnd, animationDuration, startAnimations]);
 
   // Always attach mouse listeners - they check refs internally
   // This ensures drag works even before draggedPiece state is set
@@ -1247,12 +2041,13 @@ export function Chess960Board({
       // Only update ghost piece if we're actually dragging (mouse moved)
       if (hasMovedRef.current && draggedPieceRef.current) {
         const boardRect = boardRef.current.getBoundingClientRect();
-        // Constrain ghost piece to board bounds
-        const x = Math.max(0, Math.min(
+        // Constrain ghost piece to board bounds (free mode follows the pointer
+        // off the board, where dropping deletes the piece)
+        const x = freeMove ? e.clientX - boardRect.left - squareSize / 2 : Math.max(0, Math.min(
           e.clientX - boardRect.left - squareSize / 2,
           boardRect.width - squareSize
         ));
-        const y = Math.max(0, Math.min(
+        const y = freeMove ? e.clientY - boardRect.top - squareSize / 2 : Math.max(0, Math.min(
           e.clientY - boardRect.top - squareSize / 2,
           boardRect.height - squareSize
         ));
@@ -1279,11 +2074,11 @@ export function Chess960Board({
       if (boardRef.current && draggedPieceRef.current && e.touches.length > 0) {
         const boardRect = boardRef.current.getBoundingClientRect();
         const touch = e.touches[0];
-        const x = Math.max(0, Math.min(
+        const x = freeMove ? touch.clientX - boardRect.left - squareSize / 2 : Math.max(0, Math.min(
           touch.clientX - boardRect.left - squareSize / 2,
           boardRect.width - squareSize
         ));
-        const y = Math.max(0, Math.min(
+        const y = freeMove ? touch.clientY - boardRect.top - squareSize / 2 : Math.max(0, Math.min(
           touch.clientY - boardRect.top - squareSize / 2,
           boardRect.height - squareSize
         ));
@@ -1409,6 +2204,10 @@ export function Chess960Board({
           // Mouse released outside board - cancel drag
           handleDragEnd();
         }
+      } else if (freeMove) {
+        // Free mode: dragging a piece off the board deletes it
+        handleDragEnd();
+        applyFreeMove(currentDraggedPiece.square, null);
       } else {
         // Mouse released outside board - cancel drag
         handleDragEnd();
@@ -1458,7 +2257,7 @@ export function Chess960Board({
       // Only clear ghost piece on unmount, not on every cleanup
       // Otherwise it will clear during drag operations
     };
-  }, [squareSize, orientation, rankFileToSquare, chess, boardState, enablePremove, isPlayerTurn, onMove, onPromotionSelect, externalSelectedSquare, handleDragEnd, handleDrop, handleSquareClick]); // Removed draggedPiece from deps - listeners check refs instead
+  }, [squareSize, orientation, rankFileToSquare, chess, boardState, enablePremove, isPlayerTurn, freeMove, applyFreeMove, onMove, onPromotionSelect, externalSelectedSquare, handleDragEnd, handleDrop, handleSquareClick]); // Removed draggedPiece from deps - listeners check refs instead
   
   // Keep ref in sync with state
   useEffect(() => {
@@ -1479,12 +2278,11 @@ export function Chess960Board({
   const arrowValidMoves = useMemo(() => {
     if (!arrowStart || !snapToValidMoves || readOnly) return new Set<Square>();
     try {
-      const moves = chess.moves({ square: arrowStart as any, verbose: true });
-      return new Set(moves.map((move: any) => move.to));
+      return new Set(getDests(arrowStart));
     } catch {
       return new Set<Square>();
     }
-  }, [arrowStart, snapToValidMoves, chess, readOnly]);
+  }, [arrowStart, snapToValidMoves, getDests, readOnly]);
 
   // Handle right click - for square highlighting, arrow start, and destination display
   // Right-click is handled in mousedown, not contextmenu, to prevent move calculation
@@ -1504,7 +2302,7 @@ export function Chess960Board({
     
     // Cancel premoves immediately
     if (premoves.length > 0) {
-      setPremoves([]);
+      cancelPremoves();
     }
     
     // Clear right-click hover
@@ -1523,7 +2321,7 @@ export function Chess960Board({
     }
 
     const square = rankFileToSquare(rank, file);
-    const piece = boardState[rank]?.[file];
+    const piece = pieceBoard[rank]?.[file];
     
     // If right-clicking on a piece, show destinations
     if (piece && showDestinations) {
@@ -1571,7 +2369,7 @@ export function Chess960Board({
         return { ...prev, [square]: { backgroundColor: color } };
       });
     }
-  }, [readOnly, rankFileToSquare, premoves, boardState, onArrowsChange, arrowStart, arrows, snapToValidMoves, dragOverSquare, arrowValidMoves, showDestinations, externalSelectedSquare, draggedPiece, isDrawingArrow, handleDragEnd]);
+  }, [readOnly, rankFileToSquare, premoves, cancelPremoves, pieceBoard, onArrowsChange, arrowStart, arrows, snapToValidMoves, dragOverSquare, arrowValidMoves, showDestinations, externalSelectedSquare, draggedPiece, isDrawingArrow, handleDragEnd]);
   
   // Context menu handler - just prevent default
   const handleContextMenu = useCallback((e: React.MouseEvent) => {
@@ -1668,60 +2466,75 @@ export function Chess960Board({
 
   // Handle touch start
   const handleTouchStart = useCallback((e: React.TouchEvent, rank: number, file: number) => {
-    if (readOnly || !onMove) return;
+    if (readOnly || (!onMove && !freeMove)) return;
     if (shouldIgnoreTouch(e, rank, file)) return;
     
     e.preventDefault();
     handleSquareClick(rank, file, e);
-  }, [readOnly, onMove, shouldIgnoreTouch, handleSquareClick]);
+  }, [readOnly, onMove, freeMove, shouldIgnoreTouch, handleSquareClick]);
 
   // Keyboard move input handler
   const parseKeyboardMove = useCallback((input: string): { from: Square; to: Square } | null => {
     input = input.trim().toLowerCase();
     
-    // UCI format: e2e4
-    if (/^[a-h][1-8][a-h][1-8]$/.test(input)) {
-      return {
-        from: input.substring(0, 2) as Square,
-        to: input.substring(2, 4) as Square,
-      };
+    // Free mode takes UCI literally (e1h1 puts the king on h1)
+    if (freeMove && /^[a-h][1-8][a-h][1-8]$/.test(input)) {
+      return { from: input.substring(0, 2), to: input.substring(2, 4) };
     }
     
-    // SAN format: Nf3, e4, O-O, etc. (simplified)
+    // UCI (e2e4, e1h1 for castling) or SAN (Nf3, e4, O-O) resolved by the rules engine,
+    // so castling finds the actual king and rook files of the Chess960 position
     try {
-      // Castling
-      if (input === 'o-o' || input === '0-0') {
-        const turn = chess.turn();
-        const rank = turn === 'w' ? 7 : 0;
-        const kingSquare = rankFileToSquare(rank, 4); // e-file
-        const rookSquare = rankFileToSquare(rank, 7); // h-file
-        return { from: kingSquare, to: rookSquare };
-      }
-      if (input === 'o-o-o' || input === '0-0-0') {
-        const turn = chess.turn();
-        const rank = turn === 'w' ? 7 : 0;
-        const kingSquare = rankFileToSquare(rank, 4); // e-file
-        const rookSquare = rankFileToSquare(rank, 0); // a-file
-        return { from: kingSquare, to: rookSquare };
+      const move = findTypedMove(chess.moves(), input);
+      if (move && controlledDests) {
+        // The dests map has the final say (castling may be listed by either square)
+        const allowed = isControlledDest(move.from, move.to) ||
+          (move.castle !== undefined && isControlledDest(move.from, move.castle.kingTo));
+        return allowed ? { from: move.from, to: move.to } : null;
       }
-      
-      // Try to parse as SAN using chess.js
-      const moves = chess.moves({ verbose: true });
-      const move = moves.find((m: any) => m.san.toLowerCase() === input);
       if (move) {
-        return { from: move.from as Square, to: move.to as Square };
+        return { from: move.from, to: move.to };
       }
     } catch (error) {
       // Failed to parse
     }
     
+    // Unresolved UCI input is passed through as-is (e.g. for premoves),
+    // unless a dests map controls legality and does not list it
+    if (/^[a-h][1-8][a-h][1-8]$/.test(input) && (!controlledDests || isControlledDest(input.substring(0, 2), input.substring(2, 4)))) {
+      return {
+        from: input.substring(0, 2) as Square,
+        to: input.substring(2, 4) as Square,
+      };
+    }
+    
     return null;
-  }, [chess, rankFileToSquare]);
+  }, [chess, freeMove, controlledDests, isControlledDest]);
 
   // Keyboard event handler
   useEffect(() => {
     if (!enableKeyboard || readOnly) return;
     
+    // Play a typed move - promotions open the picker unless autoQueen applies
+    const submitKeyboardMove = (move: { from: Square; to: Square }) => {
+      if (freeMove) {
+        applyFreeMove(move.from, move.to);
+      } else if (onMove && enablePremove && !isPlayerTurn) {
+        if (!addPremove(move.from, move.to)) return;
+      } else if (onMove) {
+        const color = promotingColor(move.from, move.to);
+        if (color && needsPromotionPicker(false)) {
+          setPendingPromotion({ from: move.from, to: move.to, color, premove: false });
+        } else {
+          reportMove(move.from, move.to, color ? 'q' : undefined);
+        }
+      } else {
+        return;
+      }
+      keyboardInputRef.current = '';
+      setKeyboardInput('');
+    };
+    
     const handleKeyDown = (e: KeyboardEvent) => {
       // Don't capture input if typing in an input field
       const target = e.target as HTMLElement;
@@ -1747,10 +2560,8 @@ export function Chess960Board({
       
       if (e.key === 'Enter') {
         const move = parseKeyboardMove(keyboardInputRef.current);
-        if (move && onMove) {
-          onMove(move.from, move.to);
-          keyboardInputRef.current = '';
-          setKeyboardInput('');
+        if (move) {
+          submitKeyboardMove(move);
         }
         return;
       }
@@ -1763,10 +2574,8 @@ export function Chess960Board({
         // Auto-submit if input matches UCI format
         if (keyboardInputRef.current.length === 4 && /^[a-h][1-8][a-h][1-8]$/.test(keyboardInputRef.current)) {
           const move = parseKeyboardMove(keyboardInputRef.current);
-          if (move && onMove) {
-            onMove(move.from, move.to);
-            keyboardInputRef.current = '';
-            setKeyboardInput('');
+          if (move) {
+            submitKeyboardMove(move);
           }
         }
         
@@ -1779,12 +2588,34 @@ export function Chess960Board({
     
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [enableKeyboard, readOnly, onMove, parseKeyboardMove, onKeyboardInput, externalSelectedSquare]);
+  }, [enableKeyboard, readOnly, onMove, reportMove, freeMove, applyFreeMove, enablePremove, isPlayerTurn, addPremove, promotingColor, needsPromotionPicker, parseKeyboardMove, onKeyboardInput, externalSelectedSquare]);
+  
+  // Promotion picker shortcuts: q/r/b/n pick a piece, Escape cancels.
+  // Registered in the capture phase so keyboard move input doesn't see the keys.
+  useEffect(() => {
+    if (!pendingPromotion) return;
+    
+    const handlePromotionKey = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (key === 'q' || key === 'r' || key === 'b' || key === 'n') {
+        e.preventDefault();
+        e.stopImmediatePropagation();
+        handlePromotionChoice(key);
+      } else if (e.key === 'Escape') {
+        e.stopImmediatePropagation();
+        handlePromotionChoice(null);
+      }
+    };
+    
+    window.addEventListener('keydown', handlePromotionKey, true);
+    return () => window.removeEventListener('keydown', handlePromotionKey, true);
+  }, [pendingPromotion, handlePromotionChoice]);
 
   // Clear arrow drawing on escape
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
+        setCastlingChoice(null);
         setArrowStart(null);
         setIsDrawingArrow(false);
         setRightClickedSquares({});
@@ -1851,6 +2682,24 @@ export function Chess960Board({
     }
   }, [isResizing, handleResizeMouseMove, handleResizeMouseUp]);
 
+  const glyphsBySquare = useMemo(
+    () => new Map((glyphs ?? []).map(glyph => [glyph.square, glyph])),
+    [glyphs]
+  );
+
+  const engineArrows = useMemo(
+    () => (engineLines ? engineArrowPlan(engineLines, engineArrowCount ?? engineLines.length, pvPreview) : []),
+    [engineLines, engineArrowCount, pvPreview]
+  );
+
+  // Center of a square in display coordinates
+  const getSquareCenter = useCallback((square: Square): { x: number; y: number } => {
+    const { rank, file } = squareToRankFile(square);
+    const displayRank = orientation === 'white' ? rank : 7 - rank;
+    const displayFile = orientation === 'white' ? file : 7 - file;
+    return { x: displayFile * squareSize + squareSize / 2, y: displayRank * squareSize + squareSize / 2 };
+  }, [orientation, squareSize, squareToRankFile]);
+
   // Helper to draw arrow SVG between two squares
   const getArrowPath = useCallback((start: Square, end: Square): string | null => {
     const startCoords = squareToRankFile(start);
@@ -1895,6 +2744,8 @@ export function Chess960Board({
         width: `${internalWidth}px`, 
         height: `${internalWidth}px`,
         position: 'relative',
+        transform: boardFlipTransform,
+        transition: flipTransition,
       }}
       onContextMenu={(e) => {
         // Prevent context menu on the entire board
@@ -1926,13 +2777,18 @@ export function Chess960Board({
               : 7 - displayFile;
             
             const squareColor = getSquareColor(actualRank, actualFile);
-            const piece = boardState[actualRank]?.[actualFile];
+            const piece = pieceBoard[actualRank]?.[actualFile];
             const square = rankFileToSquare(actualRank, actualFile);
             const isSelected = selectedSquare === square;
+            const isPremoveSquare = premoveSquares.has(square);
+            // Pieces standing where only a premove has put them are drawn faded
+            const realPiece = boardState[actualRank]?.[actualFile];
+            const isPremoveGhost = !!piece && (realPiece?.type !== piece.type || realPiece?.color !== piece.color);
             const isRightClickHover = rightClickHoverSquare === square;
             const isLastMoveFrom = lastMove && lastMove[0] === square;
             const isLastMoveTo = lastMove && lastMove[1] === square;
             const isLegalMove = effectiveLegalMoves.includes(square);
+            const castleTarget = castleTargets.get(square);
             const isInCheckSquare = checkSquare === square;
             const isDragOver = dragOverSquare === square;
             const isRightClicked = rightClickedSquares[square];
@@ -1944,6 +2800,8 @@ export function Chess960Board({
               squareBgColor = isRightClicked.backgroundColor;
             } else if (isDragOver) {
               squareBgColor = 'rgba(255, 255, 0, 0.6)'; // Bright yellow for drag over
+            } else if (isPremoveSquare) {
+              squareBgColor = 'rgba(20, 85, 160, 0.45)'; // Blue for queued premoves
             } else if (isLastMoveFrom || isLastMoveTo) {
               squareBgColor = 'rgba(255, 255, 0, 0.4)'; // Yellow for last move
             } else if (isSelected || isRightClickHover) {
@@ -2037,19 +2895,26 @@ export function Chess960Board({
                     setDragOverSquare(square);
                   }
                   handleMouseEnter(actualRank, actualFile);
+                  // Preview the castling move when hovering one of its targets
+                  if (castleTarget && showCastlePreview) {
+                    setCastlePreview(castleTarget);
+                  }
                   if (isDrawingArrow) {
                     handleMouseMove(e, actualRank, actualFile);
                   }
                   // Show destinations on right-click drag/hover
                   if (e.buttons === 2 && !readOnly && showDestinations) {
                     const square = rankFileToSquare(actualRank, actualFile);
-                    const piece = boardState[actualRank]?.[actualFile];
+                    const piece = pieceBoard[actualRank]?.[actualFile];
                     if (piece) {
                       setRightClickHoverSquare(square);
                     }
                   }
                 }}
                 onMouseLeave={(e) => {
+                  if (castleTarget) {
+                    setCastlePreview(null);
+                  }
                   // Clear right-click hover when mouse leaves (but only if not right-dragging)
                   if (e.buttons !== 2) {
                     setRightClickHoverSquare(null);
@@ -2066,8 +2931,34 @@ export function Chess960Board({
                   }
                 }}
               >
+                {/* Castling target indicator - king's final square (dot) or rook (ring), in orange */}
+                {showDestinations && castleTarget && (
+                  piece ? (
+                    <div 
+                      className="absolute inset-0 pointer-events-none"
+                      style={{
+                        border: '3px solid rgba(249, 115, 22, 0.8)',
+                        borderRadius: '50%',
+                        boxShadow: 'inset 0 0 6px rgba(249, 115, 22, 0.4)',
+                      }}
+                    />
+                  ) : (
+                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                      <div 
+                        className="rounded-full"
+                        style={{
+                          width: squareSize * 0.3,
+                          height: squareSize * 0.3,
+                          backgroundColor: 'rgba(249, 115, 22, 0.6)',
+                          boxShadow: '0 0 3px rgba(249, 115, 22, 0.8)',
+                        }}
+                      />
+                    </div>
+                  )
+                )}
+                
                 {/* Legal move indicator (dot for empty squares) - subtle */}
-                {showDestinations && isLegalMove && !piece && !isSelected && (
+                {showDestinations && isLegalMove && !castleTarget && !piece && !isSelected && (
                   <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                     <div 
                       className="rounded-full transition-opacity duration-150"
@@ -2082,7 +2973,7 @@ export function Chess960Board({
                 )}
                 
                 {/* Capture indicator (ring around piece for captures) - subtle */}
-                {showDestinations && isLegalMove && piece && (
+                {showDestinations && isLegalMove && !castleTarget && piece && (
                   <div 
                     className="absolute inset-0 pointer-events-none"
                     style={{
@@ -2096,7 +2987,7 @@ export function Chess960Board({
                 {/* Piece - hide if it's being animated from another square or in blindfold mode */}
                 {piece && !blindfold && (() => {
                   const pieceKey = `${square}-${piece.color}-${piece.type}`;
-                  const isAnimating = animatingPieces.has(pieceKey);
+                  const isAnimating = animatingPieces.has(pieceKey) || appearingPieces.has(pieceKey);
                   const isBeingDragged = draggedPiece?.square === square;
                   
                   // Don't show piece if it's currently animating from another square
@@ -2182,6 +3073,8 @@ export function Chess960Board({
                         pointerEvents: readOnly ? 'none' : 'auto',
                         userSelect: 'none',
                         WebkitUserSelect: 'none',
+                        transform: pieceFlipTransform,
+                        transition: flipTransition,
                       }}
                     >
                       <img
@@ -2190,6 +3083,7 @@ export function Chess960Board({
                         className="w-full h-full object-contain pointer-events-none select-none transition-all duration-150"
                         style={{
                           transform: isSelected ? 'scale(1.05)' : 'scale(1)',
+                          opacity: isPremoveGhost ? 0.6 : 1,
                           zIndex: isSelected ? 10 : 1,
                           userSelect: 'none',
                           WebkitUserSelect: 'none',
@@ -2202,6 +3096,73 @@ export function Chess960Board({
                   );
                 })()}
 
+                {/* Castling rights badge on rooks that can still castle */}
+                {showCastlingRights && piece?.type === 'r' && castlingRookSquares.has(square) && !blindfold && (
+                  <div
+                    className="absolute pointer-events-none rounded-full"
+                    title="Can castle"
+                    style={{
+                      top: squareSize * 0.06,
+                      right: squareSize * 0.06,
+                      width: squareSize * 0.16,
+                      height: squareSize * 0.16,
+                      backgroundColor: 'rgba(249, 115, 22, 0.9)',
+                      border: '1px solid white',
+                      zIndex: 2,
+                    }}
+                  />
+                )}
+                
+                {/* Game end badges: the winner's king, the loser's king, or both kings in a draw */}
+                {showGameEndOverlay && gameEnd && piece?.type === 'k' && !blindfold && (() => {
+                  const outcome = gameEnd.winner === null ? 'draw' : gameEnd.winner === piece.color ? 'win' : 'loss';
+                  return (
+                    <div
+                      className="absolute pointer-events-none rounded-full flex items-center justify-center font-bold select-none"
+                      title={outcome === 'win' ? 'Winner' : outcome === 'loss' ? 'Loser' : 'Draw'}
+                      style={{
+                        top: squareSize * 0.04,
+                        right: squareSize * 0.04,
+                        width: squareSize * 0.3,
+                        height: squareSize * 0.3,
+                        fontSize: `${Math.max(9, squareSize * 0.18)}px`,
+                        color: 'white',
+                        backgroundColor: outcome === 'win' ? 'rgba(98, 153, 36, 0.95)' : outcome === 'loss' ? 'rgba(220, 38, 38, 0.95)' : 'rgba(128, 128, 128, 0.95)',
+                        border: '1px solid white',
+                        boxShadow: '0 1px 4px rgba(0, 0, 0, 0.4)',
+                        zIndex: 3,
+                      }}
+                    >
+                      {outcome === 'win' ? '1' : outcome === 'loss' ? '0' : '½'}
+                    </div>
+                  );
+                })()}
+                
+                {/* Glyph badge, e.g. a review's assessment of the move that landed here */}
+                {glyphsBySquare.has(square) && (() => {
+                  const glyph = glyphsBySquare.get(square)!;
+                  return (
+                    <div
+                      className="absolute pointer-events-none rounded-full flex items-center justify-center font-bold select-none"
+                      style={{
+                        top: -squareSize * 0.08,
+                        right: -squareSize * 0.08,
+                        minWidth: squareSize * 0.34,
+                        height: squareSize * 0.34,
+                        padding: `0 ${squareSize * 0.04}px`,
+                        fontSize: `${Math.max(9, squareSize * 0.18)}px`,
+                        color: 'white',
+                        backgroundColor: glyph.color ?? 'rgba(128, 128, 128, 0.95)',
+                        border: '1px solid white',
+                        boxShadow: '0 1px 4px rgba(0, 0, 0, 0.4)',
+                        zIndex: 4,
+                      }}
+                    >
+                      {glyph.glyph}
+                    </div>
+                  );
+                })()}
+
                 {/* Coordinates */}
                 {showCoordinates && (
                   <>
@@ -2258,6 +3219,79 @@ export function Chess960Board({
           </svg>
         )}
         
+        {/* Engine arrows - best moves per line, then the previewed PV as numbered ghosts */}
+        {engineArrows.length > 0 && (
+          <svg
+            className="absolute inset-0 pointer-events-none"
+            style={{ width, height: width, zIndex: 5 }}
+          >
+            {engineArrows.map((arrow, idx) => {
+              const path = getArrowPath(arrow.from, arrow.to);
+              if (!path) return null;
+              const start = getSquareCenter(arrow.from);
+              const end = getSquareCenter(arrow.to);
+              return (
+                <g key={idx} opacity={arrow.opacity}>
+                  <path
+                    d={path}
+                    stroke={engineArrowColor}
+                    strokeWidth={squareSize * arrow.width}
+                    strokeDasharray={arrow.ghost ? `${squareSize * 0.12} ${squareSize * 0.1}` : undefined}
+                    fill="none"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                  {arrow.label !== undefined && (
+                    <>
+                      <circle
+                        cx={(start.x + end.x) / 2}
+                        cy={(start.y + end.y) / 2}
+                        r={squareSize * 0.14}
+                        fill={engineArrowColor}
+                      />
+                      <text
+                        x={(start.x + end.x) / 2}
+                        y={(start.y + end.y) / 2}
+                        textAnchor="middle"
+                        dominantBaseline="central"
+                        fill="white"
+                        fontSize={squareSize * 0.18}
+                        fontWeight={700}
+                      >
+                        {arrow.label}
+                      </text>
+                    </>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+        )}
+
+        {/* Premove arrows - one per queued premove, in chain order */}
+        {premoves.length > 0 && (
+          <svg
+            className="absolute inset-0 pointer-events-none"
+            style={{ width, height: width, zIndex: 5 }}
+          >
+            {premoves.map((premove, idx) => {
+              const path = getArrowPath(premove.from, premove.to);
+              if (!path) return null;
+              return (
+                <path
+                  key={idx}
+                  d={path}
+                  stroke="rgba(20, 85, 160, 0.6)"
+                  strokeWidth={squareSize * 0.08}
+                  fill="none"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              );
+            })}
+          </svg>
+        )}
+        
         {/* Temporary arrow being drawn */}
         {arrowStart && dragOverSquare && arrowStart !== dragOverSquare && (
           <svg
@@ -2305,6 +3339,36 @@ export function Chess960Board({
               squareSize={squareSize}
               animationDuration={animationDuration}
               getPieceImage={getPieceImage}
+              morphTo={anim.promotion}
+              easing={animationEasing}
+            />
+          );
+        })}
+        
+        {/* Castle preview - king and rook slide to their castled squares while a target is hovered */}
+        {castlePreview?.castle && !blindfold && [
+          { from: castlePreview.from, to: castlePreview.castle.kingTo, piece: { type: 'k', color: castlePreview.color } as Piece },
+          { from: castlePreview.castle.rookFrom, to: castlePreview.castle.rookTo, piece: { type: 'r', color: castlePreview.color } as Piece },
+        ].map(({ from, to, piece }) => {
+          const fromCoords = squareToRankFile(from);
+          const toCoords = squareToRankFile(to);
+          const fromX = (orientation === 'white' ? fromCoords.file : 7 - fromCoords.file) * squareSize;
+          const fromY = (orientation === 'white' ? fromCoords.rank : 7 - fromCoords.rank) * squareSize;
+          const toX = (orientation === 'white' ? toCoords.file : 7 - toCoords.file) * squareSize;
+          const toY = (orientation === 'white' ? toCoords.rank : 7 - toCoords.rank) * squareSize;
+          
+          return (
+            <AnimatedPiece
+              key={`castle-preview-${castlePreview.to}-${piece.type}`}
+              fromX={fromX}
+              fromY={fromY}
+              dx={toX - fromX}
+              dy={toY - fromY}
+              piece={piece}
+              squareSize={squareSize}
+              animationDuration={Math.max(animationDuration, 250)}
+              getPieceImage={getPieceImage}
+              ghost
             />
           );
         })}
@@ -2316,26 +3380,35 @@ export function Chess960Board({
           const displayFile = orientation === 'white' ? coords.file : 7 - coords.file;
           
           return (
-            <div
+            <FadingPiece
               key={square}
-              className="absolute pointer-events-none"
-              style={{
-                left: `${displayFile * squareSize}px`,
-                top: `${displayRank * squareSize}px`,
-                width: squareSize,
-                height: squareSize,
-                opacity: 0,
-                transition: `opacity ${animationDuration}ms ease-out`,
-                zIndex: 50,
-              }}
-            >
-              <img
-                src={getPieceImage(piece)}
-                alt={`${piece.color} ${piece.type}`}
-                className="w-full h-full object-contain object-center select-none"
-                draggable={false}
-              />
-            </div>
+              x={displayFile * squareSize}
+              y={displayRank * squareSize}
+              piece={piece}
+              squareSize={squareSize}
+              animationDuration={animationDuration}
+              getPieceImage={getPieceImage}
+            />
+          );
+        })}
+        
+        {/* Pieces coming back on a jump (fade in) */}
+        {Array.from(appearingPieces.entries()).map(([key, { square, piece }]) => {
+          const coords = squareToRankFile(square);
+          const displayRank = orientation === 'white' ? coords.rank : 7 - coords.rank;
+          const displayFile = orientation === 'white' ? coords.file : 7 - coords.file;
+          
+          return (
+            <FadingPiece
+              key={key}
+              x={displayFile * squareSize}
+              y={displayRank * squareSize}
+              piece={piece}
+              squareSize={squareSize}
+              animationDuration={animationDuration}
+              getPieceImage={getPieceImage}
+              fadeIn
+            />
           );
         })}
         
@@ -2349,7 +3422,8 @@ export function Chess960Board({
               width: `${squareSize}px`,
               height: `${squareSize}px`,
               zIndex: 1000,
-              opacity: 0.85,
+              // Fade out when a free mode drop would delete the piece
+              opacity: ghostOffBoard ? 0.35 : 0.85,
               transform: 'scale(1.05)',
               filter: 'drop-shadow(0 4px 12px rgba(0, 0, 0, 0.4))',
               transition: 'none', // No transition during drag for smooth following
@@ -2369,6 +3443,136 @@ export function Chess960Board({
           </div>
         )}
         
+        {/* Game end overlay - the result over the board, clicks pass through */}
+        {showGameEndOverlay && gameEnd && (
+          <div
+            className="absolute inset-0 flex items-center justify-center pointer-events-none"
+            style={{ zIndex: 1000, background: 'rgba(0, 0, 0, 0.25)' }}
+          >
+            <div
+              className="rounded shadow-lg text-center select-none"
+              style={{
+                padding: `${squareSize * 0.2}px ${squareSize * 0.4}px`,
+                background: 'rgba(42, 41, 38, 0.92)',
+                border: '1px solid #474239',
+                color: 'white',
+              }}
+            >
+              <div style={{ fontSize: `${Math.max(16, squareSize * 0.45)}px`, fontWeight: 700 }}>
+                {gameEnd.result === '1/2-1/2' ? '½-½' : gameEnd.result}
+              </div>
+              <div style={{ fontSize: `${Math.max(11, squareSize * 0.2)}px`, color: '#c1b9ad' }}>
+                {gameEndText(gameEnd)}
+              </div>
+            </div>
+          </div>
+        )}
+        
+        {/* Castling chooser - a king move that is also a castling move */}
+        {castlingChoice && castlingChoice.castle.castle && (() => {
+          const coords = squareToRankFile(castlingChoice.castle.castle.kingTo);
+          const displayRank = orientation === 'white' ? coords.rank : 7 - coords.rank;
+          const displayFile = orientation === 'white' ? coords.file : 7 - coords.file;
+          
+          return (
+            <div
+              className="absolute inset-0"
+              style={{ zIndex: 1100 }}
+              onClick={() => handleCastlingChoice(null)}
+              onContextMenu={(e) => {
+                e.preventDefault();
+                handleCastlingChoice(null);
+              }}
+            >
+              <div
+                className="absolute flex flex-col overflow-hidden rounded shadow-lg"
+                style={{
+                  left: `${displayFile * squareSize}px`,
+                  top: `${displayRank * squareSize}px`,
+                  width: `${squareSize}px`,
+                  height: `${squareSize}px`,
+                }}
+              >
+                {[castlingChoice.move, castlingChoice.castle].map(option => (
+                  <button
+                    key={option.san}
+                    type="button"
+                    className="flex-1 font-bold select-none"
+                    title={option.castle ? 'Castle' : 'Move the king'}
+                    style={{
+                      fontSize: `${Math.max(10, squareSize * 0.2)}px`,
+                      background: option.castle ? 'rgba(249, 115, 22, 0.95)' : 'rgba(42, 41, 38, 0.95)',
+                      color: 'white',
+                      border: 'none',
+                      cursor: 'pointer',
+                    }}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleCastlingChoice(option);
+                    }}
+                  >
+                    {option.san}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })()}
+        
+        {/* Promotion picker - a column over the promotion file, growing from the
+            promotion square towards the center of the board; click outside to cancel */}
+        {pendingPromotion && (() => {
+          const coords = squareToRankFile(pendingPromotion.to);
+          const displayRank = orientation === 'white' ? coords.rank : 7 - coords.rank;
+          const displayFile = orientation === 'white' ? coords.file : 7 - coords.file;
+          const direction = displayRank === 0 ? 1 : -1;
+          
+          return (
+            <div
+              className="absolute inset-0"
+              style={{ zIndex: 1100, background: 'rgba(0, 0, 0, 0.35)' }}
+              onClick={() => handlePromotionChoice(null)}
+              onContextMenu={(e) => {
+                e.preventDefault();
+                handlePromotionChoice(null);
+              }}
+            >
+              {PROMOTION_CHOICES.map((type, index) => (
+                <button
+                  key={type}
+                  type="button"
+                  title={`Promote to ${PIECE_NAMES[type]} (${type.toUpperCase()})`}
+                  className="absolute select-none"
+                  style={{
+                    left: `${displayFile * squareSize}px`,
+                    top: `${(displayRank + direction * index) * squareSize}px`,
+                    width: `${squareSize}px`,
+                    height: `${squareSize}px`,
+                    padding: 0,
+                    borderRadius: '50%',
+                    background: 'radial-gradient(#ffffff 20%, #b0b0b0 100%)',
+                    border: 'none',
+                    boxShadow: '0 2px 8px rgba(0, 0, 0, 0.4)',
+                    cursor: 'pointer',
+                  }}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handlePromotionChoice(type);
+                  }}
+                >
+                  <img
+                    src={getPieceImage({ type, color: pendingPromotion.color })}
+                    alt={type}
+                    className="w-full h-full object-contain object-center select-none"
+                    draggable={false}
+                    style={{ pointerEvents: 'none' }}
+                  />
+                </button>
+              ))}
+            </div>
+          );
+        })()}
+        
         {/* Resize handle */}
         {enableResize && (
           <div
@@ -0,0 +1,148 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Chess960BoardEditor } from './Chess960BoardEditor';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+let container: HTMLDivElement;
+let root: Root;
+
+beforeEach(() => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+function button(label: string): HTMLButtonElement {
+  const buttons = Array.from(container.querySelectorAll('button'));
+  const found = buttons.find(element => element.textContent?.trim() === label || element.title === label)
+    ?? buttons.find(element => element.textContent?.trim().startsWith(`${label} ×`));
+  if (!found) throw new Error(`No button ${label}`);
+  return found;
+}
+
+function press(label: string) {
+  act(() => {
+    button(label).dispatchEvent(new MouseEvent('click', { bubbles: true }));
+  });
+}
+
+// React tracks input values itself, so go through the native setter
+function type(input: HTMLInputElement, value: string) {
+  const setter = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')?.set;
+  act(() => {
+    setter?.call(input, value);
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+  });
+}
+
+function submitFen(fen: string) {
+  const input = container.querySelector<HTMLInputElement>('input[type="text"]');
+  if (!input) throw new Error('No FEN field');
+  type(input, fen);
+  act(() => {
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+  });
+}
+
+function renderEditor() {
+  const onChange = vi.fn();
+  act(() => root.render(<Chess960BoardEditor onChange={onChange} />));
+  return onChange;
+}
+
+describe('position cleanup', () => {
+  it('drops castling rights whose king or rook has left', () => {
+    const onChange = renderEditor();
+    submitFen('4k2r/8/8/8/8/8/4K3/R6R w KQkq - 0 1');
+    expect(onChange).toHaveBeenLastCalledWith('4k2r/8/8/8/8/8/4K3/R6R w k - 0 1', []);
+  });
+
+  it('drops an impossible en passant square and keeps a possible one', () => {
+    const onChange = renderEditor();
+    submitFen('4k3/8/8/3pP3/8/8/8/4K3 w - e6 0 2');
+    expect(onChange).toHaveBeenLastCalledWith('4k3/8/8/3pP3/8/8/8/4K3 w - - 0 2', []);
+    submitFen('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 2');
+    expect(onChange).toHaveBeenLastCalledWith('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 2', []);
+  });
+
+  it('reports what is wrong with the position', () => {
+    const onChange = renderEditor();
+    submitFen('4k3/8/8/8/8/8/8/8 w - - 0 1');
+    expect(onChange).toHaveBeenLastCalledWith('4k3/8/8/8/8/8/8/8 w - - 0 1', ['White must have exactly one king']);
+    expect(container.textContent).toContain('White must have exactly one king');
+  });
+
+  it('shows the error for an unreadable FEN', () => {
+    const onChange = renderEditor();
+    submitFen('not a fen');
+    expect(onChange).not.toHaveBeenCalled();
+    expect(container.textContent).toContain('Invalid FEN');
+  });
+});
+
+describe('setup builder', () => {
+  // The selection stays on a piece until all of its copies are placed
+  function place(piece: string, files: string) {
+    press(piece);
+    for (const file of files) {
+      press(`${file}-file`);
+    }
+  }
+
+  it('starts from the position being edited', () => {
+    renderEditor();
+    expect(container.textContent).toContain('Position 518');
+  });
+
+  it('names the setup once all eight pieces are placed', () => {
+    renderEditor();
+    press('Clear');
+    expect(container.textContent).toContain('0 of 8 pieces placed');
+    place('R', 'ah');
+    place('N', 'bg');
+    place('B', 'cf');
+    place('Q', 'd');
+    expect(container.textContent).toContain('7 of 8 pieces placed');
+    expect(button('Set up board').disabled).toBe(true);
+    place('K', 'e');
+    expect(container.textContent).toContain('Position 518');
+    expect(button('Set up board').disabled).toBe(false);
+  });
+
+  it('explains why a back rank is not a Chess960 setup', () => {
+    renderEditor();
+    press('Clear');
+    place('B', 'ac');
+    place('R', 'bd');
+    place('K', 'e');
+    place('Q', 'f');
+    place('N', 'gh');
+    expect(container.textContent).toContain('Bishops must stand on opposite colors');
+
+    // Taking the c-file bishop back and moving it to h needs the knight out of the way
+    press('c-file');
+    press('h-file');
+    place('N', 'c');
+    place('B', 'h');
+    expect(container.textContent).toContain('The king must stand between the rooks');
+  });
+
+  it('sets up the board from a position number', () => {
+    const onChange = renderEditor();
+    const number = container.querySelector<HTMLInputElement>('input[type="number"]');
+    if (!number) throw new Error('No position number field');
+    type(number, '0');
+    expect(container.textContent).toContain('Position 0');
+    press('Set up board');
+    expect(onChange).toHaveBeenLastCalledWith('bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w KQkq - 0 1', []);
+  });
+});
@@ -0,0 +1,623 @@
+/**
+ * Chess960BoardEditor - Position editor built on Chess960Board's free mode
+ *
+ * Features:
+ * - Drag pieces around the board, drag them off the board to delete
+ * - Spare-piece trays for both colors (drag onto the board or click to place)
+ * - Trash tool and drop target
+ * - Side to move, castling rights and en passant controls
+ * - Live FEN output (X-FEN or Shredder-FEN) with validation
+ * - Back-rank builder that shows the Scharnagl number of the setup
+ *
+ * @packageDocumentation
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Chess960Board } from './Chess960Board';
+import {
+  STANDARD_FEN,
+  enPassantSquares,
+  findKing,
+  backRankIndex,
+  makeFen,
+  parseFen,
+  squareIndex,
+  squareName,
+  validatePosition,
+} from './rules';
+import type { Position } from './rules';
+import {
+  backRankToFEN,
+  backRankToPosition,
+  generateRandomPosition,
+  getPositionName,
+  identifyStartingPosition,
+  isValidBackRank,
+  isValidPositionNumber,
+  positionToBackRank,
+} from './chess960';
+import type { BackRankPiece } from './chess960';
+import type { Chess960BoardEditorProps, Color, Piece, PieceType, Square } from './types';
+
+const EMPTY_FEN = '8/8/8/8/8/8/8/8 w - - 0 1';
+
+const SPARE_PIECES: PieceType[] = ['k', 'q', 'r', 'b', 'n', 'p'];
+
+const BACK_RANK_SET: BackRankPiece[] = ['B', 'B', 'Q', 'N', 'N', 'R', 'K', 'R'];
+
+const BUTTON_STYLE: React.CSSProperties = {
+  padding: '4px 10px',
+  background: '#3a3632',
+  border: '1px solid #474239',
+  borderRadius: '4px',
+  color: 'white',
+  cursor: 'pointer',
+  fontSize: '13px',
+};
+
+const LABEL_STYLE: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  color: '#c1b9ad',
+  fontSize: '13px',
+};
+
+const ACCENT = 'rgba(249, 115, 22, 0.9)';
+
+type EditorTool = Piece | 'trash' | null;
+
+// Drop castling rights and en passant squares that the placement no longer supports
+function sanitize(position: Position): Position {
+  const castlingRights: Record<Color, Square[]> = { white: [], black: [] };
+  for (const color of ['white', 'black'] as Color[]) {
+    const king = findKing(position.board, color);
+    if (king < 0 || king >> 3 !== backRankIndex(color)) continue;
+    castlingRights[color] = position.castlingRights[color].filter(square => {
+      const piece = position.board[squareIndex(square)];
+      return piece?.type === 'r' && piece.color === color;
+    });
+  }
+  const epSquare = position.epSquare && enPassantSquares(position).includes(position.epSquare)
+    ? position.epSquare
+    : null;
+  return { ...position, castlingRights, epSquare };
+}
+
+// Rooks on a color's back rank that could carry castling rights, with their side of the king
+function castlingCandidates(position: Position, color: Color): Array<{ square: Square; side: 'kingside' | 'queenside' }> {
+  const rank = backRankIndex(color);
+  const king = findKing(position.board, color);
+  if (king < 0 || king >> 3 !== rank) return [];
+  const candidates: Array<{ square: Square; side: 'kingside' | 'queenside' }> = [];
+  for (let file = 0; file < 8; file++) {
+    const piece = position.board[rank * 8 + file];
+    if (piece?.type === 'r' && piece.color === color) {
+      candidates.push({
+        square: squareName(rank * 8 + file),
+        side: file > (king & 7) ? 'kingside' : 'queenside',
+      });
+    }
+  }
+  return candidates;
+}
+
+// Why a (possibly incomplete) back rank is not a Chess960 setup, or null if it is one
+function backRankProblem(slots: (BackRankPiece | null)[]): string | null {
+  const placed = slots.filter(piece => piece !== null).length;
+  if (placed < 8) return `${placed} of 8 pieces placed`;
+  const bishops = slots.flatMap((piece, file) => piece === 'B' ? [file] : []);
+  if (bishops[0] % 2 === bishops[1] % 2) return 'Bishops must stand on opposite colors';
+  const rooks = slots.flatMap((piece, file) => piece === 'R' ? [file] : []);
+  const king = slots.indexOf('K');
+  if (!(rooks[0] < king && king < rooks[1])) return 'The king must stand between the rooks';
+  return null;
+}
+
+function loadPosition(fen: string | undefined): Position {
+  try {
+    return parseFen(fen || STANDARD_FEN);
+  } catch (error) {
+    console.error('[Chess960BoardEditor] Error loading FEN:', fen, error);
+    return parseFen(STANDARD_FEN);
+  }
+}
+
+function initialSlots(position: Position): (BackRankPiece | null)[] {
+  const start = identifyStartingPosition(makeFen(position));
+  return start ? positionToBackRank(start.white) : Array(8).fill(null);
+}
+
+export function Chess960BoardEditor({
+  fen,
+  onChange,
+  orientation: initialOrientation = 'white',
+  width = 400,
+  dialect = 'xfen',
+  theme,
+  pieceSet,
+  piecesBaseUrl = '/pieces',
+  showCoordinates = true,
+}: Chess960BoardEditorProps) {
+  const [position, setPosition] = useState<Position>(() => loadPosition(fen));
+  const [orientation, setOrientation] = useState<Color>(initialOrientation);
+  const [tool, setTool] = useState<EditorTool>(null);
+  const [draggedSpare, setDraggedSpare] = useState<Piece | null>(null);
+  const [fenInput, setFenInput] = useState<string>('');
+  const [fenError, setFenError] = useState<string | null>(null);
+  const [slots, setSlots] = useState<(BackRankPiece | null)[]>(() => initialSlots(loadPosition(fen)));
+  const [builderPiece, setBuilderPiece] = useState<BackRankPiece | null>(null);
+  const [positionNumberInput, setPositionNumberInput] = useState<string>('');
+
+  const squareSize = width / 8;
+  const currentFen = useMemo(() => makeFen(position, { dialect }), [position, dialect]);
+  const problems = useMemo(() => validatePosition(position), [position]);
+
+  // Every edit goes through here: clean it up, store it and report it
+  const update = useCallback((next: Position) => {
+    const clean = sanitize(next);
+    const nextFen = makeFen(clean, { dialect });
+    setPosition(clean);
+    setFenError(null);
+    if (onChange) {
+      onChange(nextFen, validatePosition(clean));
+    }
+  }, [dialect, onChange]);
+
+  // A new `fen` prop replaces the position being edited
+  useEffect(() => {
+    if (!fen) return;
+    setPosition(loadPosition(fen));
+    setFenError(null);
+  }, [fen]); // Only depend on fen - edits must survive other prop changes
+
+  // Keep the FEN field in step with the position and the selected dialect
+  useEffect(() => {
+    setFenInput(currentFen);
+  }, [currentFen]);
+
+  // Put a piece on a square (null clears it)
+  const setPiece = useCallback((square: Square, piece: Piece | null) => {
+    const board = [...position.board];
+    board[squareIndex(square)] = piece ? { ...piece } : null;
+    update({ ...position, board });
+  }, [position, update]);
+
+  // Moves and deletions made on the board itself (free mode)
+  const handleBoardChange = useCallback((boardFen: string) => {
+    try {
+      update(parseFen(boardFen));
+    } catch (error) {
+      console.error('[Chess960BoardEditor] Error applying board edit:', error);
+    }
+  }, [update]);
+
+  // Clicks on the tool overlay: place the selected spare piece or erase
+  const handleToolClick = useCallback((square: Square) => {
+    if (tool === 'trash') {
+      setPiece(square, null);
+    } else if (tool) {
+      const current = position.board[squareIndex(square)];
+      // Clicking the same piece again removes it, like lichess' editor
+      if (current && current.type === tool.type && current.color === tool.color) {
+        setPiece(square, null);
+      } else {
+        setPiece(square, tool);
+      }
+    }
+  }, [tool, position, setPiece]);
+
+  const handleSpareDrop = useCallback((e: React.DragEvent, square: Square) => {
+    e.preventDefault();
+    if (draggedSpare) {
+      setPiece(square, draggedSpare);
+    }
+    setDraggedSpare(null);
+  }, [draggedSpare, setPiece]);
+
+  const handleFenSubmit = useCallback(() => {
+    try {
+      update(parseFen(fenInput));
+    } catch (error) {
+      setFenError(error instanceof Error ? error.message : 'Invalid FEN');
+    }
+  }, [fenInput, update]);
+
+  const toggleCastling = useCallback((color: Color, square: Square, side: 'kingside' | 'queenside') => {
+    const rights = position.castlingRights[color];
+    const candidates = castlingCandidates(position, color);
+    let next: Square[];
+    if (rights.includes(square)) {
+      next = rights.filter(rook => rook !== square);
+    } else {
+      // Only one castling rook per side of the king
+      const sameSide = candidates.filter(candidate => candidate.side === side).map(candidate => candidate.square);
+      next = [...rights.filter(rook => !sameSide.includes(rook)), square];
+    }
+    update({ ...position, castlingRights: { ...position.castlingRights, [color]: next } });
+  }, [position, update]);
+
+  const epOptions = useMemo(() => enPassantSquares(position), [position]);
+
+  // Back-rank builder
+  const builderProblem = backRankProblem(slots);
+  const builderNumber = builderProblem === null ? backRankToPosition(slots as BackRankPiece[]) : null;
+
+  // Pieces of the B B Q N N R K R set not placed yet
+  const remainingPieces = useMemo(() => {
+    const remaining = [...BACK_RANK_SET];
+    for (const piece of slots) {
+      const index = piece ? remaining.indexOf(piece) : -1;
+      if (index >= 0) remaining.splice(index, 1);
+    }
+    return remaining;
+  }, [slots]);
+
+  const handleSlotClick = useCallback((file: number) => {
+    if (slots[file]) {
+      // Clicking a filled slot takes its piece back
+      setSlots(prev => prev.map((piece, index) => index === file ? null : piece));
+      return;
+    }
+    if (builderPiece && remainingPieces.includes(builderPiece)) {
+      setSlots(prev => prev.map((piece, index) => index === file ? builderPiece : piece));
+      // Keep the selection while more of the same piece remain
+      if (remainingPieces.filter(piece => piece === builderPiece).length <= 1) {
+        setBuilderPiece(null);
+      }
+    }
+  }, [slots, builderPiece, remainingPieces]);
+
+  const loadPositionNumber = useCallback((n: number) => {
+    if (!isValidPositionNumber(n)) return;
+    setSlots(positionToBackRank(n));
+    setPositionNumberInput(String(n));
+  }, []);
+
+  const applyBackRank = useCallback(() => {
+    if (!isValidBackRank(slots as string[])) return;
+    update(parseFen(backRankToFEN(slots as BackRankPiece[])));
+  }, [slots, update]);
+
+  const getPieceImage = useCallback((piece: Piece): string => {
+    const pieceCode = `${piece.color === 'white' ? 'w' : 'b'}${piece.type.toUpperCase()}`;
+    const pieceSetPath = pieceSet?.path || 'cburnett';
+    if (pieceSetPath.startsWith('/')) {
+      return `${pieceSetPath}/${pieceCode}.svg`;
+    }
+    return `${piecesBaseUrl}/${pieceSetPath}/${pieceCode}.svg`;
+  }, [pieceSet, piecesBaseUrl]);
+
+  const isSelectedTool = (piece: Piece) =>
+    tool !== null && tool !== 'trash' && tool.type === piece.type && tool.color === piece.color;
+
+  // Spare-piece tray for one color (the top tray holds the color shown at the top)
+  const renderTray = (color: Color) => (
+    <div
+      className="flex items-center"
+      style={{ gap: '4px', padding: '4px', background: '#2a2926', borderRadius: '4px', width: `${width}px` }}
+    >
+      {SPARE_PIECES.map(type => {
+        const piece: Piece = { type, color };
+        const selected = isSelectedTool(piece);
+        return (
+          <button
+            key={type}
+            type="button"
+            title={`${color} ${type} - click to place, or drag onto the board`}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData('text/plain', `${color[0]}${type}`);
+              e.dataTransfer.effectAllowed = 'copy';
+              setDraggedSpare(piece);
+            }}
+            onDragEnd={() => setDraggedSpare(null)}
+            onClick={() => setTool(selected ? null : piece)}
+            style={{
+              width: `${squareSize * 0.8}px`,
+              height: `${squareSize * 0.8}px`,
+              padding: 0,
+              background: selected ? 'rgba(249, 115, 22, 0.35)' : 'transparent',
+              border: selected ? `2px solid ${ACCENT}` : '2px solid transparent',
+              borderRadius: '4px',
+              cursor: 'grab',
+            }}
+          >
+            <img
+              src={getPieceImage(piece)}
+              alt={`${color} ${type}`}
+              className="w-full h-full object-contain select-none"
+              draggable={false}
+              style={{ pointerEvents: 'none' }}
+            />
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const topColor: Color = orientation === 'white' ? 'black' : 'white';
+  const bottomColor: Color = orientation;
+  const overlayActive = tool !== null || draggedSpare !== null;
+
+  return (
+    <div className="flex flex-wrap" style={{ gap: '16px', alignItems: 'flex-start' }}>
+      <div className="flex flex-col" style={{ gap: '6px' }}>
+        {renderTray(topColor)}
+
+        <div style={{ position: 'relative', width: `${width}px`, height: `${width}px` }}>
+          <Chess960Board
+            fen={currentFen}
+            orientation={orientation}
+            width={width}
+            theme={theme}
+            pieceSet={pieceSet}
+            piecesBaseUrl={piecesBaseUrl}
+            showCoordinates={showCoordinates}
+            showCastlingRights={true}
+            animationDuration={0}
+            movable={{ free: true }}
+            onPositionChange={handleBoardChange}
+          />
+
+          {/* Tool overlay - catches clicks for the selected spare piece / trash and spare drops */}
+          {overlayActive && (
+            <div className="absolute inset-0" style={{ zIndex: 1200 }}>
+              {Array.from({ length: 64 }, (_, index) => {
+                const displayRank = Math.floor(index / 8);
+                const displayFile = index % 8;
+                const rank = orientation === 'white' ? 7 - displayRank : displayRank;
+                const file = orientation === 'white' ? displayFile : 7 - displayFile;
+                const square = squareName(rank * 8 + file);
+                return (
+                  <div
+                    key={square}
+                    className="absolute"
+                    style={{
+                      left: `${displayFile * squareSize}px`,
+                      top: `${displayRank * squareSize}px`,
+                      width: `${squareSize}px`,
+                      height: `${squareSize}px`,
+                      cursor: tool === 'trash' ? 'not-allowed' : 'copy',
+                    }}
+                    onClick={() => handleToolClick(square)}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      e.dataTransfer.dropEffect = 'copy';
+                    }}
+                    onDrop={(e) => handleSpareDrop(e, square)}
+                  />
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {renderTray(bottomColor)}
+
+        <div className="flex items-center" style={{ gap: '6px', width: `${width}px` }}>
+          <button
+            type="button"
+            onClick={() => setTool(null)}
+            style={{ ...BUTTON_STYLE, borderColor: tool === null ? ACCENT : '#474239' }}
+          >
+            Move
+          </button>
+          {/* Trash: click to erase pieces, or drop spare/board pieces here */}
+          <div
+            role="button"
+            tabIndex={0}
+            title="Click to erase pieces, or drop a piece here to delete it"
+            onClick={() => setTool(tool === 'trash' ? null : 'trash')}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') setTool(tool === 'trash' ? null : 'trash');
+            }}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDraggedSpare(null);
+            }}
+            className="flex-1 select-none"
+            style={{
+              ...BUTTON_STYLE,
+              textAlign: 'center',
+              borderStyle: 'dashed',
+              borderColor: tool === 'trash' ? ACCENT : '#474239',
+              background: tool === 'trash' ? 'rgba(249, 115, 22, 0.25)' : BUTTON_STYLE.background,
+            }}
+          >
+            Trash
+          </div>
+          <button type="button" onClick={() => setOrientation(prev => prev === 'white' ? 'black' : 'white')} style={BUTTON_STYLE}>
+            Flip
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col" style={{ gap: '12px', minWidth: '260px', color: '#c1b9ad', fontSize: '13px' }}>
+        {/* Position controls */}
+        <div className="flex flex-wrap" style={{ gap: '6px' }}>
+          <button type="button" onClick={() => update(parseFen(STANDARD_FEN))} style={BUTTON_STYLE}>
+            Starting position
+          </button>
+          <button type="button" onClick={() => update(parseFen(EMPTY_FEN))} style={BUTTON_STYLE}>
+            Clear board
+          </button>
+        </div>
+
+        <div className="flex items-center" style={{ gap: '12px' }}>
+          <span>Side to move:</span>
+          {(['white', 'black'] as Color[]).map(color => (
+            <label key={color} style={LABEL_STYLE}>
+              <input
+                type="radio"
+                name="chess960-editor-turn"
+                checked={position.turn === color}
+                onChange={() => update({ ...position, turn: color, epSquare: null })}
+              />
+              {color === 'white' ? 'White' : 'Black'}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex flex-col" style={{ gap: '4px' }}>
+          <span>Castling:</span>
+          {(['white', 'black'] as Color[]).map(color => {
+            const candidates = castlingCandidates(position, color);
+            return (
+              <div key={color} className="flex flex-wrap items-center" style={{ gap: '10px' }}>
+                <span style={{ width: '44px' }}>{color === 'white' ? 'White' : 'Black'}</span>
+                {candidates.length === 0 && <span style={{ color: '#7d7468' }}>king not on its back rank</span>}
+                {candidates.map(({ square, side }) => (
+                  <label key={square} style={LABEL_STYLE}>
+                    <input
+                      type="checkbox"
+                      checked={position.castlingRights[color].includes(square)}
+                      onChange={() => toggleCastling(color, square, side)}
+                    />
+                    {side === 'kingside' ? 'O-O' : 'O-O-O'} ({square})
+                  </label>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <label style={LABEL_STYLE}>
+          <span>En passant:</span>
+          <select
+            value={position.epSquare ?? '-'}
+            onChange={(e) => update({ ...position, epSquare: e.target.value === '-' ? null : e.target.value })}
+            style={{ background: '#3a3632', color: 'white', border: '1px solid #474239', borderRadius: '4px' }}
+          >
+            <option value="-">-</option>
+            {epOptions.map(square => (
+              <option key={square} value={square}>{square}</option>
+            ))}
+          </select>
+        </label>
+
+        {/* FEN output / input */}
+        <div className="flex flex-col" style={{ gap: '4px' }}>
+          <span>FEN:</span>
+          <input
+            type="text"
+            value={fenInput}
+            spellCheck={false}
+            onChange={(e) => setFenInput(e.target.value)}
+            onBlur={handleFenSubmit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleFenSubmit();
+            }}
+            style={{
+              width: '100%',
+              padding: '4px 6px',
+              fontFamily: 'monospace',
+              fontSize: '12px',
+              background: '#1f1d1a',
+              color: 'white',
+              border: `1px solid ${fenError ? '#ff6b6b' : '#474239'}`,
+              borderRadius: '4px',
+            }}
+          />
+          {fenError && <span style={{ color: '#ff6b6b' }}>{fenError}</span>}
+          {problems.length === 0 ? (
+            <span style={{ color: '#8fce6b' }}>Valid position</span>
+          ) : (
+            <ul style={{ margin: 0, paddingLeft: '16px', color: '#ffd93d' }}>
+              {problems.map(problem => (
+                <li key={problem}>{problem}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Back-rank builder */}
+        <div className="flex flex-col" style={{ gap: '6px', padding: '8px', background: '#2a2926', borderRadius: '4px' }}>
+          <span>Chess960 setup builder</span>
+          <div className="flex flex-wrap" style={{ gap: '4px' }}>
+            {(['B', 'Q', 'N', 'R', 'K'] as BackRankPiece[]).map(piece => {
+              const left = remainingPieces.filter(remaining => remaining === piece).length;
+              return (
+                <button
+                  key={piece}
+                  type="button"
+                  disabled={left === 0}
+                  onClick={() => setBuilderPiece(builderPiece === piece ? null : piece)}
+                  style={{
+                    ...BUTTON_STYLE,
+                    opacity: left === 0 ? 0.4 : 1,
+                    borderColor: builderPiece === piece ? ACCENT : '#474239',
+                  }}
+                >
+                  {piece} ×{left}
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex" style={{ gap: '2px' }}>
+            {slots.map((piece, file) => (
+              <button
+                key={file}
+                type="button"
+                title={`${'abcdefgh'[file]}-file`}
+                onClick={() => handleSlotClick(file)}
+                style={{
+                  width: '30px',
+                  height: '30px',
+                  padding: 0,
+                  // Slot colors match the first rank (a1 is dark)
+                  background: file % 2 === 0 ? (theme?.dark ?? '#b58863') : (theme?.light ?? '#f0d9b5'),
+                  border: 'none',
+                  cursor: 'pointer',
+                }}
+              >
+                {piece && (
+                  <img
+                    src={getPieceImage({ type: piece.toLowerCase() as PieceType, color: 'white' })}
+                    alt={piece}
+                    className="w-full h-full object-contain select-none"
+                    draggable={false}
+                  />
+                )}
+              </button>
+            ))}
+          </div>
+          <span style={{ color: builderProblem ? '#a0958a' : '#8fce6b' }}>
+            {builderNumber !== null
+              ? `Position ${builderNumber} (${getPositionName(builderNumber)})`
+              : builderProblem}
+          </span>
+          <div className="flex flex-wrap items-center" style={{ gap: '6px' }}>
+            <input
+              type="number"
+              min={0}
+              max={959}
+              placeholder="0-959"
+              value={positionNumberInput}
+              onChange={(e) => {
+                setPositionNumberInput(e.target.value);
+                if (e.target.value !== '') loadPositionNumber(Number(e.target.value));
+              }}
+              style={{ width: '70px', background: '#1f1d1a', color: 'white', border: '1px solid #474239', borderRadius: '4px', padding: '3px 6px' }}
+            />
+            <button type="button" onClick={() => loadPositionNumber(generateRandomPosition())} style={BUTTON_STYLE}>
+              Random
+            </button>
+            <button type="button" onClick={() => setSlots(Array(8).fill(null))} style={BUTTON_STYLE}>
+              Clear
+            </button>
+            <button
+              type="button"
+              disabled={builderNumber === null}
+              onClick={applyBackRank}
+              style={{ ...BUTTON_STYLE, opacity: builderNumber === null ? 0.4 : 1 }}
+            >
+              Set up board
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
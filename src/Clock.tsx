@@ -0,0 +1,86 @@
+/**
+ * Clock - one side's chess clock display
+ *
+ * Features:
+ * - h:mm:ss / m:ss display, tenths of a second when time is short
+ * - Running, low-time, paused and flagged states
+ * - Delay bar while a simple delay runs
+ * - Tap to switch (over-the-board play)
+ *
+ * Pairs with useChessClock: `<Clock {...clock.clockProps.white} />`.
+ *
+ * @packageDocumentation
+ */
+
+import React from 'react';
+import { formatClock } from './chessClock';
+import type { ClockProps } from './types';
+
+const ACCENT = 'rgba(249, 115, 22, 0.9)';
+
+export const Clock: React.FC<ClockProps> = ({
+  time,
+  color,
+  running = false,
+  paused = false,
+  flagged = false,
+  delay = 0,
+  lowTime = 20000,
+  tenthsBelow = 10000,
+  onPress,
+  className = '',
+  style,
+}) => {
+  const low = time < lowTime;
+
+  let background = '#2a2926';
+  if (flagged) {
+    background = 'rgba(220, 38, 38, 0.85)';
+  } else if (running) {
+    background = low ? 'rgba(220, 38, 38, 0.6)' : ACCENT;
+  }
+
+  return (
+    <div
+      className={`chess-clock ${className}`}
+      role={onPress ? 'button' : 'timer'}
+      aria-label={`${color} clock`}
+      onClick={onPress}
+      style={{
+        position: 'relative',
+        display: 'inline-flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        minWidth: '120px',
+        padding: '6px 14px',
+        background,
+        border: '1px solid #474239',
+        borderRadius: '4px',
+        color: running || flagged ? 'white' : low ? '#ff6b6b' : '#c1b9ad',
+        fontFamily: 'monospace',
+        fontSize: '28px',
+        fontWeight: 600,
+        cursor: onPress ? 'pointer' : 'default',
+        opacity: paused && running ? 0.6 : 1,
+        userSelect: 'none',
+        overflow: 'hidden',
+        ...style,
+      }}
+    >
+      {formatClock(time, tenthsBelow)}
+      {/* Delay left before the time counts down */}
+      {delay > 0 && (
+        <div
+          style={{
+            position: 'absolute',
+            left: 0,
+            bottom: 0,
+            height: '3px',
+            width: `${Math.min(1, delay) * 100}%`,
+            background: 'white',
+          }}
+        />
+      )}
+    </div>
+  );
+};
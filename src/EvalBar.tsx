@@ -0,0 +1,100 @@
+/**
+ * EvalBar - vertical evaluation bar next to a Chess960Board
+ *
+ * Features:
+ * - Centipawn and mate scores, scaled by winning chances
+ * - Orientation-aware: the bottom side's color matches the board
+ * - Animated when the evaluation changes
+ * - Score label on the side that is ahead
+ *
+ * Feed it the engine's score from White's point of view:
+ * `<EvalBar score={lines[0]?.whiteScore ?? null} height={boardWidth} />`.
+ *
+ * @packageDocumentation
+ */
+
+import React from 'react';
+import { formatScore, winningChances } from './evaluation';
+import type { EvalBarProps } from './types';
+
+export const EvalBar: React.FC<EvalBarProps> = ({
+  score,
+  orientation = 'white',
+  height = 400,
+  width = 24,
+  showLabel = true,
+  animationDuration = 300,
+  className = '',
+  style,
+}) => {
+  // White's share of the bar, 0 to 1
+  const white = score ? (winningChances(score) + 1) / 2 : 0.5;
+  const whiteAhead = white >= 0.5;
+  // The label sits at the end of the side that is ahead
+  const labelAtBottom = whiteAhead === (orientation === 'white');
+
+  return (
+    <div
+      className={`eval-bar ${className}`}
+      role="meter"
+      aria-label="Evaluation"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(white * 100)}
+      aria-valuetext={score ? formatScore(score) : undefined}
+      style={{
+        position: 'relative',
+        width: `${width}px`,
+        height: `${height}px`,
+        background: '#403d39',
+        border: '1px solid #474239',
+        borderRadius: '3px',
+        overflow: 'hidden',
+        flexShrink: 0,
+        ...style,
+      }}
+    >
+      {/* White's part grows from White's side of the board */}
+      <div
+        style={{
+          position: 'absolute',
+          left: 0,
+          right: 0,
+          [orientation === 'white' ? 'bottom' : 'top']: 0,
+          height: `${white * 100}%`,
+          background: '#f0ece4',
+          transition: `height ${animationDuration}ms ease-in-out`,
+        }}
+      />
+      {/* Equality mark */}
+      <div
+        style={{
+          position: 'absolute',
+          left: 0,
+          right: 0,
+          top: '50%',
+          height: '2px',
+          marginTop: '-1px',
+          background: 'rgba(249, 115, 22, 0.6)',
+        }}
+      />
+      {showLabel && score && (
+        <div
+          style={{
+            position: 'absolute',
+            left: 0,
+            right: 0,
+            [labelAtBottom ? 'bottom' : 'top']: '3px',
+            textAlign: 'center',
+            fontSize: `${Math.max(9, Math.round(width * 0.42))}px`,
+            fontWeight: 600,
+            color: whiteAhead ? '#403d39' : '#f0ece4',
+            userSelect: 'none',
+          }}
+        >
+          {formatScore(score).replace(/^\+/, '')}
+        </div>
+      )}
+    </div>
+  );
+};
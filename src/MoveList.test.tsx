@@ -0,0 +1,73 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MoveList } from './MoveList';
+import { parsePgn } from './pgn';
+import type { MovePath } from './moveTree';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const TREE = parsePgn('1. e4 e5 (1... c5 2. Nf3 d6) 2. Nf3 Nc6 *').moves;
+
+let container: HTMLDivElement;
+let root: Root;
+
+beforeEach(() => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+  // jsdom has no layout
+  Element.prototype.scrollIntoView = vi.fn();
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+function renderList(currentPath: MovePath) {
+  const onSelect = vi.fn();
+  act(() => root.render(<MoveList moves={TREE} currentPath={currentPath} onSelect={onSelect} />));
+  return onSelect;
+}
+
+function key(key: string, target: EventTarget = window) {
+  act(() => {
+    target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+  });
+}
+
+describe('MoveList keyboard navigation', () => {
+  it('steps along the shown line', () => {
+    const onSelect = renderList([1, 0, 0]);
+    key('ArrowRight');
+    expect(onSelect).toHaveBeenLastCalledWith([1, 0, 1]);
+    key('ArrowLeft');
+    expect(onSelect).toHaveBeenLastCalledWith([0]);
+  });
+
+  it('jumps to the start and to the end of the line', () => {
+    const onSelect = renderList([1, 0, 0]);
+    key('End');
+    expect(onSelect).toHaveBeenLastCalledWith([1, 0, 2]);
+    key('Home');
+    expect(onSelect).toHaveBeenLastCalledWith([]);
+  });
+
+  it('stays put at the ends', () => {
+    const onSelect = renderList([3]);
+    key('ArrowRight');
+    key('End');
+    expect(onSelect).not.toHaveBeenCalled();
+  });
+
+  it('leaves keys typed into a text field alone', () => {
+    const onSelect = renderList([1]);
+    const input = document.createElement('input');
+    container.appendChild(input);
+    key('ArrowLeft', input);
+    expect(onSelect).not.toHaveBeenCalled();
+  });
+});
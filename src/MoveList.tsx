@@ -0,0 +1,228 @@
+/**
+ * MoveList - SAN move list with variations for a Chess960Board
+ *
+ * Features:
+ * - Moves with move numbers, comments and annotation glyphs
+ * - Nested variations, indented under the move they replace
+ * - Click a move to show its position
+ * - Promote or delete the variation of the shown move
+ * - ←/→/Home/End step through the shown line
+ *
+ * Pairs with useChess960Game: `<MoveList {...game.moveListProps} />`.
+ *
+ * @packageDocumentation
+ */
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { STANDARD_FEN, parseFen } from './rules';
+import { isMainLine, linePaths, moveAtPath, nextPath, pathPly, previousPath } from './moveTree';
+import type { PgnMove } from './pgn';
+import type { MovePath } from './moveTree';
+import type { MoveListProps } from './types';
+
+const BUTTON_STYLE: React.CSSProperties = {
+  padding: '4px 10px',
+  background: '#3a3632',
+  border: '1px solid #474239',
+  borderRadius: '4px',
+  color: 'white',
+  cursor: 'pointer',
+  fontSize: '13px',
+};
+
+const ACCENT = 'rgba(249, 115, 22, 0.9)';
+
+// Glyphs for the move assessment NAGs; anything else is shown as $n
+const NAG_GLYPHS: Record<number, string> = { 1: '!', 2: '?', 3: '!!', 4: '??', 5: '!?', 6: '?!' };
+
+function samePath(a: MovePath, b: MovePath): boolean {
+  return a.length === b.length && a.every((index, i) => index === b[i]);
+}
+
+export const MoveList: React.FC<MoveListProps> = ({
+  moves,
+  startFen = STANDARD_FEN,
+  currentPath,
+  onSelect,
+  onPromoteVariation,
+  onDeleteVariation,
+  enableKeyboard = true,
+  height,
+  className = '',
+  style,
+}) => {
+  const currentRef = useRef<HTMLButtonElement | null>(null);
+
+  // Move numbers continue from the starting position's fullmove counter
+  const start = useMemo(() => {
+    const position = parseFen(startFen);
+    return { fullmoves: position.fullmoves, offset: position.turn === 'black' ? 1 : 0 };
+  }, [startFen]);
+
+  const moveNumber = (path: MovePath) => start.fullmoves + Math.floor((pathPly(path) - 1 + start.offset) / 2);
+
+  // Keep the shown move visible in the scroll area
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentPath]);
+
+  useEffect(() => {
+    if (!enableKeyboard) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Don't navigate while typing in an input field
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
+        return;
+      }
+
+      let path: MovePath | null = null;
+      if (e.key === 'ArrowLeft') {
+        path = currentPath.length > 0 ? previousPath(currentPath) : null;
+      } else if (e.key === 'ArrowRight') {
+        path = nextPath(moves, currentPath);
+      } else if (e.key === 'Home') {
+        path = currentPath.length > 0 ? [] : null;
+      } else if (e.key === 'End') {
+        const line = linePaths(moves, currentPath);
+        path = line.length > 0 ? line[line.length - 1] : null;
+      } else {
+        return;
+      }
+      e.preventDefault();
+      if (path && !samePath(path, currentPath)) {
+        onSelect(path);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enableKeyboard, moves, currentPath, onSelect]);
+
+  const renderMove = (move: PgnMove, path: MovePath, showNumber: boolean) => {
+    const current = samePath(path, currentPath);
+    const number = moveNumber(path);
+    const label = move.color === 'white' ? `${number}.` : showNumber ? `${number}...` : '';
+    const glyphs = (move.nags ?? []).map(nag => NAG_GLYPHS[nag] ?? `$${nag}`).join(' ');
+
+    return (
+      <React.Fragment key={path.join('-')}>
+        {move.startingComment && (
+          <span style={{ color: '#a0958a', fontStyle: 'italic', marginRight: '4px' }}>{move.startingComment}</span>
+        )}
+        <button
+          ref={current ? currentRef : undefined}
+          onClick={() => onSelect(path)}
+          style={{
+            padding: '1px 4px',
+            marginRight: '2px',
+            background: current ? ACCENT : 'transparent',
+            border: 'none',
+            borderRadius: '3px',
+            color: current ? 'white' : '#e8e2d9',
+            cursor: 'pointer',
+            fontSize: '13px',
+            fontWeight: isMainLine(path) ? 600 : 400,
+          }}
+        >
+          {label && <span style={{ color: current ? 'white' : '#a0958a', marginRight: '3px' }}>{label}</span>}
+          {move.san}
+          {glyphs && <span style={{ marginLeft: '2px' }}>{glyphs}</span>}
+        </button>
+        {move.comment && (
+          <span style={{ color: '#a0958a', fontStyle: 'italic', marginRight: '4px' }}>{move.comment}</span>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  // A line is a run of inline moves; the variations of a move break the run
+  // and are drawn as indented blocks before it continues
+  const renderLine = (line: PgnMove[], linePath: MovePath, depth: number): React.ReactNode => {
+    const blocks: React.ReactNode[] = [];
+    let run: React.ReactNode[] = [];
+    let showNumber = true;
+
+    const flush = () => {
+      if (run.length > 0) {
+        blocks.push(<div key={`run-${blocks.length}`}>{run}</div>);
+        run = [];
+      }
+    };
+
+    line.forEach((move, index) => {
+      const path = [...linePath, index];
+      run.push(renderMove(move, path, showNumber));
+      showNumber = Boolean(move.comment);
+
+      if (move.variations && move.variations.length > 0) {
+        flush();
+        move.variations.forEach((variation, v) => {
+          blocks.push(
+            <div
+              key={`variation-${index}-${v}`}
+              style={{
+                margin: '2px 0 2px 6px',
+                paddingLeft: '8px',
+                borderLeft: '2px solid #474239',
+                background: depth === 0 ? 'rgba(0, 0, 0, 0.12)' : 'transparent',
+              }}
+            >
+              {renderLine(variation, [...path, v], depth + 1)}
+            </div>
+          );
+        });
+        // The line resumes with the next move, which needs its number again
+        showNumber = true;
+      }
+    });
+    flush();
+    return blocks;
+  };
+
+  const currentMove = moveAtPath(moves, currentPath);
+
+  return (
+    <div
+      className={`move-list ${className}`}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        padding: '8px',
+        background: '#2a2926',
+        border: '1px solid #474239',
+        borderRadius: '4px',
+        ...style,
+      }}
+    >
+      <div style={{ height, overflowY: height ? 'auto' : undefined, lineHeight: '1.8' }}>
+        {moves.length > 0 ? renderLine(moves, [], 0) : (
+          <span style={{ color: '#a0958a', fontSize: '13px' }}>No moves</span>
+        )}
+      </div>
+      {(onPromoteVariation || onDeleteVariation) && (
+        <div style={{ display: 'flex', gap: '6px' }}>
+          {onPromoteVariation && (
+            <button
+              onClick={() => onPromoteVariation(currentPath)}
+              disabled={!currentMove || isMainLine(currentPath)}
+              style={{ ...BUTTON_STYLE, opacity: !currentMove || isMainLine(currentPath) ? 0.5 : 1 }}
+            >
+              Promote variation
+            </button>
+          )}
+          {onDeleteVariation && (
+            <button
+              onClick={() => onDeleteVariation(currentPath)}
+              disabled={!currentMove}
+              style={{ ...BUTTON_STYLE, opacity: currentMove ? 1 : 0.5 }}
+            >
+              {isMainLine(currentPath) ? 'Delete from here' : 'Delete variation'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import { Chess } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { createChessJsRules } from './adapters';
+
+describe('createChessJsRules', () => {
+  const rules = createChessJsRules(Chess);
+
+  it('reads moves and pieces from chess.js', () => {
+    const adapter = rules();
+    expect(adapter.dests('g1').sort()).toEqual(['f3', 'h3']);
+    expect(adapter.move('e4')).toMatchObject({ from: 'e2', to: 'e4', color: 'white', piece: 'p' });
+    expect(adapter.get('e4')).toEqual({ type: 'p', color: 'white' });
+    expect(adapter.turn()).toBe('black');
+  });
+
+  it('turns chess.js castling into king-onto-rook', () => {
+    const adapter = rules('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+    expect(adapter.castlingRooks?.().sort()).toEqual(['a1', 'a8', 'h1', 'h8']);
+    expect(adapter.move({ from: 'e1', to: 'h1' })).toMatchObject({
+      san: 'O-O',
+      castle: { kingTo: 'g1', rookFrom: 'h1', rookTo: 'f1' },
+    });
+    expect(adapter.fen().split(' ')[0]).toBe('r3k2r/8/8/8/8/8/8/R4RK1');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Rules adapters - the interface between the board and a move generator
+ *
+ * The board only talks to the rules through a RulesAdapter: legal moves per
+ * square, applying moves, check detection, side to move and FEN in/out. The
+ * built-in Chess960 engine is the default; chess.js (or any other library)
+ * can be plugged in by wrapping it in an adapter.
+ *
+ * @packageDocumentation
+ */
+
+import { Chess960, STANDARD_FEN, findLegalMove, moveDests, parseFen } from './rules';
+import type { Move, MoveInput } from './rules';
+import type { Color, Piece, PieceType, Square } from './types';
+
+/**
+ * Stateful rules object used by the board. Moves use the board's castling
+ * convention: `to` is the castling rook's square and `castle` carries the
+ * king's and rook's final squares.
+ */
+export interface RulesAdapter {
+  /** Load a position, throwing on invalid FEN */
+  load(fen: string): void;
+  fen(): string;
+  turn(): Color;
+  /** Board as rows from rank 8 down to rank 1 */
+  board(): (Piece | null)[][];
+  get(square: Square): Piece | null;
+  /** Legal moves with metadata (captures, promotion, castling, SAN), optionally for one square */
+  moves(options?: { square?: Square }): Move[];
+  /** Legal destination squares for the piece on a square */
+  dests(square: Square): Square[];
+  /** Find the legal move matching the input without playing it */
+  findMove(input: MoveInput): Move | null;
+  /** Play a move, returning it, or null if it is not legal */
+  move(input: MoveInput): Move | null;
+  inCheck(): boolean;
+  /** Squares of the rooks that still carry castling rights (optional) */
+  castlingRooks?(): Square[];
+}
+
+/** Creates a rules adapter for a position (the standard start when omitted) */
+export type RulesFactory = (fen?: string) => RulesAdapter;
+
+/** Default rules: the built-in Chess960 engine */
+export const chess960Rules: RulesFactory = (fen) => new Chess960(fen);
+
+type ChessJsColor = 'w' | 'b';
+
+/** The parts of a chess.js verbose move the adapter reads */
+export interface ChessJsMove {
+  color: ChessJsColor;
+  from: string;
+  to: string;
+  piece: string;
+  captured?: string;
+  promotion?: string;
+  flags: string;
+  san: string;
+}
+
+/**
+ * The parts of the chess.js `Chess` class the adapter uses. Methods take
+ * parameters bivariantly, so chess.js's own `Square` union still fits.
+ */
+export interface ChessJsInstance {
+  load(fen: string): void;
+  fen(): string;
+  turn(): ChessJsColor;
+  get(square: Square): { type: string; color: ChessJsColor } | null | undefined | false;
+  moves(options: { verbose: true; square?: Square }): ChessJsMove[];
+  move(move: { from: Square; to: Square; promotion?: string }): ChessJsMove | null;
+  inCheck(): boolean;
+}
+
+export type ChessJsConstructor = new (fen?: string) => ChessJsInstance;
+
+const toColor = (color: ChessJsColor): Color => color === 'w' ? 'white' : 'black';
+
+function toMove(move: ChessJsMove): Move {
+  const result: Move = {
+    from: move.from,
+    to: move.to,
+    color: toColor(move.color),
+    piece: move.piece as PieceType,
+    san: move.san,
+    flags: move.flags,
+  };
+  if (move.captured) result.captured = move.captured as PieceType;
+  if (move.promotion) result.promotion = move.promotion as PieceType;
+  if (move.flags.includes('e')) result.enPassant = move.to[0] + move.from[1];
+
+  // chess.js moves the king two squares; the board expects king-onto-rook
+  const kingside = move.flags.includes('k');
+  if (kingside || move.flags.includes('q')) {
+    const rank = move.from[1];
+    const rookFrom = (kingside ? 'h' : 'a') + rank;
+    result.to = rookFrom;
+    result.castle = {
+      side: kingside ? 'kingside' : 'queenside',
+      kingTo: move.to,
+      rookFrom,
+      rookTo: (kingside ? 'f' : 'd') + rank,
+    };
+  }
+  return result;
+}
+
+class ChessJsAdapter implements RulesAdapter {
+  constructor(private chess: ChessJsInstance) {}
+
+  load(fen: string): void {
+    this.chess.load(fen);
+  }
+
+  fen(): string {
+    return this.chess.fen();
+  }
+
+  turn(): Color {
+    return toColor(this.chess.turn());
+  }
+
+  board(): (Piece | null)[][] {
+    return Array.from({ length: 8 }, (_, row) =>
+      Array.from({ length: 8 }, (_, file) => this.get(String.fromCharCode(97 + file) + (8 - row)))
+    );
+  }
+
+  get(square: Square): Piece | null {
+    const piece = this.chess.get(square);
+    return piece ? { type: piece.type as PieceType, color: toColor(piece.color) } : null;
+  }
+
+  moves(options: { square?: Square } = {}): Move[] {
+    return this.chess.moves({ verbose: true, square: options.square }).map(toMove);
+  }
+
+  dests(square: Square): Square[] {
+    return moveDests(this.moves({ square }));
+  }
+
+  findMove(input: MoveInput): Move | null {
+    return findLegalMove(this.moves(), input);
+  }
+
+  move(input: MoveInput): Move | null {
+    const move = this.findMove(input);
+    if (!move) return null;
+    try {
+      this.chess.move({
+        from: move.from,
+        to: move.castle ? move.castle.kingTo : move.to,
+        promotion: move.promotion,
+      });
+    } catch {
+      return null;
+    }
+    return move;
+  }
+
+  inCheck(): boolean {
+    return this.chess.inCheck();
+  }
+
+  castlingRooks(): Square[] {
+    const { castlingRights } = parseFen(this.chess.fen());
+    return [...castlingRights.white, ...castlingRights.black];
+  }
+}
+
+/**
+ * Rules backed by chess.js. The constructor is passed in so chess.js stays an
+ * optional dependency:
+ *
+ * ```ts
+ * import { Chess } from 'chess.js';
+ * <Chess960Board rules={createChessJsRules(Chess)} />
+ * ```
+ *
+ * chess.js only castles from the standard king and rook files, so this is
+ * suited to regular chess rather than Chess960 starting positions.
+ */
+export function createChessJsRules(Chess: ChessJsConstructor): RulesFactory {
+  return (fen = STANDARD_FEN) => new ChessJsAdapter(new Chess(fen));
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { applyBroadcast, createBroadcastState, createMemoryFeed, ndjsonFeed } from './broadcast';
+import type { BroadcastConnection, BroadcastFeed, BroadcastMessage } from './broadcast';
+
+// Every connection change of a feed, until it disconnects
+function statuses(feed: BroadcastFeed): Promise<[BroadcastConnection, Error | null][]> {
+  return new Promise(resolve => {
+    const seen: [BroadcastConnection, Error | null][] = [];
+    feed.onStatus!((connection, error) => {
+      seen.push([connection, error]);
+      if (connection === 'disconnected') resolve(seen);
+    });
+  });
+}
+
+function stream(chunks: string[], failure?: Error): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      if (failure) controller.error(failure);
+      else controller.close();
+    },
+  });
+}
+
+describe('ndjsonFeed', () => {
+  it('reads lines split across chunks and disconnects when the stream ends', async () => {
+    const feed = ndjsonFeed(stream(['{"move":"e4"}\ne7', 'e5\n', 'Nf3']));
+    const received: BroadcastMessage[] = [];
+    feed.listen(message => received.push(message));
+    // A stream passed in is connected from the start
+    expect(await statuses(feed)).toEqual([['connected', null], ['disconnected', null]]);
+    expect(received).toEqual([{ move: 'e4' }, { move: 'e7e5' }, { move: 'Nf3' }]);
+  });
+
+  it('reports a failing stream', async () => {
+    const feed = ndjsonFeed(stream(['e4\n'], new Error('connection reset')));
+    const seen = await statuses(feed);
+    expect(seen[seen.length - 1]).toEqual(['disconnected', new Error('connection reset')]);
+  });
+
+  it('reports an error response', async () => {
+    const feed = ndjsonFeed(new Response('not found', { status: 404 }));
+    const seen = await statuses(feed);
+    expect(seen).toEqual([['connecting', null], ['disconnected', new Error('Broadcast feed failed: HTTP 404')]]);
+  });
+
+  it('replays the connection to late listeners', async () => {
+    const feed = createMemoryFeed();
+    feed.setStatus('disconnected', new Error('gone'));
+    expect(await statuses(feed)).toEqual([['disconnected', new Error('gone')]]);
+  });
+});
+
+describe('applyBroadcast', () => {
+  const apply = (messages: BroadcastMessage[]) => messages.reduce(
+    (state, message) => applyBroadcast(state, message),
+    createBroadcastState()
+  );
+
+  it('turns a bare FEN one move away into that move', () => {
+    const state = apply([{ move: 'e4' }, { fen: 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq e6 0 2' }]);
+    expect(state.moves.map(move => move.san)).toEqual(['e4', 'e5']);
+  });
+
+  it('takes moves back to an earlier FEN and corrects by ply', () => {
+    const state = apply([{ move: 'e4' }, { move: 'e5' }, { move: 'Nf3' }]);
+    expect(applyBroadcast(state, { fen: state.moves[0].fen }).moves).toHaveLength(1);
+    expect(applyBroadcast(state, { move: 'c5', ply: 2 }).moves.map(move => move.san)).toEqual(['e4', 'c5']);
+  });
+
+  it('ignores illegal moves and gaps in ply', () => {
+    const state = apply([{ move: 'e4' }]);
+    expect(applyBroadcast(state, { move: 'e4' })).toBe(state);
+    expect(applyBroadcast(state, { move: 'Nf6', ply: 4 })).toBe(state);
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Broadcast - following a game as it is played elsewhere
+ *
+ * A broadcast arrives as a stream of messages, each a move, a position or
+ * both: NDJSON over a long-lived HTTP response, server-sent events, or
+ * anything else behind a BroadcastFeed. `applyBroadcast` folds the messages
+ * into a start position and the moves since, turning a bare FEN into the
+ * move that reached it so it can be animated, and following corrections and
+ * takebacks. useBroadcast builds the spectator view on top of it.
+ *
+ * ```
+ * {"move":"e4"}
+ * {"move":"e7e5","ply":2}
+ * {"fen":"rnbqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 1 2"}
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { STANDARD_FEN, convertFen } from './rules';
+import { chess960Rules } from './adapters';
+import type { MoveInput } from './rules';
+import type { RulesFactory } from './adapters';
+import type { PgnMove } from './pgn';
+
+/** One update of a broadcast: a move, a position, or a move with the position it leads to */
+export interface BroadcastMessage {
+  /** Move played from the latest position, in SAN, UCI or from/to form */
+  move?: MoveInput;
+  /** Position after the message; alone, the board follows it (as a move if one legal move reaches it) */
+  fen?: string;
+  /** Moves played once this message applies (the move's ply, 1 for the first move); a lower ply corrects earlier moves */
+  ply?: number;
+}
+
+/** The game as received so far */
+export interface BroadcastState {
+  startFen: string;
+  moves: PgnMove[];
+}
+
+/** Connection of a feed: `disconnected` once it failed or the stream ended */
+export type BroadcastConnection = 'connecting' | 'connected' | 'disconnected';
+
+export interface BroadcastFeed {
+  /** Receive messages in order, starting with those already received; returns an unsubscribe function */
+  listen(listener: (message: BroadcastMessage) => void): () => void;
+  /**
+   * Receive connection changes, starting with the current one, and the error
+   * a failed feed disconnected with; returns an unsubscribe function. Feeds
+   * without it count as connected.
+   */
+  onStatus?(listener: (connection: BroadcastConnection, error: Error | null) => void): () => void;
+  close?(): void;
+}
+
+/**
+ * Read one line of a feed: a JSON message, a FEN, or a move in SAN or UCI.
+ * Returns null for blank lines and lines that are none of these.
+ */
+export function parseBroadcastLine(line: string): BroadcastMessage | null {
+  const text = line.trim();
+  if (text === '') return null;
+  if (text.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return null;
+    }
+    const message = data as BroadcastMessage;
+    const hasMove = typeof message.move === 'string'
+      || (typeof message.move === 'object' && message.move !== null && 'from' in message.move && 'to' in message.move);
+    const hasFen = typeof message.fen === 'string';
+    if (!hasMove && !hasFen) return null;
+    return {
+      ...(hasMove ? { move: message.move } : {}),
+      ...(hasFen ? { fen: message.fen } : {}),
+      ...(typeof message.ply === 'number' ? { ply: message.ply } : {}),
+    };
+  }
+  if (text.includes('/')) return { fen: text };
+  if (/^[a-zA-Z0-9+#=\-x]+[!?]*$/.test(text)) return { move: text };
+  return null;
+}
+
+// Placement, side to move and castling rights - enough to tell positions apart
+function positionKey(fen: string): string {
+  let canonical = fen;
+  try {
+    canonical = convertFen(fen, 'xfen');
+  } catch {
+    // Compare malformed FEN as given
+  }
+  return canonical.trim().split(/\s+/).slice(0, 3).join(' ');
+}
+
+function positionAt(state: BroadcastState, ply: number): string {
+  return ply === 0 ? state.startFen : state.moves[ply - 1].fen;
+}
+
+// The state with a new position: the move that reaches it from the latest
+// position, a step back to an earlier position, or a new start
+function followFen(state: BroadcastState, fen: string, rules: RulesFactory): BroadcastState {
+  const key = positionKey(fen);
+  const latest = state.moves.length;
+  if (positionKey(positionAt(state, latest)) === key) return state;
+
+  for (const candidate of rules(positionAt(state, latest)).moves()) {
+    const next = rules(positionAt(state, latest));
+    const played = next.move(candidate);
+    if (played && positionKey(next.fen()) === key) {
+      return { startFen: state.startFen, moves: [...state.moves, { ...played, fen: next.fen() }] };
+    }
+  }
+
+  // Taken back or corrected to an earlier position
+  for (let ply = latest - 1; ply >= 0; ply--) {
+    if (positionKey(positionAt(state, ply)) === key) {
+      return { startFen: state.startFen, moves: state.moves.slice(0, ply) };
+    }
+  }
+
+  // Anything else starts over from the position (a new game, a missed stretch)
+  try {
+    return { startFen: rules(fen).fen(), moves: [] };
+  } catch {
+    return state;
+  }
+}
+
+/**
+ * Apply a message to the game received so far. Illegal moves and invalid
+ * positions leave it unchanged; a move that doesn't fit (a gap in `ply`, or
+ * illegal) falls back to the message's `fen` when it has one.
+ */
+export function applyBroadcast(
+  state: BroadcastState,
+  message: BroadcastMessage,
+  rules: RulesFactory = chess960Rules
+): BroadcastState {
+  if (message.move !== undefined) {
+    const base = message.ply !== undefined ? message.ply - 1 : state.moves.length;
+    if (base >= 0 && base <= state.moves.length) {
+      const game = rules(positionAt(state, base));
+      const played = game.move(message.move);
+      if (played) {
+        // Replaying a move already received changes nothing
+        const existing = state.moves[base];
+        if (existing && existing.from === played.from && existing.to === played.to && existing.promotion === played.promotion) {
+          return state.moves.length === base + 1 ? state : { startFen: state.startFen, moves: state.moves.slice(0, base + 1) };
+        }
+        return { startFen: state.startFen, moves: [...state.moves.slice(0, base), { ...played, fen: game.fen() }] };
+      }
+    }
+    return message.fen ? followFen(state, message.fen, rules) : state;
+  }
+
+  if (message.fen) {
+    if (message.ply !== undefined && message.ply >= 0 && message.ply <= state.moves.length
+      && positionKey(positionAt(state, message.ply)) === positionKey(message.fen)) {
+      return { startFen: state.startFen, moves: state.moves.slice(0, message.ply) };
+    }
+    return followFen(state, message.fen, rules);
+  }
+  return state;
+}
+
+/** Start a broadcast state (the standard position when omitted) */
+export function createBroadcastState(fen: string = STANDARD_FEN, rules: RulesFactory = chess960Rules): BroadcastState {
+  return { startFen: rules(fen).fen(), moves: [] };
+}
+
+// Fan messages out to listeners, replaying earlier ones to late listeners
+function createFanOut() {
+  const received: BroadcastMessage[] = [];
+  const listeners = new Set<(message: BroadcastMessage) => void>();
+  return {
+    emit(message: BroadcastMessage) {
+      received.push(message);
+      listeners.forEach(listener => listener(message));
+    },
+    listen(listener: (message: BroadcastMessage) => void) {
+      received.forEach(message => listener(message));
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// Connection of a feed, replayed to late listeners like its messages
+function createStatus(initial: BroadcastConnection) {
+  let connection = initial;
+  let error: Error | null = null;
+  const listeners = new Set<(connection: BroadcastConnection, error: Error | null) => void>();
+  return {
+    set(next: BroadcastConnection, reason: unknown = null) {
+      connection = next;
+      error = reason === null || reason instanceof Error ? reason : new Error(String(reason));
+      listeners.forEach(listener => listener(connection, error));
+    },
+    listen(listener: (connection: BroadcastConnection, error: Error | null) => void) {
+      listener(connection, error);
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * A feed you push messages into - lines as they would arrive over the
+ * network, or messages - for tests, demos and your own sources.
+ */
+export function createMemoryFeed(): BroadcastFeed & {
+  push(message: BroadcastMessage | string): void;
+  /** Report a connection change, e.g. `setStatus('disconnected', error)` */
+  setStatus(connection: BroadcastConnection, error?: Error): void;
+} {
+  const fanOut = createFanOut();
+  const status = createStatus('connected');
+  return {
+    listen: fanOut.listen,
+    onStatus: status.listen,
+    push: message => {
+      const parsed = typeof message === 'string' ? parseBroadcastLine(message) : message;
+      if (parsed) fanOut.emit(parsed);
+    },
+    setStatus: (connection, error) => status.set(connection, error ?? null),
+  };
+}
+
+/**
+ * A feed reading newline-delimited messages from an HTTP response that stays
+ * open: a URL (fetched), a Response or a byte stream. Reading starts at once.
+ * An error response, a dropped connection or the end of the stream
+ * disconnects it.
+ */
+export function ndjsonFeed(source: string | Response | ReadableStream<Uint8Array>): BroadcastFeed {
+  const fanOut = createFanOut();
+  const status = createStatus('connecting');
+  const controller = new AbortController();
+
+  const read = async () => {
+    const response = typeof source === 'string' ? await fetch(source, { signal: controller.signal }) : source;
+    if (!(response instanceof ReadableStream) && !response.ok) {
+      throw new Error(`Broadcast feed failed: HTTP ${response.status}`);
+    }
+    const stream = response instanceof ReadableStream ? response : response.body;
+    if (!stream) throw new Error('Broadcast feed failed: empty response');
+    const reader = stream.getReader();
+    controller.signal.addEventListener('abort', () => {
+      reader.cancel().catch(() => undefined);
+    });
+    const decoder = new TextDecoder();
+    let buffered = '';
+    status.set('connected');
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffered += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        const message = parseBroadcastLine(line);
+        if (message) fanOut.emit(message);
+      }
+      if (done) return;
+    }
+  };
+  read().then(
+    () => status.set('disconnected'),
+    error => {
+      if (!controller.signal.aborted) status.set('disconnected', error);
+    }
+  );
+
+  return {
+    listen: fanOut.listen,
+    onStatus: status.listen,
+    close: () => controller.abort(),
+  };
+}
+
+/**
+ * A feed over server-sent events: every event's data is one message (or
+ * several, one per line). Listens to `message` events unless `event` names
+ * another type. While the browser reconnects the feed is `connecting`; it is
+ * `disconnected` once the browser gives up.
+ */
+export function eventSourceFeed(source: string | EventSource, event = 'message'): BroadcastFeed {
+  const events = typeof source === 'string' ? new EventSource(source) : source;
+  const fanOut = createFanOut();
+  const status = createStatus(events.readyState === events.OPEN ? 'connected' : 'connecting');
+  const handleOpen = () => status.set('connected');
+  const handleError = () => {
+    if (events.readyState === events.CLOSED) {
+      status.set('disconnected', new Error('Broadcast feed failed: event stream closed'));
+    } else {
+      status.set('connecting');
+    }
+  };
+  const handleEvent = (e: Event) => {
+    const data = (e as MessageEvent).data;
+    if (typeof data !== 'string') return;
+    for (const line of data.split('\n')) {
+      const message = parseBroadcastLine(line);
+      if (message) fanOut.emit(message);
+    }
+  };
+  events.addEventListener(event, handleEvent);
+  events.addEventListener('open', handleOpen);
+  events.addEventListener('error', handleError);
+
+  return {
+    listen: fanOut.listen,
+    onStatus: status.listen,
+    close: () => {
+      events.removeEventListener(event, handleEvent);
+      events.removeEventListener('open', handleOpen);
+      events.removeEventListener('error', handleError);
+      events.close();
+    },
+  };
+}
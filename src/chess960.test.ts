@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CHESS960_POSITION_COUNT,
+  backRankToFEN,
+  backRankToPosition,
+  backRanksToFEN,
+  findPosition,
+  getChess960Position,
+  getDoubleChess960Position,
+  getPositionName,
+  getRandomDoubleChess960Position,
+  identifyStartingPosition,
+  isValidBackRank,
+  positionToBackRank,
+} from './chess960';
+import { STANDARD_FEN } from './rules';
+
+describe('Scharnagl numbering', () => {
+  it('round-trips every position through its back rank', () => {
+    const ranks = new Set<string>();
+    for (let n = 0; n < CHESS960_POSITION_COUNT; n++) {
+      const pieces = positionToBackRank(n);
+      expect(isValidBackRank(pieces)).toBe(true);
+      expect(backRankToPosition(pieces)).toBe(n);
+      ranks.add(pieces.join(''));
+    }
+    expect(ranks.size).toBe(960);
+  });
+
+  it('numbers the standard position 518', () => {
+    expect(positionToBackRank(518).join('')).toBe('RNBQKBNR');
+    expect(getChess960Position(518).fen).toBe(STANDARD_FEN);
+    expect(identifyStartingPosition(STANDARD_FEN)).toEqual({ white: 518, black: 518 });
+  });
+
+  it('matches known positions', () => {
+    expect(positionToBackRank(0).join('')).toBe('BBQNNRKR');
+    expect(positionToBackRank(959).join('')).toBe('RKRNNQBB');
+  });
+
+  it('rejects invalid numbers and back ranks', () => {
+    expect(() => positionToBackRank(960)).toThrow();
+    expect(isValidBackRank('RRBQKBNN'.split(''))).toBe(false);
+    expect(isValidBackRank('RNBQBKNR'.split(''))).toBe(false);
+    expect(() => backRankToPosition('RNBQKBNN'.split(''))).toThrow(/Invalid Chess960 back rank/);
+  });
+});
+
+describe('positions', () => {
+  it('writes the start FEN in either dialect', () => {
+    expect(backRankToFEN('BBQNNRKR'.split(''))).toBe('bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w KQkq - 0 1');
+    expect(getChess960Position(0, { dialect: 'shredder' }).fen.split(' ')[2]).toBe('HFhf');
+  });
+
+  it('names and finds positions', () => {
+    expect(getPositionName(518)).toBe('Standard chess');
+    expect(getPositionName(0)).toBe('BBQNNRKR');
+    expect(findPosition('standard')).toBe(518);
+    expect(findPosition('bbqnnrkr')).toBe(0);
+    expect(findPosition('nonsense')).toBeNull();
+  });
+});
+
+describe('Double Chess960', () => {
+  it('gives each side its own back rank', () => {
+    const position = getDoubleChess960Position(0, 959);
+    expect(position.fen).toBe('rkrnnqbb/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w KQkq - 0 1');
+    expect(position.whitePieces.join('')).toBe('BBQNNRKR');
+    expect(position.blackPieces.join('')).toBe('RKRNNQBB');
+    expect(identifyStartingPosition(position.fen)).toEqual({ white: 0, black: 959 });
+  });
+
+  it('names each side\'s castling rooks in Shredder-FEN', () => {
+    expect(getDoubleChess960Position(0, 959, { dialect: 'shredder' }).fen.split(' ')[2]).toBe('HFca');
+  });
+
+  it('draws valid positions', () => {
+    for (let i = 0; i < 20; i++) {
+      const { fen, white, black } = getRandomDoubleChess960Position();
+      expect(identifyStartingPosition(fen)).toEqual({ white, black });
+    }
+  });
+
+  it('rejects back ranks that are not Chess960 setups', () => {
+    expect(() => backRanksToFEN('RNBQKBNR'.split(''), 'RNBQBKNR'.split(''))).toThrow(/Invalid Chess960 back rank/);
+    expect(identifyStartingPosition('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/KRBQNBNR w KQkq - 0 1')).toBeNull();
+  });
+});
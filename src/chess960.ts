@@ -0,0 +1,261 @@
+/**
+ * Chess960 starting positions - Scharnagl numbering, validation and FEN generation
+ *
+ * Positions are numbered 0-959 following Reinhard Scharnagl's scheme, in which
+ * number 518 is the standard chess setup (RNBQKBNR). Double Fischer Random
+ * (DFRC) positions give each side its own back rank and are numbered by the
+ * pair of Scharnagl numbers (white, black).
+ *
+ * @packageDocumentation
+ */
+
+import { makeFen, parseFen } from './rules';
+import type { FenDialect } from './rules';
+
+export type BackRankPiece = 'R' | 'N' | 'B' | 'Q' | 'K';
+
+export interface Chess960Position {
+  /** Scharnagl number (0-959) */
+  position: number;
+  /** Starting position FEN */
+  fen: string;
+  /** Back rank pieces from the a-file to the h-file (uppercase, same for both sides) */
+  pieces: BackRankPiece[];
+}
+
+export interface DoubleChess960Position {
+  /** Scharnagl number (0-959) of white's back rank */
+  white: number;
+  /** Scharnagl number (0-959) of black's back rank */
+  black: number;
+  /** Starting position FEN */
+  fen: string;
+  /** White's back rank from the a-file to the h-file */
+  whitePieces: BackRankPiece[];
+  /** Black's back rank from the a-file to the h-file (uppercase) */
+  blackPieces: BackRankPiece[];
+}
+
+export const CHESS960_POSITION_COUNT = 960;
+export const STANDARD_POSITION = 518;
+
+// Knight placements among the five squares left after bishops and queen
+const KNIGHT_PLACEMENTS = [
+  [0, 1], [0, 2], [0, 3], [0, 4],
+  [1, 2], [1, 3], [1, 4],
+  [2, 3], [2, 4],
+  [3, 4],
+];
+
+const LIGHT_SQUARE_FILES = [1, 3, 5, 7];
+const DARK_SQUARE_FILES = [0, 2, 4, 6];
+
+const POSITION_NAMES: Record<number, string> = {
+  [STANDARD_POSITION]: 'Standard chess',
+};
+
+function emptyFiles(pieces: (BackRankPiece | '')[]): number[] {
+  return pieces.map((piece, file) => piece === '' ? file : -1).filter(file => file >= 0);
+}
+
+/** Whether a number is a valid Scharnagl position number */
+export function isValidPositionNumber(n: number): boolean {
+  return Number.isInteger(n) && n >= 0 && n < CHESS960_POSITION_COUNT;
+}
+
+/**
+ * Generate a random Chess960 position number (0-959)
+ */
+export function generateRandomPosition(): number {
+  return Math.floor(Math.random() * CHESS960_POSITION_COUNT);
+}
+
+/**
+ * Convert a Scharnagl number (0-959) to a back rank piece arrangement
+ */
+export function positionToBackRank(n: number): BackRankPiece[] {
+  if (!isValidPositionNumber(n)) {
+    throw new Error(`Position must be an integer between 0 and ${CHESS960_POSITION_COUNT - 1}`);
+  }
+
+  const pieces: (BackRankPiece | '')[] = new Array(8).fill('');
+
+  // Step 1: Place bishops on opposite colored squares
+  pieces[LIGHT_SQUARE_FILES[n % 4]] = 'B';
+  n = Math.floor(n / 4);
+  pieces[DARK_SQUARE_FILES[n % 4]] = 'B';
+  n = Math.floor(n / 4);
+
+  // Step 2: Place queen
+  pieces[emptyFiles(pieces)[n % 6]] = 'Q';
+  n = Math.floor(n / 6);
+
+  // Step 3: Place knights
+  const remaining = emptyFiles(pieces);
+  const [first, second] = KNIGHT_PLACEMENTS[n];
+  pieces[remaining[first]] = 'N';
+  pieces[remaining[second]] = 'N';
+
+  // Step 4: Rook, king, rook on the last three squares
+  const [rookA, king, rookB] = emptyFiles(pieces);
+  pieces[rookA] = 'R';
+  pieces[king] = 'K';
+  pieces[rookB] = 'R';
+
+  return pieces as BackRankPiece[];
+}
+
+/**
+ * Check that a back rank is a legal Chess960 setup: the eight pieces RRNNBBQK,
+ * bishops on opposite colored squares and the king between the rooks
+ */
+export function isValidBackRank(pieces: readonly string[]): boolean {
+  if (pieces.length !== 8) return false;
+  if ([...pieces].sort().join('') !== 'BBKNNQRR') return false;
+
+  const bishops = pieces.flatMap((piece, file) => piece === 'B' ? [file] : []);
+  if (bishops[0] % 2 === bishops[1] % 2) return false;
+
+  const rooks = pieces.flatMap((piece, file) => piece === 'R' ? [file] : []);
+  const king = pieces.indexOf('K');
+  return rooks[0] < king && king < rooks[1];
+}
+
+/**
+ * Convert a back rank arrangement back to its Scharnagl number (inverse of positionToBackRank)
+ */
+export function backRankToPosition(pieces: readonly string[]): number {
+  if (!isValidBackRank(pieces)) {
+    throw new Error(`Invalid Chess960 back rank: ${pieces.join('')}`);
+  }
+
+  const lightBishop = LIGHT_SQUARE_FILES.findIndex(file => pieces[file] === 'B');
+  const darkBishop = DARK_SQUARE_FILES.findIndex(file => pieces[file] === 'B');
+
+  // Queen index counts only squares not taken by bishops
+  const withoutBishops = pieces.filter(piece => piece !== 'B');
+  const queen = withoutBishops.indexOf('Q');
+
+  // Knight pair counts only squares not taken by bishops or queen
+  const withoutQueen = withoutBishops.filter(piece => piece !== 'Q');
+  const knights = withoutQueen.flatMap((piece, index) => piece === 'N' ? [index] : []);
+  const knightPlacement = KNIGHT_PLACEMENTS.findIndex(
+    ([first, second]) => first === knights[0] && second === knights[1]
+  );
+
+  return ((knightPlacement * 6 + queen) * 4 + darkBishop) * 4 + lightBishop;
+}
+
+/**
+ * Convert back rank pieces to the FEN of the starting position
+ * (black's rank 8 lowercase first, white's rank 1 uppercase last)
+ */
+export function backRankToFEN(pieces: readonly string[], options: { dialect?: FenDialect } = {}): string {
+  return backRanksToFEN(pieces, pieces, options);
+}
+
+/**
+ * Starting position FEN for independent white and black back ranks (Double Chess960).
+ * Every rook starts with castling rights, so each side castles from its own king file.
+ */
+export function backRanksToFEN(
+  whitePieces: readonly string[],
+  blackPieces: readonly string[],
+  options: { dialect?: FenDialect } = {}
+): string {
+  for (const pieces of [whitePieces, blackPieces]) {
+    if (!isValidBackRank(pieces)) {
+      throw new Error(`Invalid Chess960 back rank: ${pieces.join('')}`);
+    }
+  }
+  // Start-position rooks are always the outermost on their side, so KQkq is exact
+  const fen = `${blackPieces.join('').toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${whitePieces.join('').toUpperCase()} w KQkq - 0 1`;
+  return options.dialect === 'shredder' ? makeFen(parseFen(fen), options) : fen;
+}
+
+/**
+ * Get Chess960 position by Scharnagl number
+ */
+export function getChess960Position(n: number, options: { dialect?: FenDialect } = {}): Chess960Position {
+  const pieces = positionToBackRank(n);
+  return {
+    position: n,
+    fen: backRankToFEN(pieces, options),
+    pieces,
+  };
+}
+
+/**
+ * Get a random Chess960 position
+ */
+export function getRandomChess960Position(options: { dialect?: FenDialect } = {}): Chess960Position {
+  return getChess960Position(generateRandomPosition(), options);
+}
+
+/**
+ * Get a Double Chess960 position from a pair of Scharnagl numbers
+ */
+export function getDoubleChess960Position(
+  white: number,
+  black: number,
+  options: { dialect?: FenDialect } = {}
+): DoubleChess960Position {
+  const whitePieces = positionToBackRank(white);
+  const blackPieces = positionToBackRank(black);
+  return {
+    white,
+    black,
+    fen: backRanksToFEN(whitePieces, blackPieces, options),
+    whitePieces,
+    blackPieces,
+  };
+}
+
+/**
+ * Get a random Double Chess960 position (the two back ranks are drawn independently)
+ */
+export function getRandomDoubleChess960Position(options: { dialect?: FenDialect } = {}): DoubleChess960Position {
+  return getDoubleChess960Position(generateRandomPosition(), generateRandomPosition(), options);
+}
+
+/**
+ * Identify the Scharnagl numbers of a starting FEN's back ranks.
+ * Returns null when either back rank is not a Chess960 setup; `white === black`
+ * for ordinary (mirrored) Chess960 positions.
+ */
+export function identifyStartingPosition(fen: string): { white: number; black: number } | null {
+  const rows = fen.trim().split(/\s+/)[0].split('/');
+  if (rows.length !== 8) return null;
+  const blackPieces = rows[0].split('');
+  const whitePieces = rows[7].split('');
+  if (blackPieces.some(piece => piece !== piece.toLowerCase())) return null;
+  if (whitePieces.some(piece => piece !== piece.toUpperCase())) return null;
+
+  const white = whitePieces;
+  const black = blackPieces.map(piece => piece.toUpperCase());
+  if (!isValidBackRank(white) || !isValidBackRank(black)) return null;
+  return { white: backRankToPosition(white), black: backRankToPosition(black) };
+}
+
+/**
+ * Display name of a position: a well-known name (518 is "Standard chess")
+ * or its back rank, e.g. "BBQNNRKR"
+ */
+export function getPositionName(n: number): string {
+  return POSITION_NAMES[n] ?? positionToBackRank(n).join('');
+}
+
+/**
+ * Look up a position number by name or back rank, e.g. "standard" or "RNBQKBNR".
+ * Returns null when nothing matches.
+ */
+export function findPosition(name: string): number | null {
+  const query = name.trim().toLowerCase();
+  for (const [n, positionName] of Object.entries(POSITION_NAMES)) {
+    const lower = positionName.toLowerCase();
+    if (lower === query || lower.split(' ')[0] === query) return Number(n);
+  }
+
+  const pieces = query.toUpperCase().split('');
+  return isValidBackRank(pieces) ? backRankToPosition(pieces) : null;
+}
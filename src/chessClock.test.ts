@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { ChessClock, formatClock, parseTimeControl } from './chessClock';
+import type { TimeControl } from './chessClock';
+
+// A clock on a hand-driven time source
+function makeClock(timeControl: TimeControl | string) {
+  let time = 0;
+  const clock = new ChessClock(timeControl, { now: () => time });
+  return { clock, wait: (ms: number) => { time += ms; } };
+}
+
+const minutes = (n: number) => n * 60000;
+const seconds = (n: number) => n * 1000;
+
+describe('parseTimeControl', () => {
+  it('reads increments and stages', () => {
+    expect(parseTimeControl('300+2')).toEqual({ stages: [{ moves: undefined, time: seconds(300), increment: seconds(2) }], mode: undefined });
+    expect(parseTimeControl('40/5400+30:1800+30', 'bronstein')).toEqual({
+      stages: [
+        { moves: 40, time: seconds(5400), increment: seconds(30) },
+        { moves: undefined, time: seconds(1800), increment: seconds(30) },
+      ],
+      mode: 'bronstein',
+    });
+  });
+
+  it('rejects malformed fields and a stage without moves before the last', () => {
+    expect(() => parseTimeControl('5 min')).toThrow('Invalid time control: "5 min"');
+    expect(() => parseTimeControl('300+')).toThrow('Invalid time control');
+    expect(() => parseTimeControl('5400:1800')).toThrow('only the last stage may omit its move count');
+  });
+});
+
+describe('formatClock', () => {
+  it('shows tenths below ten seconds', () => {
+    expect(formatClock(9999)).toBe('9.9');
+    expect(formatClock(10000)).toBe('0:10');
+    expect(formatClock(0)).toBe('0.0');
+    expect(formatClock(-500)).toBe('0.0');
+  });
+
+  it('adds hours from an hour up', () => {
+    expect(formatClock(minutes(60) - 1)).toBe('59:59');
+    expect(formatClock(minutes(60))).toBe('1:00:00');
+    expect(formatClock(minutes(95) + seconds(7))).toBe('1:35:07');
+  });
+
+  it('takes the tenths threshold', () => {
+    expect(formatClock(seconds(15), 20000)).toBe('15.0');
+    expect(formatClock(seconds(5), 0)).toBe('0:05');
+  });
+});
+
+describe('ChessClock', () => {
+  it('charges the time used and adds a Fischer increment', () => {
+    const { clock, wait } = makeClock('60+2');
+    clock.start();
+    wait(seconds(5));
+    expect(clock.time('white')).toBe(seconds(55));
+    expect(clock.switch()).toBe('black');
+    expect(clock.time('white')).toBe(seconds(57));
+    expect(clock.state().moves).toEqual({ white: 1, black: 0 });
+  });
+
+  it('gives back at most the Bronstein bonus', () => {
+    const { clock, wait } = makeClock({ stages: [{ time: seconds(60), increment: seconds(3) }], mode: 'bronstein' });
+    clock.start();
+    wait(seconds(2));
+    clock.switch();
+    expect(clock.time('white')).toBe(seconds(60));
+    wait(seconds(5));
+    clock.switch();
+    expect(clock.time('black')).toBe(seconds(58));
+  });
+
+  it('waits out a simple delay before counting down', () => {
+    const { clock, wait } = makeClock({ stages: [{ time: seconds(60), increment: seconds(3) }], mode: 'delay' });
+    clock.start();
+    wait(seconds(1));
+    expect(clock.state()).toMatchObject({ delay: seconds(2), remaining: { white: seconds(60) } });
+    wait(seconds(4));
+    expect(clock.time('white')).toBe(seconds(58));
+    clock.switch();
+    expect(clock.time('white')).toBe(seconds(58));
+  });
+
+  it('adds the next stage\'s time once the stage\'s moves are played', () => {
+    const { clock, wait } = makeClock('2/60:30');
+    clock.start();
+    wait(seconds(10));
+    clock.switch();
+    clock.switch();
+    expect(clock.state().stage.white).toBe(0);
+    wait(seconds(10));
+    clock.switch();
+    expect(clock.state().stage).toEqual({ white: 1, black: 0 });
+    expect(clock.time('white')).toBe(seconds(70));
+  });
+
+  it('stands still while paused', () => {
+    const { clock, wait } = makeClock('60');
+    clock.start();
+    wait(seconds(5));
+    clock.pause();
+    wait(seconds(30));
+    expect(clock.state()).toMatchObject({ paused: true, remaining: { white: seconds(55) } });
+    clock.resume();
+    wait(seconds(5));
+    expect(clock.time('white')).toBe(seconds(50));
+  });
+
+  it('takes the server\'s times, minus the lag on the running side', () => {
+    const { clock, wait } = makeClock('60');
+    clock.start();
+    wait(seconds(3));
+    clock.sync({ white: seconds(40), black: seconds(50), running: 'black', lag: 500 });
+    expect(clock.state()).toMatchObject({ running: 'black', remaining: { white: seconds(40), black: seconds(49.5) } });
+    wait(seconds(1));
+    expect(clock.time('black')).toBe(seconds(48.5));
+  });
+
+  it('stops when a flag falls', () => {
+    const { clock, wait } = makeClock('10');
+    clock.start();
+    clock.switch();
+    wait(seconds(11));
+    expect(clock.flag()).toBe('black');
+    expect(clock.state()).toMatchObject({ running: null, flagged: 'black', remaining: { black: 0 } });
+    expect(clock.switch()).toBeNull();
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * ChessClock - time controls and a two-sided clock
+ *
+ * Supports Fischer increment, Bronstein delay and simple (US) delay, time
+ * controls with several stages (40 moves in 90 minutes, then 30 minutes for
+ * the rest), pausing, flag detection and reconciliation with server times.
+ * All times are in milliseconds.
+ *
+ * @packageDocumentation
+ */
+
+import type { Color } from './types';
+
+/**
+ * How the per-move bonus is given:
+ * - 'increment' - Fischer: the bonus is added after every move
+ * - 'bronstein' - the time used is given back after the move, up to the bonus
+ * - 'delay' - simple delay: the clock waits for the bonus before counting down
+ */
+export type ClockMode = 'increment' | 'bronstein' | 'delay';
+
+export interface TimeControlStage {
+  /** Moves to play in this stage; omitted for the last stage (rest of the game) */
+  moves?: number;
+  /** Time given at the start of the stage */
+  time: number;
+  /** Per-move bonus (increment or delay) during the stage (default: 0) */
+  increment?: number;
+}
+
+export interface TimeControl {
+  stages: TimeControlStage[];
+  /** How the per-move bonus is given (default: 'increment') */
+  mode?: ClockMode;
+}
+
+/** Remaining times reported by a server, used to correct the local clock */
+export interface ClockSync {
+  white: number;
+  black: number;
+  /** Side whose clock is running, null if stopped */
+  running: Color | null;
+  /** Time since the server measured (network latency), taken off the running side (default: 0) */
+  lag?: number;
+}
+
+/** Snapshot of a clock at one moment */
+export interface ClockState {
+  /** Remaining time per side, as shown (a running delay doesn't count down) */
+  remaining: Record<Color, number>;
+  /** Side whose clock is running, null before the start or once stopped */
+  running: Color | null;
+  paused: boolean;
+  /** Side whose time ran out */
+  flagged: Color | null;
+  /** Moves completed per side */
+  moves: Record<Color, number>;
+  /** Index of the time control stage each side is in */
+  stage: Record<Color, number>;
+  /** Delay left before the running clock counts down ('delay' mode, 0 otherwise) */
+  delay: number;
+}
+
+/**
+ * Parse a time control in PGN TimeControl notation (seconds): `300+2`,
+ * `40/5400+30:1800+30` (40 moves in 90 minutes, then 30 minutes, 30 second
+ * increment throughout) or `5400` (sudden death). Throws on anything else.
+ */
+export function parseTimeControl(text: string, mode?: ClockMode): TimeControl {
+  const stages = text.trim().split(':').map((field, i, fields): TimeControlStage => {
+    const match = /^(?:(\d+)\/)?(\d+(?:\.\d+)?)(?:\+(\d+(?:\.\d+)?))?$/.exec(field.trim());
+    if (!match) {
+      throw new Error(`Invalid time control: "${text}"`);
+    }
+    const moves = match[1] ? Number(match[1]) : undefined;
+    if (moves === undefined && i < fields.length - 1) {
+      throw new Error(`Invalid time control: only the last stage may omit its move count in "${text}"`);
+    }
+    return {
+      moves,
+      time: Number(match[2]) * 1000,
+      increment: match[3] ? Number(match[3]) * 1000 : 0,
+    };
+  });
+  return { stages, mode };
+}
+
+/** Format a time as h:mm:ss, m:ss, or s.t below `tenthsBelow` (default: 10 seconds) */
+export function formatClock(ms: number, tenthsBelow = 10000): string {
+  const time = Math.max(0, ms);
+  if (time < tenthsBelow) {
+    return (Math.floor(time / 100) / 10).toFixed(1);
+  }
+  const total = Math.floor(time / 1000);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+function otherSide(color: Color): Color {
+  return color === 'white' ? 'black' : 'white';
+}
+
+export class ChessClock {
+  private readonly control: TimeControl;
+  private readonly mode: ClockMode;
+  private readonly now: () => number;
+  private remaining: Record<Color, number>;
+  private moves: Record<Color, number> = { white: 0, black: 0 };
+  private stage: Record<Color, number> = { white: 0, black: 0 };
+  private running: Color | null = null;
+  private flagged: Color | null = null;
+  // When the running side's turn started, and when the clock was paused
+  private turnStart = 0;
+  private pausedAt: number | null = null;
+
+  constructor(timeControl: TimeControl | string, options: { now?: () => number } = {}) {
+    this.control = typeof timeControl === 'string' ? parseTimeControl(timeControl) : timeControl;
+    if (this.control.stages.length === 0) {
+      throw new Error('Invalid time control: no stages');
+    }
+    this.mode = this.control.mode ?? 'increment';
+    this.now = options.now ?? (() => Date.now());
+    const time = this.control.stages[0].time;
+    this.remaining = { white: time, black: time };
+  }
+
+  timeControl(): TimeControl {
+    return this.control;
+  }
+
+  // Time the running side has used this turn
+  private elapsed(now: number): number {
+    return (this.pausedAt ?? now) - this.turnStart;
+  }
+
+  private bonus(color: Color): number {
+    return this.control.stages[this.stage[color]].increment ?? 0;
+  }
+
+  // Remaining time of a side as shown at `now`
+  private shown(color: Color, now: number): number {
+    if (color !== this.running) return this.remaining[color];
+    const elapsed = this.elapsed(now);
+    const counted = this.mode === 'delay' ? Math.max(0, elapsed - this.bonus(color)) : elapsed;
+    return Math.max(0, this.remaining[color] - counted);
+  }
+
+  /** Remaining time of a side */
+  time(color: Color): number {
+    this.checkFlag();
+    return this.shown(color, this.now());
+  }
+
+  /** Snapshot of the whole clock */
+  state(): ClockState {
+    this.checkFlag();
+    const now = this.now();
+    const delay = this.running && this.mode === 'delay'
+      ? Math.max(0, this.bonus(this.running) - this.elapsed(now))
+      : 0;
+    return {
+      remaining: { white: this.shown('white', now), black: this.shown('black', now) },
+      running: this.running,
+      paused: this.pausedAt !== null,
+      flagged: this.flagged,
+      moves: { ...this.moves },
+      stage: { ...this.stage },
+      delay,
+    };
+  }
+
+  /** Start (or restart) the clock of a side (default: white) */
+  start(color: Color = 'white'): void {
+    if (this.flagged) return;
+    this.running = color;
+    this.turnStart = this.now();
+    this.pausedAt = null;
+  }
+
+  /**
+   * End the running side's turn after its move: charge the time used, give
+   * the bonus, enter the next stage when its move count is reached, and start
+   * the opponent's clock. Before the start, starts the opponent of `color`
+   * (default: white moved first). Returns the side now running.
+   */
+  switch(color?: Color): Color | null {
+    if (this.checkFlag()) return null;
+    const mover = this.running ?? color ?? 'white';
+    if (this.running) {
+      const now = this.now();
+      const elapsed = this.elapsed(now);
+      const bonus = this.bonus(mover);
+      if (this.mode === 'increment') {
+        this.remaining[mover] += bonus - elapsed;
+      } else if (this.mode === 'bronstein') {
+        this.remaining[mover] += Math.min(elapsed, bonus) - elapsed;
+      } else {
+        this.remaining[mover] -= Math.max(0, elapsed - bonus);
+      }
+      this.moves[mover] += 1;
+      this.advanceStage(mover);
+    }
+    this.start(otherSide(mover));
+    return this.running;
+  }
+
+  // Add the next stage's time once the current stage's moves are played
+  private advanceStage(color: Color): void {
+    const stages = this.control.stages;
+    let played = 0;
+    for (let i = 0; i <= this.stage[color]; i++) {
+      played += stages[i].moves ?? Infinity;
+    }
+    if (this.moves[color] >= played && this.stage[color] < stages.length - 1) {
+      this.stage[color] += 1;
+      this.remaining[color] += stages[this.stage[color]].time;
+    }
+  }
+
+  pause(): void {
+    if (this.running && this.pausedAt === null) {
+      this.pausedAt = this.now();
+    }
+  }
+
+  resume(): void {
+    if (this.pausedAt === null) return;
+    this.turnStart += this.now() - this.pausedAt;
+    this.pausedAt = null;
+  }
+
+  /** Stop the clock for good (game over), keeping the remaining times */
+  stop(): void {
+    if (!this.running) return;
+    const now = this.now();
+    this.remaining[this.running] = this.shown(this.running, now);
+    this.running = null;
+    this.pausedAt = null;
+  }
+
+  /** Back to the starting times, stopped */
+  reset(): void {
+    const time = this.control.stages[0].time;
+    this.remaining = { white: time, black: time };
+    this.moves = { white: 0, black: 0 };
+    this.stage = { white: 0, black: 0 };
+    this.running = null;
+    this.flagged = null;
+    this.pausedAt = null;
+  }
+
+  /**
+   * Take the server's times as the truth. The running side's turn restarts
+   * `lag` ms ago from the reported time; move counts and stages are kept.
+   */
+  sync(times: ClockSync): void {
+    const now = this.now();
+    this.remaining = { white: Math.max(0, times.white), black: Math.max(0, times.black) };
+    this.running = times.running;
+    this.turnStart = now - (times.lag ?? 0);
+    this.pausedAt = null;
+    this.flagged = null;
+    this.checkFlag();
+  }
+
+  /** Side whose time ran out (the clock stops when a flag falls) */
+  flag(): Color | null {
+    this.checkFlag();
+    return this.flagged;
+  }
+
+  private checkFlag(): Color | null {
+    if (!this.flagged && this.running && this.shown(this.running, this.now()) <= 0) {
+      this.flagged = this.running;
+      this.remaining[this.running] = 0;
+      this.running = null;
+      this.pausedAt = null;
+    }
+    return this.flagged;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Engine transports - how UCI lines reach an engine and come back
+ *
+ * A transport only moves text: commands to the engine, output lines back.
+ * Web Workers running a WebAssembly engine, MessagePorts to an engine in
+ * another context, a WebSocket bridge to a native engine - anything that can
+ * implement `send` and `listen` works with UciEngine. `createFakeEngine` is a
+ * scripted engine for tests and demos.
+ *
+ * @packageDocumentation
+ */
+
+import { STANDARD_FEN, applyMove, legalMoves, makeFen, parseFen } from './rules';
+import { moveToUci, uciToMove } from './uci';
+
+export interface EngineTransport {
+  /** Send one command line to the engine */
+  send(command: string): void;
+  /** Receive the engine's output line by line; returns an unsubscribe function */
+  listen(listener: (line: string) => void): () => void;
+  /** Shut the engine down */
+  close?(): void;
+}
+
+/** The part of MessagePort and Worker the transports use */
+export interface MessagePortLike {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  start?(): void;
+}
+
+/**
+ * Transport over a MessagePort, Worker or anything with the same shape.
+ * Messages may carry several lines; they are split before delivery.
+ */
+export function messagePortTransport(port: MessagePortLike, onClose?: () => void): EngineTransport {
+  port.start?.();
+  return {
+    send: command => port.postMessage(command),
+    listen: listener => {
+      const handleMessage = (event: MessageEvent) => {
+        if (typeof event.data !== 'string') return;
+        for (const line of event.data.split(/\r?\n/)) {
+          if (line.trim()) listener(line.trim());
+        }
+      };
+      port.addEventListener('message', handleMessage);
+      return () => port.removeEventListener('message', handleMessage);
+    },
+    close: onClose,
+  };
+}
+
+/**
+ * Transport to an engine in a Web Worker, e.g. a Stockfish WebAssembly build:
+ * `workerTransport('/stockfish/stockfish.js')`. Closing terminates the worker.
+ */
+export function workerTransport(worker: Worker | string | URL): EngineTransport {
+  const instance = typeof worker === 'string' || worker instanceof URL ? new Worker(worker) : worker;
+  return messagePortTransport(instance, () => instance.terminate());
+}
+
+export interface FakeEngineScript {
+  /** Engine name sent in `id name` (default: 'Fake Engine') */
+  name?: string;
+  /** Best move in UCI notation for a position (default: the first legal move) */
+  bestMove?: (fen: string) => string | null;
+  /** Score in centipawns for the side to move, used by the default info line (default: 0) */
+  evaluate?: (fen: string) => number;
+  /** Info lines sent before the best move (default: one depth-1 line with the best move) */
+  info?: (fen: string, bestMove: string | null) => string[];
+  /** Delay before answering `go` in ms; with `go infinite` the answer waits for `stop` (default: 0) */
+  delay?: number;
+}
+
+export interface FakeEngine extends EngineTransport {
+  /** Every command received, in order */
+  commands: string[];
+  /** Current value of each option set with `setoption` */
+  options: Record<string, string>;
+}
+
+/**
+ * A scripted UCI engine that runs in-process. It answers `uci`, `isready`,
+ * `setoption`, `position` and `go`/`stop` like a real engine, with moves
+ * from the script - handy for tests and for demos without a real engine.
+ */
+export function createFakeEngine(script: FakeEngineScript = {}): FakeEngine {
+  const listeners = new Set<(line: string) => void>();
+  const emit = (line: string) => {
+    // Answer asynchronously, as a real engine would
+    setTimeout(() => listeners.forEach(listener => listener(line)), 0);
+  };
+
+  let fen = STANDARD_FEN;
+  let searching = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const defaultBestMove = (position: string) => {
+    const move = legalMoves(parseFen(position))[0];
+    return move ? moveToUci(move, engine.options.UCI_Chess960 === 'true') : null;
+  };
+
+  const finishSearch = () => {
+    if (!searching) return;
+    searching = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const best = (script.bestMove ?? defaultBestMove)(fen);
+    const info = script.info
+      ? script.info(fen, best)
+      : [`info depth 1 seldepth 1 multipv 1 score cp ${Math.round(script.evaluate?.(fen) ?? 0)} nodes 1 nps 1000 time 1 pv ${best ?? ''}`.trim()];
+    info.forEach(emit);
+    emit(`bestmove ${best ?? '(none)'}`);
+  };
+
+  const handle = (command: string) => {
+    const [name, ...args] = command.trim().split(/\s+/);
+    if (name === 'uci') {
+      emit(`id name ${script.name ?? 'Fake Engine'}`);
+      emit('id author chess960-board');
+      emit('option name UCI_Chess960 type check default false');
+      emit('option name MultiPV type spin default 1 min 1 max 500');
+      emit('uciok');
+    } else if (name === 'isready') {
+      emit('readyok');
+    } else if (name === 'setoption') {
+      const match = /^setoption\s+name\s+(.+?)(?:\s+value\s+(.*))?$/.exec(command.trim());
+      if (match) engine.options[match[1]] = match[2] ?? '';
+    } else if (name === 'position') {
+      fen = positionFen(args);
+    } else if (name === 'go') {
+      searching = true;
+      if (!args.includes('infinite')) {
+        timer = setTimeout(finishSearch, script.delay ?? 0);
+      }
+    } else if (name === 'stop') {
+      finishSearch();
+    } else if (name === 'quit') {
+      searching = false;
+      if (timer) clearTimeout(timer);
+    }
+  };
+
+  const engine: FakeEngine = {
+    commands: [],
+    options: {},
+    send: command => {
+      engine.commands.push(command);
+      handle(command);
+    },
+    listen: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => {
+      listeners.clear();
+      if (timer) clearTimeout(timer);
+    },
+  };
+  return engine;
+}
+
+// FEN of the position a `position` command sets up
+function positionFen(args: string[]): string {
+  const movesAt = args.indexOf('moves');
+  const setup = movesAt === -1 ? args : args.slice(0, movesAt);
+  let position = parseFen(setup[0] === 'startpos' ? STANDARD_FEN : setup.slice(1).join(' '));
+  for (const uci of movesAt === -1 ? [] : args.slice(movesAt + 1)) {
+    const move = uciToMove(position, uci);
+    if (!move) break;
+    position = applyMove(position, move);
+  }
+  return makeFen(position);
+}
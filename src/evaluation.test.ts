@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { formatScore, scoreToCp, winningChances } from './evaluation';
+import { whiteScore } from './uciEngine';
+import type { EngineScore } from './uci';
+
+// Scores go through JSON when sent to another window or stored with a game
+const roundTrip = (score: EngineScore): EngineScore => JSON.parse(JSON.stringify(score));
+
+describe('mate 0 from White\'s side', () => {
+  it('counts for the side that delivered mate', () => {
+    const whiteMated = roundTrip(whiteScore({ unit: 'mate', value: 0 }, 'white'));
+    const blackMated = roundTrip(whiteScore({ unit: 'mate', value: 0 }, 'black'));
+    expect(whiteMated).toEqual({ unit: 'mate', value: 0, mated: 'white' });
+    expect(formatScore(whiteMated)).toBe('-M0');
+    expect(winningChances(whiteMated)).toBe(-1);
+    expect(formatScore(blackMated)).toBe('M0');
+    expect(scoreToCp(blackMated)).toBe(1000);
+  });
+});
+
+describe('evaluation', () => {
+  it('formats scores', () => {
+    expect(formatScore({ unit: 'cp', value: 130 })).toBe('+1.3');
+    expect(formatScore({ unit: 'cp', value: -40 })).toBe('-0.4');
+    expect(formatScore({ unit: 'cp', value: 1520 })).toBe('+15');
+    expect(formatScore({ unit: 'mate', value: -2 })).toBe('-M2');
+    expect(formatScore(whiteScore({ unit: 'cp', value: 0 }, 'black'))).toBe('0.0');
+  });
+
+  it('caps centipawns and maps them onto winning chances', () => {
+    expect(scoreToCp({ unit: 'cp', value: 2500 })).toBe(1000);
+    expect(scoreToCp({ unit: 'mate', value: -4 })).toBe(-1000);
+    expect(winningChances({ unit: 'cp', value: 0 })).toBe(0);
+    expect(winningChances({ unit: 'cp', value: 300 })).toBeCloseTo(-winningChances({ unit: 'cp', value: -300 }));
+    expect(winningChances({ unit: 'mate', value: 5 })).toBe(1);
+  });
+});
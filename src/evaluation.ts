@@ -0,0 +1,53 @@
+/**
+ * Evaluation helpers - turning engine scores into numbers people read
+ *
+ * Scores here are from White's point of view (`AnalysisInfo.whiteScore`).
+ * Winning chances map centipawns onto -1..1 with a logistic curve fitted to
+ * online games, so a bar or a graph moves a lot around equality and little
+ * once one side is clearly winning.
+ *
+ * @packageDocumentation
+ */
+
+import type { EngineScore } from './uci';
+
+// Slope of the centipawn to winning chances curve
+const WINNING_CHANCES_SLOPE = 0.00368208;
+
+// Centipawns beyond which a score no longer changes the picture
+const CP_CEILING = 1000;
+
+// 1 if White mates, -1 if Black does. A checkmated position scores mate 0
+// with the side mated in `mated`.
+function mateSign(score: EngineScore): number {
+  if (score.value === 0) return score.mated === 'black' ? 1 : -1;
+  return score.value > 0 ? 1 : -1;
+}
+
+/** Centipawns of a score; mates count as the ceiling (default 1000 cp) */
+export function scoreToCp(score: EngineScore, ceiling = CP_CEILING): number {
+  if (score.unit === 'mate') {
+    return mateSign(score) * ceiling;
+  }
+  return Math.max(-ceiling, Math.min(ceiling, score.value));
+}
+
+/** White's winning chances from -1 (Black wins) to 1 (White wins) */
+export function winningChances(score: EngineScore): number {
+  if (score.unit === 'mate') {
+    return mateSign(score);
+  }
+  const cp = Math.max(-CP_CEILING, Math.min(CP_CEILING, score.value));
+  return 2 / (1 + Math.exp(-WINNING_CHANCES_SLOPE * cp)) - 1;
+}
+
+/** A score as shown to players: `+1.3`, `-0.4`, `0.0`, `M3`, `-M2` */
+export function formatScore(score: EngineScore): string {
+  if (score.unit === 'mate') {
+    return `${mateSign(score) < 0 ? '-' : ''}M${Math.abs(score.value)}`;
+  }
+  const pawns = score.value / 100;
+  const text = Math.abs(pawns) >= 10 ? Math.abs(pawns).toFixed(0) : Math.abs(pawns).toFixed(1);
+  if (text === '0.0') return '0.0';
+  return `${pawns > 0 ? '+' : '-'}${text}`;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { detectGameEnd, gameEndText, repetitionKey } from './gameEnd';
+import { chess960Rules } from './adapters';
+
+const end = (fen: string, previousFens?: string[]) => detectGameEnd(chess960Rules(fen), previousFens);
+
+describe('detectGameEnd', () => {
+  it('detects checkmate for the side that delivered it', () => {
+    const mate = end('rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3');
+    expect(mate).toEqual({ result: '0-1', reason: 'checkmate', winner: 'black' });
+    expect(gameEndText(mate!)).toBe('Checkmate - Black wins');
+  });
+
+  it('detects stalemate', () => {
+    expect(end('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1')).toEqual({ result: '1/2-1/2', reason: 'stalemate', winner: null });
+  });
+
+  it('draws bishops that all stand on one square color', () => {
+    // c1 and f8 are both dark squares
+    expect(end('5b2/8/8/4k3/8/8/8/2B1K3 w - - 0 1')?.reason).toBe('insufficientMaterial');
+    expect(end('4k3/8/8/8/8/8/8/4K3 w - - 0 1')?.reason).toBe('insufficientMaterial');
+    // c1 dark, c8 light: mate is still possible
+    expect(end('2b5/8/8/4k3/8/8/8/2B1K3 w - - 0 1')).toBeNull();
+    expect(end('4k3/8/8/8/8/8/8/1NN1K3 w - - 0 1')).toBeNull();
+  });
+
+  it('draws after fifty moves without a capture or pawn move', () => {
+    expect(end('4k3/8/8/8/8/8/8/R3K3 w - - 100 80')?.reason).toBe('fiftyMoves');
+    expect(end('4k3/8/8/8/8/8/8/R3K3 w - - 99 80')).toBeNull();
+  });
+
+  it('draws the third occurrence of a position', () => {
+    const start = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+    const again = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 4 3';
+    const shuffle = [
+      'rnbqkbnr/pppppppp/8/8/8/5N2/PPPPPPPP/RNBQKB1R b KQkq - 1 1',
+      'rnbqkb1r/pppppppp/5n2/8/8/5N2/PPPPPPPP/RNBQKB1R w KQkq - 2 2',
+      'rnbqkb1r/pppppppp/5n2/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 3 2',
+    ];
+    expect(end(again, [start, ...shuffle])).toBeNull();
+    expect(end('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 8 5', [start, ...shuffle, again, ...shuffle])?.reason)
+      .toBe('threefoldRepetition');
+  });
+
+  it('ignores an en passant square no pawn can use when comparing positions', () => {
+    expect(repetitionKey('4k3/8/8/8/4P3/8/8/4K3 b - e3 0 1')).toBe('4k3/8/8/8/4P3/8/8/4K3 b - -');
+    expect(repetitionKey('4k3/8/8/8/3pP3/8/8/4K3 b - e3 0 1')).toBe('4k3/8/8/8/3pP3/8/8/4K3 b - e3');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Game end detection - checkmate, stalemate and the automatic draws
+ *
+ * Works on any RulesAdapter, so the board and the game hook detect the end of
+ * the game the same way whichever rules layer they use. Threefold repetition
+ * needs the FENs of the earlier positions of the game.
+ *
+ * @packageDocumentation
+ */
+
+import { makeFen, parseFen, squareIndex } from './rules';
+import type { Position } from './rules';
+import type { RulesAdapter } from './adapters';
+import type { Color, Piece } from './types';
+
+export type GameEndReason =
+  | 'checkmate'
+  | 'stalemate'
+  | 'threefoldRepetition'
+  | 'fiftyMoves'
+  | 'insufficientMaterial'
+  // Decided outside the board, passed in by the parent
+  | 'timeout'
+  | 'resignation'
+  | 'agreement';
+
+export interface GameEnd {
+  result: '1-0' | '0-1' | '1/2-1/2';
+  reason: GameEndReason;
+  /** Winning side, null for a draw */
+  winner: Color | null;
+}
+
+const REASON_TEXT: Record<GameEndReason, string> = {
+  checkmate: 'Checkmate',
+  stalemate: 'Stalemate',
+  threefoldRepetition: 'Threefold repetition',
+  fiftyMoves: 'Fifty-move rule',
+  insufficientMaterial: 'Insufficient material',
+  timeout: 'Time out',
+  resignation: 'Resignation',
+  agreement: 'Draw by agreement',
+};
+
+/** Short description of a game end, e.g. "Checkmate - White wins" */
+export function gameEndText(end: GameEnd): string {
+  const outcome = end.winner ? `${end.winner === 'white' ? 'White' : 'Black'} wins` : 'Draw';
+  return end.reason === 'agreement' ? REASON_TEXT.agreement : `${REASON_TEXT[end.reason]} - ${outcome}`;
+}
+
+/** A game end decided outside the board (flag fall, resignation, agreed draw) */
+export function makeGameEnd(reason: GameEndReason, winner: Color | null): GameEnd {
+  return {
+    result: winner === 'white' ? '1-0' : winner === 'black' ? '0-1' : '1/2-1/2',
+    reason,
+    winner,
+  };
+}
+
+// Whether a pawn of the side to move stands next to the pawn that just made a double step
+function canCaptureEnPassant(position: Position): boolean {
+  if (!position.epSquare) return false;
+  const target = squareIndex(position.epSquare);
+  const pawnRank = position.turn === 'white' ? (target >> 3) - 1 : (target >> 3) + 1;
+  const file = target & 7;
+  return [file - 1, file + 1].some(f => {
+    if (f < 0 || f > 7) return false;
+    const piece = position.board[pawnRank * 8 + f];
+    return piece?.type === 'p' && piece.color === position.turn;
+  });
+}
+
+/**
+ * The part of a FEN that decides whether two positions are the same for
+ * repetition: placement, side to move, castling rights and the en passant
+ * square (only when a pawn could take there)
+ */
+export function repetitionKey(fen: string): string {
+  let canonical = fen;
+  try {
+    const position = parseFen(fen);
+    canonical = makeFen(canCaptureEnPassant(position) ? position : { ...position, epSquare: null });
+  } catch {
+    // Compare malformed FEN as written
+  }
+  return canonical.trim().split(/\s+/).slice(0, 4).join(' ');
+}
+
+/**
+ * Neither side can checkmate: kings only, a single minor piece, or bishops
+ * that all stand on squares of one color. Board rows run from rank 8 down.
+ */
+export function insufficientMaterial(board: (Piece | null)[][]): boolean {
+  let knights = 0;
+  const bishopSquareColors = new Set<number>();
+  for (let rank = 0; rank < 8; rank++) {
+    for (let file = 0; file < 8; file++) {
+      const piece = board[rank]?.[file];
+      if (!piece || piece.type === 'k') continue;
+      if (piece.type === 'n') {
+        knights++;
+      } else if (piece.type === 'b') {
+        bishopSquareColors.add((rank + file) % 2);
+      } else {
+        return false;
+      }
+    }
+  }
+  if (knights === 0) return bishopSquareColors.size <= 1;
+  return knights === 1 && bishopSquareColors.size === 0;
+}
+
+/**
+ * How the game ended in the adapter's position, or null if it goes on.
+ * `previousFens` are the game's earlier positions (oldest first); without
+ * them threefold repetition isn't detected.
+ */
+export function detectGameEnd(rules: RulesAdapter, previousFens: string[] = []): GameEnd | null {
+  const turn = rules.turn();
+  if (rules.moves().length === 0) {
+    return rules.inCheck()
+      ? makeGameEnd('checkmate', turn === 'white' ? 'black' : 'white')
+      : makeGameEnd('stalemate', null);
+  }
+  if (insufficientMaterial(rules.board())) {
+    return makeGameEnd('insufficientMaterial', null);
+  }
+  const fen = rules.fen();
+  const halfmoves = Number(fen.trim().split(/\s+/)[4]);
+  if (halfmoves >= 100) {
+    return makeGameEnd('fiftyMoves', null);
+  }
+  const key = repetitionKey(fen);
+  let occurrences = 1;
+  for (const previous of previousFens) {
+    if (repetitionKey(previous) === key) occurrences++;
+  }
+  if (occurrences >= 3) {
+    return makeGameEnd('threefoldRepetition', null);
+  }
+  return null;
+}
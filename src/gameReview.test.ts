@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { createFakeEngine } from './engineTransport';
+import { classifyMove, moveAccuracy, reviewGame, reviewGlyph } from './gameReview';
+import { applyMove, isCheck, legalMoves, makeFen, parseFen } from './rules';
+import { moveToUci } from './uci';
+import { UciEngine } from './uciEngine';
+import type { Move, Position } from './rules';
+
+const VALUES: Record<string, number> = { p: 100, n: 300, b: 300, r: 500, q: 900, k: 0 };
+
+// Material from the side to move's opponent's point of view: what the move just played won
+function material(position: Position): number {
+  const placement = makeFen(position).split(' ')[0];
+  let white = 0;
+  for (const char of placement) {
+    const value = VALUES[char.toLowerCase()] ?? 0;
+    white += char === char.toUpperCase() ? value : -value;
+  }
+  return position.turn === 'white' ? -white : white;
+}
+
+const mates = (position: Position) => isCheck(position) && legalMoves(position).length === 0;
+
+// One ply of search: a mate if there is one, else the move winning the most material
+function search(fen: string): { move: Move; score: string } {
+  const position = parseFen(fen);
+  let best: { move: Move; value: number } | null = null;
+  for (const move of legalMoves(position)) {
+    const after = applyMove(position, move);
+    if (mates(after)) return { move, score: 'mate 1' };
+    const value = material(after);
+    if (!best || value > best.value) best = { move, value };
+  }
+  return { move: best!.move, score: `cp ${best!.value}` };
+}
+
+function reviewEngine(): UciEngine {
+  return new UciEngine(createFakeEngine({
+    bestMove: fen => moveToUci(search(fen).move),
+    info: (fen, bestMove) => [`info depth 1 multipv 1 score ${search(fen).score} pv ${bestMove}`],
+  }));
+}
+
+describe('reviewGame', () => {
+  it('finds the move that lost material', async () => {
+    const progress: number[] = [];
+    const review = await reviewGame(reviewEngine(), '1. e4 d5 2. exd5 Qxd5 3. Nc3 *', {
+      onProgress: done => progress.push(done),
+    });
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(review.evals.slice(0, 4)).toEqual([
+      { unit: 'cp', value: 0 },
+      { unit: 'cp', value: 0 },
+      { unit: 'cp', value: 100 },
+      { unit: 'cp', value: 0 },
+    ]);
+
+    const [e4, d5, exd5, qxd5] = review.moves;
+    expect(e4).toMatchObject({ cpLoss: 0, classification: 'good' });
+    expect(e4.accuracy).toBeCloseTo(100, 3);
+    expect(d5).toMatchObject({ classification: 'inaccuracy', cpLoss: 100, nag: 6, bestSan: 'a6' });
+    expect(exd5).toMatchObject({ classification: 'best', bestMove: 'e4d5' });
+    expect(qxd5.classification).toBe('best');
+    expect(review.sides.white).toMatchObject({ acpl: 0, inaccuracies: 0 });
+    expect(review.sides.white.accuracy).toBeCloseTo(100, 3);
+    expect(review.sides.black).toMatchObject({ acpl: 50, inaccuracies: 1, mistakes: 0, blunders: 0 });
+    expect(review.sides.black.accuracy).toBeLessThan(100);
+  });
+
+  it('scores checkmate and the blunder that allowed it', async () => {
+    const review = await reviewGame(reviewEngine(), { moves: ['f3', 'e5', 'g4', 'Qh4#'] });
+    const [, , g4, qh4] = review.moves;
+    expect(g4).toMatchObject({ classification: 'blunder', nag: 4, cpLoss: 1000, evalAfter: { unit: 'mate', value: -1 } });
+    expect(qh4.classification).toBe('best');
+    // The final position is not sent to the engine
+    expect(JSON.parse(JSON.stringify(review.evals[4]))).toEqual({ unit: 'mate', value: 0, mated: 'white' });
+    expect(reviewGlyph(review, 3)).toMatchObject({ square: 'g4', glyph: '??' });
+    expect(reviewGlyph(review, 4)).toBeNull();
+    expect(reviewGlyph(review, 4, { showBest: true })).toMatchObject({ square: 'h4', glyph: '★' });
+  });
+
+  it('rejects when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(reviewGame(reviewEngine(), { moves: ['e4'] }, { signal: controller.signal })).rejects.toThrow('Review aborted');
+  });
+});
+
+describe('move judgement', () => {
+  it('classifies by the winning chances lost', () => {
+    expect(classifyMove(0.05)).toBe('good');
+    expect(classifyMove(0.1)).toBe('inaccuracy');
+    expect(classifyMove(0.25)).toBe('mistake');
+    expect(classifyMove(1.2)).toBe('blunder');
+    expect(classifyMove(1.2, true)).toBe('best');
+  });
+
+  it('keeps accuracy within 0 to 100', () => {
+    expect(moveAccuracy(0)).toBeCloseTo(100, 1);
+    expect(moveAccuracy(2)).toBe(0);
+    expect(moveAccuracy(0.2)).toBeGreaterThan(moveAccuracy(0.4));
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Game review - an engine sweep over a finished game
+ *
+ * Evaluates every position of a game, then judges each move by how much it
+ * lost compared to the engine's best: centipawn loss, a classification
+ * (inaccuracy, mistake, blunder) based on the drop in winning chances, and
+ * an accuracy per move and per side. Any engine with UciEngine's `analyze`
+ * works, so a scripted fake engine gives deterministic reviews in tests.
+ *
+ * @packageDocumentation
+ */
+
+import { applyMove, findLegalMove, isCheck, legalMoves, makeFen, parseFen, STANDARD_FEN } from './rules';
+import { parsePgn } from './pgn';
+import { scoreToCp, winningChances } from './evaluation';
+import { moveToUci } from './uci';
+import { whiteScore } from './uciEngine';
+import type { Move, MoveInput } from './rules';
+import type { EngineScore, SearchLimits } from './uci';
+import type { AnalysisRequest, AnalysisResult } from './uciEngine';
+import type { Color, SquareGlyph } from './types';
+
+/** What the review needs from an engine - UciEngine fits */
+export interface ReviewEngine {
+  analyze(request: AnalysisRequest): Promise<AnalysisResult>;
+}
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface ReviewedMove {
+  /** Ply of the move, 1 for the first move */
+  ply: number;
+  color: Color;
+  move: Move;
+  san: string;
+  /** FEN before the move */
+  fenBefore: string;
+  /** FEN after the move */
+  fen: string;
+  /** Evaluation before and after the move, from White's point of view */
+  evalBefore: EngineScore;
+  evalAfter: EngineScore;
+  /** The engine's best move in the position before, in UCI notation and SAN */
+  bestMove: string | null;
+  bestSan: string | null;
+  /** Centipawns the move lost for its side (mates count as 1000) */
+  cpLoss: number;
+  /** Winning chances the move lost for its side, 0 to 2 */
+  chancesLoss: number;
+  /** Accuracy of the move, 0 to 100 */
+  accuracy: number;
+  classification: MoveClassification;
+  /** NAG for the classification ($6 ?!, $2 ?, $4 ??), undefined for good moves */
+  nag?: number;
+}
+
+export interface SideReview {
+  /** Mean accuracy of the side's moves, 0 to 100 (100 without moves) */
+  accuracy: number;
+  /** Average centipawn loss */
+  acpl: number;
+  inaccuracies: number;
+  mistakes: number;
+  blunders: number;
+}
+
+export interface GameReview {
+  startFen: string;
+  moves: ReviewedMove[];
+  /** Evaluation of every position from White's point of view; [0] is the start */
+  evals: EngineScore[];
+  sides: Record<Color, SideReview>;
+}
+
+export interface ReviewOptions {
+  /** Limits per position (default: depth 14) */
+  limits?: SearchLimits;
+  /** Called after each position is evaluated */
+  onProgress?: (done: number, total: number) => void;
+  /** Stops the review; the promise rejects */
+  signal?: AbortSignal;
+}
+
+/** A game to review: PGN text, or a start FEN and the moves played from it */
+export type ReviewSource = string | { startFen?: string; moves: MoveInput[] };
+
+// Drops in winning chances (on the -1..1 scale) for each classification
+const CLASSIFICATION_THRESHOLDS: [MoveClassification, number][] = [
+  ['blunder', 0.3],
+  ['mistake', 0.2],
+  ['inaccuracy', 0.1],
+];
+
+const CLASSIFICATION_NAGS: Partial<Record<MoveClassification, number>> = { inaccuracy: 6, mistake: 2, blunder: 4 };
+
+/** Classify a move by the winning chances it lost (0 to 2) */
+export function classifyMove(chancesLoss: number, best = false): MoveClassification {
+  if (best) return 'best';
+  for (const [classification, threshold] of CLASSIFICATION_THRESHOLDS) {
+    if (chancesLoss >= threshold) return classification;
+  }
+  return 'good';
+}
+
+/** Accuracy (0-100) of a move that lost `chancesLoss` winning chances (0 to 2) */
+export function moveAccuracy(chancesLoss: number): number {
+  // Fitted on win percentages: the loss is taken in percent points
+  const accuracy = 103.1668 * Math.exp(-0.04354 * chancesLoss * 50) - 3.1669;
+  return Math.max(0, Math.min(100, accuracy));
+}
+
+// The game as a start FEN and legal moves
+function resolveGame(source: ReviewSource): { startFen: string; moves: Move[] } {
+  if (typeof source === 'string') {
+    const game = parsePgn(source);
+    return { startFen: game.startFen, moves: game.moves };
+  }
+  const startFen = source.startFen ?? STANDARD_FEN;
+  let position = parseFen(startFen);
+  const moves = source.moves.map(input => {
+    const move = findLegalMove(legalMoves(position), input);
+    if (!move) {
+      throw new Error(`Invalid move: ${typeof input === 'string' ? input : `${input.from}${input.to}`}`);
+    }
+    position = applyMove(position, move);
+    return move;
+  });
+  return { startFen, moves };
+}
+
+/**
+ * Review a game with an engine. Positions are analyzed one after another,
+ * so the engine shouldn't be used for anything else until it resolves.
+ */
+export async function reviewGame(
+  engine: ReviewEngine,
+  source: ReviewSource,
+  options: ReviewOptions = {}
+): Promise<GameReview> {
+  const { startFen, moves } = resolveGame(source);
+  const limits = options.limits ?? { depth: 14 };
+
+  const fens = [startFen];
+  let position = parseFen(startFen);
+  for (const move of moves) {
+    position = applyMove(position, move);
+    fens.push(makeFen(position));
+  }
+
+  const evals: EngineScore[] = [];
+  const bestMoves: (string | null)[] = [];
+  for (const fen of fens) {
+    if (options.signal?.aborted) {
+      throw new Error('Review aborted');
+    }
+    const current = parseFen(fen);
+    if (legalMoves(current).length === 0) {
+      // Game over: no need to ask the engine
+      evals.push(isCheck(current) ? whiteScore({ unit: 'mate', value: 0 }, current.turn) : { unit: 'cp', value: 0 });
+      bestMoves.push(null);
+    } else {
+      const result = await engine.analyze({ fen, limits, multiPv: 1 });
+      const best = result.lines.find(line => line.multipv === 1) ?? result.lines[0];
+      evals.push(best?.whiteScore ?? (best?.score ? whiteScore(best.score, current.turn) : { unit: 'cp', value: 0 }));
+      bestMoves.push(result.bestMove);
+    }
+    options.onProgress?.(evals.length, fens.length);
+  }
+
+  const reviewed = moves.map((move, i): ReviewedMove => {
+    const sign = move.color === 'white' ? 1 : -1;
+    const before = evals[i];
+    const after = evals[i + 1];
+    const bestMove = bestMoves[i];
+    const bestLegal = bestMove ? findLegalMove(legalMoves(parseFen(fens[i])), bestMove) : null;
+    const isBest = bestLegal !== null && moveToUci(bestLegal) === moveToUci(move);
+    const cpLoss = isBest ? 0 : Math.max(0, sign * (scoreToCp(before) - scoreToCp(after)));
+    const chancesLoss = isBest ? 0 : Math.max(0, sign * (winningChances(before) - winningChances(after)));
+    const classification = classifyMove(chancesLoss, isBest);
+    return {
+      ply: i + 1,
+      color: move.color,
+      move,
+      san: move.san,
+      fenBefore: fens[i],
+      fen: fens[i + 1],
+      evalBefore: before,
+      evalAfter: after,
+      bestMove,
+      bestSan: bestLegal?.san ?? null,
+      cpLoss,
+      chancesLoss,
+      accuracy: moveAccuracy(chancesLoss),
+      classification,
+      nag: CLASSIFICATION_NAGS[classification],
+    };
+  });
+
+  const side = (color: Color): SideReview => {
+    const own = reviewed.filter(move => move.color === color);
+    const count = (classification: MoveClassification) => own.filter(move => move.classification === classification).length;
+    return {
+      accuracy: own.length > 0 ? own.reduce((sum, move) => sum + move.accuracy, 0) / own.length : 100,
+      acpl: own.length > 0 ? own.reduce((sum, move) => sum + move.cpLoss, 0) / own.length : 0,
+      inaccuracies: count('inaccuracy'),
+      mistakes: count('mistake'),
+      blunders: count('blunder'),
+    };
+  };
+
+  return { startFen, moves: reviewed, evals, sides: { white: side('white'), black: side('black') } };
+}
+
+const CLASSIFICATION_GLYPHS: Partial<Record<MoveClassification, { glyph: string; color: string }>> = {
+  best: { glyph: '★', color: 'rgba(21, 120, 27, 0.95)' },
+  inaccuracy: { glyph: '?!', color: 'rgba(202, 160, 20, 0.95)' },
+  mistake: { glyph: '?', color: 'rgba(230, 115, 20, 0.95)' },
+  blunder: { glyph: '??', color: 'rgba(200, 40, 40, 0.95)' },
+};
+
+/**
+ * The badge for the move that led to ply `ply` of a review, on its
+ * destination square (the king's square for castling); null for good moves
+ * and the start position. Pass it to the board's `glyphs` while stepping
+ * through the game.
+ */
+export function reviewGlyph(review: GameReview, ply: number, options: { showBest?: boolean } = {}): SquareGlyph | null {
+  const reviewed = ply > 0 ? review.moves[ply - 1] : undefined;
+  if (!reviewed) return null;
+  if (reviewed.classification === 'best' && !options.showBest) return null;
+  const badge = CLASSIFICATION_GLYPHS[reviewed.classification];
+  if (!badge) return null;
+  return { square: reviewed.move.castle?.kingTo ?? reviewed.move.to, ...badge };
+}
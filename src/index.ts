@@ -5,8 +5,147 @@
  */
 
 export { Chess960Board } from './Chess960Board';
+export { Chess960BoardEditor } from './Chess960BoardEditor';
+export { MoveList } from './MoveList';
+export { Clock } from './Clock';
+export { CapturedPieces } from './CapturedPieces';
+export { EvalBar } from './EvalBar';
+export { BroadcastStatus } from './BroadcastStatus';
+export { useChess960Game } from './useChess960Game';
+export type {
+  Chess960Game,
+  Chess960GameBoardProps,
+  Chess960GameMoveListProps,
+  GameMove,
+  UseChess960GameOptions,
+} from './useChess960Game';
+export { useBroadcast } from './useBroadcast';
+export type {
+  Broadcast,
+  BroadcastBoardProps,
+  BroadcastMoveListProps,
+  UseBroadcastOptions,
+} from './useBroadcast';
+export {
+  applyBroadcast,
+  createBroadcastState,
+  parseBroadcastLine,
+  createMemoryFeed,
+  ndjsonFeed,
+  eventSourceFeed,
+} from './broadcast';
+export type { BroadcastConnection, BroadcastFeed, BroadcastMessage, BroadcastState } from './broadcast';
+export { useChessClock } from './useChessClock';
+export type { ChessClockControls, UseChessClockOptions } from './useChessClock';
+export { ChessClock, parseTimeControl, formatClock } from './chessClock';
+export type { ClockMode, ClockState, ClockSync, TimeControl, TimeControlStage } from './chessClock';
+export {
+  detectGameEnd,
+  makeGameEnd,
+  gameEndText,
+  insufficientMaterial,
+  repetitionKey,
+} from './gameEnd';
+export type { GameEnd, GameEndReason } from './gameEnd';
+export { getMaterial, countPieces, PIECE_VALUES } from './material';
+export type { Material, MaterialSide, PieceCounts } from './material';
+export { UciEngine, whiteScore } from './uciEngine';
+export { winningChances, scoreToCp, formatScore } from './evaluation';
+export { reviewGame, reviewGlyph, classifyMove, moveAccuracy } from './gameReview';
+export type {
+  GameReview,
+  ReviewedMove,
+  SideReview,
+  MoveClassification,
+  ReviewEngine,
+  ReviewOptions,
+  ReviewSource,
+} from './gameReview';
+export type { UciEngineOptions, AnalysisRequest, AnalysisInfo, AnalysisResult } from './uciEngine';
+export {
+  parseInfo,
+  parseBestMove,
+  parseOption,
+  formatGo,
+  formatPosition,
+  moveToUci,
+  uciToMove,
+  uciLineToMoves,
+} from './uci';
+export type { EngineInfo, EngineScore, EngineOption, BestMove, SearchLimits } from './uci';
+export { messagePortTransport, workerTransport, createFakeEngine } from './engineTransport';
+export type { EngineTransport, MessagePortLike, FakeEngine, FakeEngineScript } from './engineTransport';
+export { MoveClient, createMemoryTransport, webSocketTransport, serveMoves } from './moveTransport';
+export type { MoveTransport, MoveMessage, TransportMove, MoveClientOptions } from './moveTransport';
+export { parsePgn, parsePgnGames, makePgn } from './pgn';
+export type { GameResult, PgnGame, PgnMove, PgnAnnotations, PgnSource } from './pgn';
+export {
+  moveAtPath,
+  pathPly,
+  previousPath,
+  nextPath,
+  linePaths,
+  isMainLine,
+  addMove,
+  deleteFrom,
+  deleteVariation,
+  promoteVariation,
+} from './moveTree';
+export type { MovePath } from './moveTree';
+export {
+  Chess960,
+  STANDARD_FEN,
+  parseFen,
+  makeFen,
+  convertFen,
+  legalMoves,
+  applyMove,
+  isCheck,
+  isSquareAttacked,
+  findLegalMove,
+  moveDests,
+  enPassantSquares,
+  validatePosition,
+  premoveDests,
+  premovePosition,
+} from './rules';
+export type { Move, MoveInput, Position, CastlingMove, CastlingSide, FenDialect } from './rules';
+export { chess960Rules, createChessJsRules } from './adapters';
+export type {
+  RulesAdapter,
+  RulesFactory,
+  ChessJsConstructor,
+  ChessJsInstance,
+  ChessJsMove,
+} from './adapters';
+export * as chess960 from './chess960';
+export {
+  CHESS960_POSITION_COUNT,
+  STANDARD_POSITION,
+  isValidPositionNumber,
+  generateRandomPosition,
+  positionToBackRank,
+  backRankToPosition,
+  isValidBackRank,
+  backRankToFEN,
+  backRanksToFEN,
+  getChess960Position,
+  getRandomChess960Position,
+  getDoubleChess960Position,
+  getRandomDoubleChess960Position,
+  identifyStartingPosition,
+  getPositionName,
+  findPosition,
+} from './chess960';
+export type { Chess960Position, DoubleChess960Position, BackRankPiece } from './chess960';
 export type {
   Chess960BoardProps,
+  Chess960BoardEditorProps,
+  MoveListProps,
+  ClockProps,
+  CapturedPiecesProps,
+  EvalBarProps,
+  BroadcastStatusProps,
   BoardTheme,
   PieceSet,
   Piece,
@@ -14,4 +153,8 @@ export type {
   Square,
   Color,
   Arrow,
+  SquareGlyph,
+  CastlingInputMethod,
+  MovableConfig,
+  Premove,
 } from './types';
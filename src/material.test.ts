@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { countPieces, getMaterial } from './material';
+
+describe('getMaterial', () => {
+  it('is even at the start', () => {
+    const material = getMaterial('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1');
+    expect(material.white).toEqual({ pieces: { p: 8, n: 2, b: 2, r: 2, q: 1, k: 1 }, points: 39, lost: [] });
+    expect(material.diff).toBe(0);
+    expect(material.imbalance).toEqual({ white: [], black: [] });
+  });
+
+  it('lists captured pieces most valuable first', () => {
+    // White has taken a knight and two pawns, Black a bishop
+    const material = getMaterial('r1bqkbnr/ppp2ppp/8/8/8/8/PPPPPPPP/RN1QKBNR w KQkq - 0 6');
+    expect(material.black.lost).toEqual(['n', 'p', 'p']);
+    expect(material.white.lost).toEqual(['b']);
+    expect(material.diff).toBe(2);
+    expect(material.imbalance).toEqual({ white: ['n', 'p', 'p'], black: ['b'] });
+  });
+
+  it('counts a promoted piece against a missing pawn', () => {
+    // A white pawn promoted to a second queen on a8, taking the rook; another was captured
+    const material = getMaterial('Qnbqkbnr/1ppppppp/8/8/8/8/2PPPPPP/RNBQKBNR b KQk - 0 20');
+    expect(material.white.pieces.q).toBe(2);
+    expect(material.white.lost).toEqual(['p']);
+    expect(material.black.lost).toEqual(['r', 'p']);
+    expect(material.imbalance).toEqual({ white: ['q', 'r'], black: ['p'] });
+  });
+
+  it('compares against a non-standard start', () => {
+    // Rook and pawns endgame study: nothing is lost until something is taken
+    const start = '4k3/pp6/8/8/8/8/PPP5/R3K3 w - - 0 1';
+    expect(getMaterial(start, start).white.lost).toEqual([]);
+    const later = getMaterial('4k3/p7/8/8/8/8/PP6/4K3 w - - 0 5', start);
+    expect(later.white.lost).toEqual(['r', 'p']);
+    expect(later.black.lost).toEqual(['p']);
+    expect(later.diff).toBe(1);
+  });
+});
+
+describe('countPieces', () => {
+  it('counts both sides', () => {
+    expect(countPieces('4k3/8/8/8/8/8/8/RR2K3 w - - 0 1')).toEqual({
+      white: { p: 0, n: 0, b: 0, r: 2, q: 0, k: 1 },
+      black: { p: 0, n: 0, b: 0, r: 0, q: 0, k: 1 },
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Material - piece counts, captured pieces and the point difference
+ *
+ * Everything is derived from the position alone, so it works for any start
+ * and after promotions. Captured pieces are what each side is missing
+ * compared to its starting set; a piece beyond the starting count must be a
+ * promoted pawn, so it cancels one missing pawn.
+ *
+ * @packageDocumentation
+ */
+
+import { STANDARD_FEN, parseFen } from './rules';
+import type { Color, PieceType } from './types';
+
+export type PieceCounts = Record<PieceType, number>;
+
+export interface MaterialSide {
+  /** Pieces of this side on the board */
+  pieces: PieceCounts;
+  /** Value of this side's pieces on the board */
+  points: number;
+  /** Pieces of this side taken by the opponent, most valuable first */
+  lost: PieceType[];
+}
+
+export interface Material {
+  white: MaterialSide;
+  black: MaterialSide;
+  /** White's points minus Black's */
+  diff: number;
+  /** Pieces a side has more of than the other, most valuable first */
+  imbalance: Record<Color, PieceType[]>;
+}
+
+/** Usual piece values in pawns; the king doesn't count */
+export const PIECE_VALUES: Record<PieceType, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+
+// Most valuable first, the order captured pieces are listed in
+const PIECE_ORDER: PieceType[] = ['q', 'r', 'b', 'n', 'p'];
+
+function emptyCounts(): PieceCounts {
+  return { p: 0, n: 0, b: 0, r: 0, q: 0, k: 0 };
+}
+
+/** Number of pieces of each type per side in a FEN */
+export function countPieces(fen: string): Record<Color, PieceCounts> {
+  const counts: Record<Color, PieceCounts> = { white: emptyCounts(), black: emptyCounts() };
+  for (const piece of parseFen(fen).board) {
+    if (piece) counts[piece.color][piece.type]++;
+  }
+  return counts;
+}
+
+function points(pieces: PieceCounts): number {
+  return PIECE_ORDER.reduce((sum, type) => sum + pieces[type] * PIECE_VALUES[type], 0);
+}
+
+// Pieces missing from a side compared to its starting set
+function lostPieces(pieces: PieceCounts, start: PieceCounts): PieceType[] {
+  let promoted = 0;
+  const lost: PieceType[] = [];
+  for (const type of PIECE_ORDER) {
+    if (type === 'p') continue;
+    promoted += Math.max(0, pieces[type] - start[type]);
+    for (let i = pieces[type]; i < start[type]; i++) lost.push(type);
+  }
+  for (let i = pieces.p + promoted; i < start.p; i++) lost.push('p');
+  return lost;
+}
+
+/**
+ * Material of both sides in a position. `startFen` is the position the game
+ * started from (default: the standard set, the same for every Chess960 start).
+ */
+export function getMaterial(fen: string, startFen: string = STANDARD_FEN): Material {
+  const counts = countPieces(fen);
+  const start = countPieces(startFen);
+
+  const side = (color: Color): MaterialSide => ({
+    pieces: counts[color],
+    points: points(counts[color]),
+    lost: lostPieces(counts[color], start[color]),
+  });
+
+  const imbalance: Record<Color, PieceType[]> = { white: [], black: [] };
+  for (const type of PIECE_ORDER) {
+    const difference = counts.white[type] - counts.black[type];
+    const ahead: Color = difference > 0 ? 'white' : 'black';
+    for (let i = 0; i < Math.abs(difference); i++) imbalance[ahead].push(type);
+  }
+
+  const white = side('white');
+  const black = side('black');
+  return { white, black, diff: white.points - black.points, imbalance };
+}
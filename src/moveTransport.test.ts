@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket as NodeWebSocket, WebSocketServer } from 'ws';
+import { MoveClient, createMemoryTransport, serveMoves, webSocketTransport } from './moveTransport';
+import type { MoveTransport, TransportMove } from './moveTransport';
+
+// Two clients playing through serveMoves over in-memory transports
+function setUp() {
+  const [white, whiteServer] = createMemoryTransport();
+  const [black, blackServer] = createMemoryTransport();
+  const stop = serveMoves([whiteServer, blackServer]);
+  const remote: [TransportMove, number][] = [];
+  const rejected: [number, string | undefined][] = [];
+  const whiteClient = new MoveClient(white, { onReject: (seq, reason) => rejected.push([seq, reason]) });
+  const blackClient = new MoveClient(black, { onRemoteMove: (move, seq) => remote.push([move, seq]) });
+  return { whiteClient, blackClient, remote, rejected, stop };
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('MoveClient with serveMoves', () => {
+  it('confirms a legal move and delivers it to the other client', async () => {
+    const { whiteClient, blackClient, remote } = setUp();
+    await expect(whiteClient.submit({ from: 'e2', to: 'e4' })).resolves.toBe(true);
+    await settle();
+    expect(remote).toEqual([[{ from: 'e2', to: 'e4' }, 0]]);
+    expect(whiteClient.seq).toBe(1);
+    expect(blackClient.seq).toBe(1);
+  });
+
+  it('refuses an illegal move and rewinds the sequence', async () => {
+    const { whiteClient, rejected } = setUp();
+    await expect(whiteClient.submit({ from: 'e2', to: 'e5' })).resolves.toBe(false);
+    expect(rejected).toEqual([[0, 'illegal move']]);
+    expect(whiteClient.seq).toBe(0);
+    await expect(whiteClient.submit({ from: 'e2', to: 'e4' })).resolves.toBe(true);
+  });
+
+  it('refuses a move out of sequence', async () => {
+    const { whiteClient, rejected } = setUp();
+    whiteClient.resync(3);
+    await expect(whiteClient.submit({ from: 'e2', to: 'e4' })).resolves.toBe(false);
+    expect(rejected).toEqual([[3, 'out of sequence']]);
+  });
+
+  it('refuses later moves together with a refused one', async () => {
+    const { whiteClient } = setUp();
+    const first = whiteClient.submit({ from: 'e2', to: 'e5' });
+    const premove = whiteClient.submit({ from: 'g1', to: 'f3' });
+    expect(whiteClient.pendingCount).toBe(2);
+    await expect(first).resolves.toBe(false);
+    await expect(premove).resolves.toBe(false);
+    expect(whiteClient.pendingCount).toBe(0);
+    expect(whiteClient.seq).toBe(0);
+  });
+
+  it('sends only the move on the wire', async () => {
+    const [client, server] = createMemoryTransport();
+    const received: unknown[] = [];
+    server.listen(message => received.push(message));
+    new MoveClient(client).submit({ from: 'e2', to: 'e4', san: 'e4' } as TransportMove, 'fen');
+    await settle();
+    expect(received).toEqual([{ type: 'move', seq: 0, move: { from: 'e2', to: 'e4' }, fen: 'fen' }]);
+  });
+});
+
+describe('MoveClient answers', () => {
+  function server(): [MoveTransport, MoveTransport] {
+    return createMemoryTransport();
+  }
+
+  it('takes an ack as confirmation', async () => {
+    const [client, end] = server();
+    end.listen(message => end.send({ type: 'ack', seq: message.seq }));
+    await expect(new MoveClient(client).submit({ from: 'e2', to: 'e4' })).resolves.toBe(true);
+  });
+
+  it('treats another move at the same ply as a conflict', async () => {
+    const [client, end] = server();
+    const remote: TransportMove[] = [];
+    const reasons: (string | undefined)[] = [];
+    end.listen(message => end.send({ type: 'move', seq: message.seq, move: { from: 'd2', to: 'd4' } }));
+    const moveClient = new MoveClient(client, {
+      onRemoteMove: move => remote.push(move),
+      onReject: (_seq, reason) => reasons.push(reason),
+    });
+    await expect(moveClient.submit({ from: 'e2', to: 'e4' })).resolves.toBe(false);
+    expect(reasons).toEqual(['conflict']);
+    expect(remote).toEqual([{ from: 'd2', to: 'd4' }]);
+    expect(moveClient.seq).toBe(1);
+  });
+
+  describe('timeouts', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('refuses a move without an answer', async () => {
+      vi.useFakeTimers();
+      const [client] = server();
+      const reasons: (string | undefined)[] = [];
+      const answer = new MoveClient(client, { timeout: 1000, onReject: (_seq, reason) => reasons.push(reason) })
+        .submit({ from: 'e2', to: 'e4' });
+      await vi.advanceTimersByTimeAsync(1000);
+      await expect(answer).resolves.toBe(false);
+      expect(reasons).toEqual(['timeout']);
+    });
+  });
+});
+
+describe('webSocketTransport', () => {
+  let server: WebSocketServer | null = null;
+
+  afterEach(() => {
+    server?.close();
+    server = null;
+  });
+
+  it('is confirmed by an echo server', async () => {
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', socket => {
+      socket.on('message', data => {
+        socket.send('not a move message');
+        socket.send(data.toString());
+      });
+    });
+    await new Promise(resolve => server!.once('listening', resolve));
+    const { port } = server.address() as { port: number };
+
+    // Sent before the socket opens: queued until it does
+    const socket = new NodeWebSocket(`ws://127.0.0.1:${port}`);
+    const client = new MoveClient(webSocketTransport(socket as unknown as WebSocket), { timeout: 2000 });
+    await expect(client.submit({ from: 'g1', to: 'f3' })).resolves.toBe(true);
+    expect(client.seq).toBe(1);
+    expect(client.pendingCount).toBe(0);
+    client.close();
+  });
+});
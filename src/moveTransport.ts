@@ -0,0 +1,267 @@
+/**
+ * Move transport - sending moves to an authoritative server
+ *
+ * Moves carry a sequence number, the ply they are played at. The server
+ * confirms a move by broadcasting it back with the same number (or with an
+ * explicit `ack`) and refuses it with `reject`. MoveClient turns that into a
+ * Promise<boolean> per move, which the board's `onMove` can return: the move
+ * shows at once, stays when confirmed and is rolled back when refused.
+ *
+ * ```tsx
+ * const game = useChess960Game({
+ *   playerColor: myColor,
+ *   // The hook reports the opponent's moves too - only our own go to the server
+ *   onMove: move => (move.color === myColor ? client.submit(move, move.fen) : undefined),
+ * });
+ * const client = new MoveClient(webSocketTransport('wss://example.com/game/42'), {
+ *   onRemoteMove: move => game.move(move),
+ * });
+ * <Chess960Board {...game.boardProps} />
+ * ```
+ *
+ * (In a component, create the client in an effect and reach the game through
+ * a ref, as in the README.)
+ *
+ * @packageDocumentation
+ */
+
+import { Chess960, STANDARD_FEN } from './rules';
+import type { PieceType, Square } from './types';
+
+/** A move as sent over the wire; castling is king-onto-rook */
+export interface TransportMove {
+  from: Square;
+  to: Square;
+  promotion?: PieceType;
+}
+
+export type MoveMessage =
+  /** A move played at ply `seq`; from the server it is the confirmation of that ply */
+  | { type: 'move'; seq: number; move: TransportMove; fen?: string }
+  /** The server accepted the move at ply `seq` */
+  | { type: 'ack'; seq: number; fen?: string }
+  /** The server refused the move at ply `seq`; `fen` is the position to return to */
+  | { type: 'reject'; seq: number; reason?: string; fen?: string };
+
+export interface MoveTransport {
+  send(message: MoveMessage): void;
+  /** Receive messages; returns an unsubscribe function */
+  listen(listener: (message: MoveMessage) => void): () => void;
+  close?(): void;
+}
+
+function isMoveMessage(value: unknown): value is MoveMessage {
+  const message = value as MoveMessage | null;
+  return typeof message === 'object' && message !== null
+    && (message.type === 'move' || message.type === 'ack' || message.type === 'reject')
+    && typeof message.seq === 'number';
+}
+
+/**
+ * Two connected in-memory transports: what one sends, the other receives,
+ * asynchronously and after `latency` ms (default: 0).
+ */
+export function createMemoryTransport(options: { latency?: number } = {}): [MoveTransport, MoveTransport] {
+  const listeners: [Set<(message: MoveMessage) => void>, Set<(message: MoveMessage) => void>] = [new Set(), new Set()];
+  const end = (own: 0 | 1): MoveTransport => ({
+    send: message => {
+      // Deliver a copy, as a network would
+      const copy = JSON.parse(JSON.stringify(message)) as MoveMessage;
+      setTimeout(() => listeners[1 - own].forEach(listener => listener(copy)), options.latency ?? 0);
+    },
+    listen: listener => {
+      listeners[own].add(listener);
+      return () => listeners[own].delete(listener);
+    },
+    close: () => listeners[own].clear(),
+  });
+  return [end(0), end(1)];
+}
+
+/**
+ * Transport over a WebSocket, one JSON message per frame. Messages sent
+ * before the socket opens are queued; frames that aren't move messages are
+ * ignored.
+ */
+export function webSocketTransport(socket: WebSocket | string): MoveTransport {
+  const ws = typeof socket === 'string' ? new WebSocket(socket) : socket;
+  const queue: string[] = [];
+  const flush = () => {
+    while (queue.length > 0) ws.send(queue.shift()!);
+  };
+  ws.addEventListener('open', flush);
+
+  return {
+    send: message => {
+      queue.push(JSON.stringify(message));
+      if (ws.readyState === ws.OPEN) flush();
+    },
+    listen: listener => {
+      const handleMessage = (event: MessageEvent) => {
+        if (typeof event.data !== 'string') return;
+        let data: unknown;
+        try {
+          data = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        if (isMoveMessage(data)) listener(data);
+      };
+      ws.addEventListener('message', handleMessage);
+      return () => ws.removeEventListener('message', handleMessage);
+    },
+    close: () => {
+      ws.removeEventListener('open', flush);
+      ws.close();
+    },
+  };
+}
+
+export interface MoveClientOptions {
+  /** Ply of the next move (default: 0) */
+  seq?: number;
+  /** Moves without an answer after this many ms count as refused (default: 10000, 0 to wait forever) */
+  timeout?: number;
+  /** Called with moves from the server that aren't this client's, e.g. the opponent's */
+  onRemoteMove?: (move: TransportMove, seq: number, fen?: string) => void;
+  /** Called when one of this client's moves is refused or times out */
+  onReject?: (seq: number, reason?: string, fen?: string) => void;
+}
+
+interface PendingMove {
+  move: TransportMove;
+  resolve: (accepted: boolean) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+function sameMove(a: TransportMove, b: TransportMove): boolean {
+  return a.from === b.from && a.to === b.to && (a.promotion ?? null) === (b.promotion ?? null);
+}
+
+export class MoveClient {
+  private readonly transport: MoveTransport;
+  private readonly timeout: number;
+  private readonly onRemoteMove?: MoveClientOptions['onRemoteMove'];
+  private readonly onReject?: MoveClientOptions['onReject'];
+  private readonly unlisten: () => void;
+  private readonly pending = new Map<number, PendingMove>();
+  private nextSeq: number;
+
+  constructor(transport: MoveTransport, options: MoveClientOptions = {}) {
+    this.transport = transport;
+    this.timeout = options.timeout ?? 10000;
+    this.onRemoteMove = options.onRemoteMove;
+    this.onReject = options.onReject;
+    this.nextSeq = options.seq ?? 0;
+    this.unlisten = transport.listen(message => this.receive(message));
+  }
+
+  /** Ply the next move is sent at */
+  get seq(): number {
+    return this.nextSeq;
+  }
+
+  /** Moves sent and not yet answered */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Send a move. Resolves true when the server confirms it and false when it
+   * is refused or times out. Moves sent after it (premoves) are refused with it.
+   */
+  submit(move: TransportMove, fen?: string): Promise<boolean> {
+    const seq = this.nextSeq++;
+    return new Promise(resolve => {
+      const timer = this.timeout > 0
+        ? setTimeout(() => this.settle(seq, false, 'timeout'), this.timeout)
+        : null;
+      // Only the move itself goes on the wire, not whatever else the caller's object carries
+      const wire: TransportMove = { from: move.from, to: move.to, ...(move.promotion ? { promotion: move.promotion } : {}) };
+      this.pending.set(seq, { move: wire, resolve, timer });
+      this.transport.send({ type: 'move', seq, move: wire, ...(fen ? { fen } : {}) });
+    });
+  }
+
+  /** Start over at a ply, e.g. after loading a game or reconnecting; unanswered moves are refused */
+  resync(seq: number): void {
+    for (const pendingSeq of Array.from(this.pending.keys())) {
+      this.settle(pendingSeq, false, 'resync');
+    }
+    this.nextSeq = seq;
+  }
+
+  close(): void {
+    this.resync(this.nextSeq);
+    this.unlisten();
+    this.transport.close?.();
+  }
+
+  // Answer a pending move; a refusal also refuses every later move and rewinds the sequence
+  private settle(seq: number, accepted: boolean, reason?: string, fen?: string): void {
+    const pending = this.pending.get(seq);
+    if (!pending) return;
+    if (pending.timer) clearTimeout(pending.timer);
+    this.pending.delete(seq);
+    if (accepted) {
+      pending.resolve(true);
+      return;
+    }
+    for (const later of Array.from(this.pending.keys()).filter(other => other > seq).sort((a, b) => a - b)) {
+      this.settle(later, false, reason, fen);
+    }
+    this.nextSeq = Math.min(this.nextSeq, seq);
+    pending.resolve(false);
+    this.onReject?.(seq, reason, fen);
+  }
+
+  private receive(message: MoveMessage): void {
+    if (message.type === 'ack') {
+      this.settle(message.seq, true);
+    } else if (message.type === 'reject') {
+      this.settle(message.seq, false, message.reason, message.fen);
+    } else {
+      const pending = this.pending.get(message.seq);
+      if (pending && sameMove(pending.move, message.move)) {
+        // Our own move coming back is its confirmation
+        this.settle(message.seq, true);
+        return;
+      }
+      if (pending) {
+        // Another move took this ply
+        this.settle(message.seq, false, 'conflict', message.fen);
+      }
+      if (message.seq >= this.nextSeq) {
+        this.nextSeq = message.seq + 1;
+        this.onRemoteMove?.(message.move, message.seq, message.fen);
+      }
+    }
+  }
+}
+
+/**
+ * A minimal authoritative server over any transports, for tests and local
+ * play: it checks each move's ply and legality, broadcasts accepted moves to
+ * every client (which confirms them to the sender) and refuses the rest.
+ * Returns a function that stops it.
+ */
+export function serveMoves(transports: MoveTransport[], options: { fen?: string } = {}): () => void {
+  const game = new Chess960(options.fen ?? STANDARD_FEN);
+  let ply = 0;
+  const unlisteners = transports.map(transport => transport.listen(message => {
+    if (message.type !== 'move') return;
+    if (message.seq !== ply) {
+      transport.send({ type: 'reject', seq: message.seq, reason: 'out of sequence', fen: game.fen() });
+      return;
+    }
+    const played = game.move(message.move);
+    if (!played) {
+      transport.send({ type: 'reject', seq: message.seq, reason: 'illegal move', fen: game.fen() });
+      return;
+    }
+    ply++;
+    const broadcast: MoveMessage = { type: 'move', seq: message.seq, move: message.move, fen: game.fen() };
+    transports.forEach(client => client.send(broadcast));
+  }));
+  return () => unlisteners.forEach(unlisten => unlisten());
+}
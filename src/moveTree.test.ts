@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { addMove, deleteFrom, deleteVariation, linePaths, moveAtPath, pathPly, previousPath, promoteVariation } from './moveTree';
+import { parsePgn } from './pgn';
+import type { PgnMove } from './pgn';
+
+// e5 carries a variation (c5 Nf3 d6) whose Nf3 carries another (Nc3 Nc6)
+const TREE = parsePgn('1. e4 e5 (1... c5 2. Nf3 (2. Nc3 Nc6) 2... d6) 2. Nf3 *').moves;
+
+const sans = (moves: PgnMove[]) => moves.map(move => move.san);
+const sanAt = (moves: PgnMove[], path: number[]) => moveAtPath(moves, path)?.san;
+
+// A move played after 1. e4
+function reply(san: string): PgnMove {
+  return parsePgn(`1. e4 ${san} *`).moves[1];
+}
+
+describe('move paths', () => {
+  it('address moves in nested variations', () => {
+    expect(sanAt(TREE, [1, 0, 1])).toBe('Nf3');
+    expect(sanAt(TREE, [1, 0, 1, 0, 1])).toBe('Nc6');
+    expect(sanAt(TREE, [1, 1, 0])).toBeUndefined();
+    expect(pathPly([1, 0, 2])).toBe(4);
+  });
+
+  it('step back from the first move of a nested variation to the position it branches from', () => {
+    expect(previousPath([1, 0, 1, 0, 0])).toEqual([1, 0, 0]);
+    expect(previousPath([1, 0, 0])).toEqual([0]);
+    expect(previousPath([0])).toEqual([]);
+  });
+
+  it('list the line through a path', () => {
+    expect(linePaths(TREE, [1, 0, 1, 0, 0])).toEqual([[0], [1, 0, 0], [1, 0, 1, 0, 0], [1, 0, 1, 0, 1]]);
+    expect(linePaths(TREE, [0])).toEqual([[0], [1], [2]]);
+  });
+});
+
+describe('addMove', () => {
+  it('follows the next move or an existing variation', () => {
+    expect(addMove(TREE, [0], reply('e5'))).toEqual({ moves: TREE, path: [1] });
+    expect(addMove(TREE, [0], reply('c5'))).toEqual({ moves: TREE, path: [1, 0, 0] });
+  });
+
+  it('starts a new variation without touching the input', () => {
+    const added = addMove(TREE, [0], reply('d5'));
+    expect(added.path).toEqual([1, 1, 0]);
+    expect(sanAt(added.moves, added.path)).toBe('d5');
+    expect(TREE[1].variations).toHaveLength(1);
+  });
+
+  it('extends the line at its end', () => {
+    const move = parsePgn('1. e4 e5 2. Nf3 Nc6 *').moves[3];
+    const added = addMove(TREE, [2], move);
+    expect(added.path).toEqual([3]);
+    expect(sans(added.moves)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+  });
+});
+
+describe('deleting', () => {
+  it('deletes from a move to the end of its line', () => {
+    const deleted = deleteFrom(TREE, [1, 0, 1]);
+    expect(deleted.path).toEqual([1, 0, 0]);
+    expect(sans(deleted.moves[1].variations![0])).toEqual(['c5']);
+
+    const main = deleteFrom(TREE, [1]);
+    expect(sans(main.moves)).toEqual(['e4']);
+    expect(main.path).toEqual([0]);
+  });
+
+  it('removes a whole variation when its first move is deleted', () => {
+    const deleted = deleteFrom(TREE, [1, 0, 0]);
+    expect(deleted.moves[1].variations).toEqual([]);
+    expect(deleted.path).toEqual([0]);
+  });
+
+  it('deletes the variation containing a path', () => {
+    const deleted = deleteVariation(TREE, [1, 0, 1, 0, 1]);
+    expect(deleted.moves[1].variations![0][1].variations).toEqual([]);
+    expect(deleted.path).toEqual([1, 0, 0]);
+  });
+});
+
+describe('promoteVariation', () => {
+  it('swaps a variation with the moves it replaced and returns the new path of the move', () => {
+    const promoted = promoteVariation(TREE, [1, 0, 2]);
+    expect(sans(promoted.moves)).toEqual(['e4', 'c5', 'Nf3', 'd6']);
+    expect(promoted.path).toEqual([3]);
+    expect(sanAt(promoted.moves, promoted.path)).toBe('d6');
+    expect(sans(promoted.moves[1].variations![0])).toEqual(['e5', 'Nf3']);
+    // The nested variation stays on its move
+    expect(sanAt(promoted.moves, [2, 0, 0])).toBe('Nc3');
+  });
+
+  it('promotes a nested variation one level', () => {
+    const promoted = promoteVariation(TREE, [1, 0, 1, 0, 1]);
+    expect(promoted.path).toEqual([1, 0, 2]);
+    expect(sans(promoted.moves[1].variations![0])).toEqual(['c5', 'Nc3', 'Nc6']);
+    expect(sans(promoted.moves)).toEqual(['e4', 'e5', 'Nf3']);
+  });
+});
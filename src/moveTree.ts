@@ -0,0 +1,186 @@
+/**
+ * Move trees - a main line of moves whose moves carry variations
+ *
+ * A move is addressed by a path of indices: `[3]` is the fourth move of the
+ * main line, `[3, 0, 1]` the second move of the first variation of that move
+ * (variations replace the move they hang from), and so on. The empty path is
+ * the starting position. Every function returns new arrays and leaves its
+ * input untouched, so trees can live in React state.
+ *
+ * @packageDocumentation
+ */
+
+import type { PgnMove } from './pgn';
+
+export type MovePath = number[];
+
+/** The move a path points to, null for the start or a path that doesn't exist */
+export function moveAtPath(moves: PgnMove[], path: MovePath): PgnMove | null {
+  let line = moves;
+  for (let i = 0; i < path.length; i += 2) {
+    const move = line[path[i]];
+    if (!move) return null;
+    if (i === path.length - 1) return move;
+    const variation = move.variations?.[path[i + 1]];
+    if (!variation) return null;
+    line = variation;
+  }
+  return null;
+}
+
+/** Number of moves played to reach the position after the move at a path */
+export function pathPly(path: MovePath): number {
+  if (path.length === 0) return 0;
+  let ply = 1;
+  for (let i = 0; i < path.length; i += 2) {
+    ply += path[i];
+  }
+  return ply;
+}
+
+/** Path of the position before the move at a path (the empty path at the start) */
+export function previousPath(path: MovePath): MovePath {
+  if (path.length === 0) return [];
+  const last = path[path.length - 1];
+  if (last > 0) return [...path.slice(0, -1), last - 1];
+  // First move of a variation: back to the position before the move it replaces
+  return path.length >= 3 ? previousPath(path.slice(0, -2)) : [];
+}
+
+/** Path of the next move along the line, or null at the end of the line */
+export function nextPath(moves: PgnMove[], path: MovePath): MovePath | null {
+  const next = path.length === 0 ? [0] : [...path.slice(0, -1), path[path.length - 1] + 1];
+  return moveAtPath(moves, next) ? next : null;
+}
+
+/** Paths of every move on the line through a path, from the first move to the end of the line */
+export function linePaths(moves: PgnMove[], path: MovePath): MovePath[] {
+  const before: MovePath[] = [];
+  for (let current = path; current.length > 0; current = previousPath(current)) {
+    before.unshift(current);
+  }
+  const after: MovePath[] = [];
+  for (let current = nextPath(moves, path); current; current = nextPath(moves, current)) {
+    after.push(current);
+  }
+  return [...before, ...after];
+}
+
+/** Whether the move at a path is on the main line */
+export function isMainLine(path: MovePath): boolean {
+  return path.length <= 1;
+}
+
+// Replace the line at a line path ([] = main line, [i, v] = variation v of move i, ...)
+function updateLine(moves: PgnMove[], linePath: MovePath, update: (line: PgnMove[]) => PgnMove[]): PgnMove[] {
+  if (linePath.length === 0) return update(moves);
+  const [index, variation, ...rest] = linePath;
+  const move = moves[index];
+  if (!move?.variations?.[variation]) return moves;
+  const variations = move.variations.slice();
+  variations[variation] = updateLine(variations[variation], rest, update);
+  const copy = moves.slice();
+  copy[index] = { ...move, variations };
+  return copy;
+}
+
+/**
+ * Add a move after the position at a path. An existing continuation (or
+ * variation) with the same SAN is reused; otherwise the move extends the line
+ * or starts a new variation. Returns the new tree and the path of the move.
+ */
+export function addMove(moves: PgnMove[], path: MovePath, move: PgnMove): { moves: PgnMove[]; path: MovePath } {
+  const linePath = path.slice(0, -1);
+  const index = path.length === 0 ? 0 : path[path.length - 1] + 1;
+  const line = path.length === 0 ? moves : lineAt(moves, linePath);
+  const next = line[index];
+
+  if (!next) {
+    return { moves: updateLine(moves, linePath, current => [...current, move]), path: [...linePath, index] };
+  }
+  if (next.san === move.san) {
+    return { moves, path: [...linePath, index] };
+  }
+  const existing = next.variations?.findIndex(variation => variation[0]?.san === move.san) ?? -1;
+  if (existing >= 0) {
+    return { moves, path: [...linePath, index, existing, 0] };
+  }
+  const variation = next.variations?.length ?? 0;
+  const updated = updateLine(moves, linePath, current => {
+    const copy = current.slice();
+    copy[index] = { ...next, variations: [...(next.variations ?? []), [move]] };
+    return copy;
+  });
+  return { moves: updated, path: [...linePath, index, variation, 0] };
+}
+
+// The line a line path points to
+function lineAt(moves: PgnMove[], linePath: MovePath): PgnMove[] {
+  let line = moves;
+  for (let i = 0; i < linePath.length; i += 2) {
+    line = line[linePath[i]]?.variations?.[linePath[i + 1]] ?? [];
+  }
+  return line;
+}
+
+/**
+ * Delete the variation containing a path. On the main line this deletes the
+ * move and everything after it. Returns the new tree and the path of the
+ * position the deleted moves started from.
+ */
+export function deleteVariation(moves: PgnMove[], path: MovePath): { moves: PgnMove[]; path: MovePath } {
+  if (path.length === 0) return { moves, path };
+  if (isMainLine(path)) {
+    return { moves: moves.slice(0, path[0]), path: previousPath(path) };
+  }
+  const linePath = path.slice(0, -1);
+  const parentPath = linePath.slice(0, -2);
+  const [index, variation] = linePath.slice(-2);
+  const updated = updateLine(moves, parentPath, line => {
+    const copy = line.slice();
+    const variations = (line[index].variations ?? []).filter((_, i) => i !== variation);
+    copy[index] = { ...line[index], variations };
+    return copy;
+  });
+  return { moves: updated, path: previousPath([...parentPath, index]) };
+}
+
+/**
+ * Delete the move at a path and everything after it on its line (a variation
+ * is removed entirely when its first move is deleted). Returns the new tree
+ * and the path of the position before the deleted move.
+ */
+export function deleteFrom(moves: PgnMove[], path: MovePath): { moves: PgnMove[]; path: MovePath } {
+  if (path.length === 0) return { moves, path };
+  const index = path[path.length - 1];
+  if (index === 0 && !isMainLine(path)) return deleteVariation(moves, path);
+  return {
+    moves: updateLine(moves, path.slice(0, -1), line => line.slice(0, index)),
+    path: previousPath(path),
+  };
+}
+
+/**
+ * Promote the variation containing a path one level: it takes the place of
+ * the moves it was an alternative to, which become its first variation.
+ * Returns the new tree and the new path of the same move.
+ */
+export function promoteVariation(moves: PgnMove[], path: MovePath): { moves: PgnMove[]; path: MovePath } {
+  if (isMainLine(path)) return { moves, path };
+  const linePath = path.slice(0, -1);
+  const parentPath = linePath.slice(0, -2);
+  const [index, variation] = linePath.slice(-2);
+  const promoted = lineAt(moves, linePath);
+
+  const updated = updateLine(moves, parentPath, line => {
+    const replaced = line[index];
+    const others = (replaced.variations ?? []).filter((_, i) => i !== variation);
+    const demoted = [{ ...replaced, variations: undefined }, ...line.slice(index + 1)];
+    const first: PgnMove = {
+      ...promoted[0],
+      variations: [demoted, ...others, ...(promoted[0].variations ?? [])],
+    };
+    return [...line.slice(0, index), first, ...promoted.slice(1)];
+  });
+  return { moves: updated, path: [...parentPath, index + path[path.length - 1]] };
+}
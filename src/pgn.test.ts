@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { makePgn, parsePgn, parsePgnGames } from './pgn';
+
+const CHESS960_GAME = `[Event "Test"]
+[Variant "Chess960"]
+[SetUp "1"]
+[FEN "1r1k2r1/pppppppp/8/8/8/8/PPPPPPPP/1R1K2R1 w GBgb - 0 1"]
+[Result "*"]
+
+1. O-O {A comment} O-O-O $1 (1... O-O 2. Kh1) 2. a3 *`;
+
+describe('PGN', () => {
+  it('reads Chess960 games with castling, comments, NAGs and variations', () => {
+    const game = parsePgn(CHESS960_GAME);
+    expect(game.startFen.split(' ')[0]).toBe('1r1k2r1/pppppppp/8/8/8/8/PPPPPPPP/1R1K2R1');
+    expect(game.moves.map(move => move.san)).toEqual(['O-O', 'O-O-O', 'a3']);
+    expect(game.moves[0]).toMatchObject({ from: 'd1', to: 'g1', castle: { kingTo: 'g1', rookTo: 'f1' } });
+    expect(game.moves[1]).toMatchObject({ from: 'd8', to: 'b8', castle: { kingTo: 'c8', rookTo: 'd8' } });
+    expect(game.moves[0].comment).toBe('A comment');
+    expect(game.moves[1].nags).toEqual([1]);
+    expect(game.moves[1].variations?.[0].map(move => move.san)).toEqual(['O-O', 'Kh1']);
+  });
+
+  it('round-trips through makePgn', () => {
+    const game = parsePgn(CHESS960_GAME);
+    const again = parsePgn(makePgn(game));
+    expect(again.startFen).toBe(game.startFen);
+    expect(again.tags.Variant).toBe('Chess960');
+    expect(again.moves).toEqual(game.moves);
+  });
+
+  it('reads 0-0, promotions without "=" and redundant disambiguation', () => {
+    const castled = parsePgn('1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. 0-0 *');
+    expect(castled.moves[6]).toMatchObject({ san: 'O-O', from: 'e1', to: 'h1' });
+
+    const promoted = parsePgn('[FEN "k7/4P3/8/8/8/8/8/4K3 w - - 0 1"]\n\n1. e8N *');
+    expect(promoted.moves[0]).toMatchObject({ san: 'e8=N', promotion: 'n' });
+
+    const knight = parsePgn('1. Ngf3 *');
+    expect(knight.moves[0]).toMatchObject({ san: 'Nf3', from: 'g1' });
+  });
+
+  it('reads every game of a file', () => {
+    const games = parsePgnGames('[White "A"]\n\n1. e4 1-0\n\n[White "B"]\n\n1. d4 d5 0-1\n');
+    expect(games.map(game => game.tags.White)).toEqual(['A', 'B']);
+    expect(games.map(game => game.result)).toEqual(['1-0', '0-1']);
+    expect(games[1].moves.map(move => move.san)).toEqual(['d4', 'd5']);
+  });
+
+  it('reads and writes escaped quotes in tags', () => {
+    const game = parsePgn('[Event "The \\"Open\\""]\n\n*');
+    expect(game.tags.Event).toBe('The "Open"');
+    expect(makePgn(game)).toContain('[Event "The \\"Open\\""]');
+  });
+
+  it('numbers a game that starts with black to move', () => {
+    const startFen = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+    const pgn = makePgn(parsePgn(`[SetUp "1"]\n[FEN "${startFen}"]\n\n1... e5 2. Nf3 *`));
+    expect(pgn).toContain('\n\n1... e5 2. Nf3 *\n');
+    expect(parsePgn(pgn).moves.map(move => move.san)).toEqual(['e5', 'Nf3']);
+  });
+
+  it('wraps movetext at 80 columns', () => {
+    const shuffle = Array.from({ length: 10 }, (_, i) => `${2 * i + 1}. Nf3 Nf6 ${2 * i + 2}. Ng1 Ng8`);
+    const game = parsePgn(`${shuffle.join(' ')} *`);
+    const movetext = makePgn(game).split('\n\n')[1].trimEnd().split('\n');
+    expect(movetext.length).toBeGreaterThan(1);
+    for (const line of movetext) {
+      expect(line.length).toBeLessThanOrEqual(80);
+    }
+    expect(parsePgn(makePgn(game)).moves).toEqual(game.moves);
+  });
+
+  it('names the illegal move and its number', () => {
+    expect(() => parsePgn('1. e4 e5 2. Ke3 *')).toThrow('Invalid PGN: illegal move "Ke3" at 2.');
+    expect(() => parsePgn('1. e4 Qh4 *')).toThrow('Invalid PGN: illegal move "Qh4" at 1...');
+  });
+
+  it('rejects unbalanced parentheses', () => {
+    expect(() => parsePgn('1. e4 (1. d4 e5 *')).toThrow('Invalid PGN: unterminated variation');
+    expect(() => parsePgn('1. e4 ) e5 *')).toThrow('Invalid PGN: unmatched ")"');
+  });
+});
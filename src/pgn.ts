@@ -0,0 +1,371 @@
+/**
+ * PGN import and export with Chess960 support
+ *
+ * Games that don't start from the standard position carry `[Variant "Chess960"]`,
+ * `[SetUp "1"]` and `[FEN "..."]`. Castling SAN (O-O / O-O-O) is resolved
+ * against the castling rooks of the position, so it works from any starting
+ * file. Comments, NAGs and recursive variations are kept in both directions.
+ *
+ * @packageDocumentation
+ */
+
+import { STANDARD_FEN, applyMove, findLegalMove, legalMoves, makeFen, parseFen } from './rules';
+import type { FenDialect, Move, Position } from './rules';
+import type { PieceType } from './types';
+
+/** Game result in PGN notation ('*' while the game is in progress) */
+export type GameResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+/** Annotations a move can carry in PGN */
+export interface PgnAnnotations {
+  /** Numeric annotation glyphs ($1 = !, $2 = ?, $3 = !!, $4 = ??, $5 = !?, $6 = ?!) */
+  nags?: number[];
+  /** Comment after the move */
+  comment?: string;
+  /** Comment before the move (e.g. at the start of a variation) */
+  startingComment?: string;
+  /** Alternatives to this move, each a line starting from the position before it */
+  variations?: PgnMove[][];
+}
+
+/** A parsed PGN move with its annotations */
+export interface PgnMove extends Move, PgnAnnotations {
+  /** FEN after the move */
+  fen: string;
+}
+
+export interface PgnGame {
+  /** Tag pairs in the order they appeared */
+  tags: Record<string, string>;
+  /** FEN the game starts from (the FEN tag, or the standard position) */
+  startFen: string;
+  /** Main line */
+  moves: PgnMove[];
+  result: GameResult;
+  /** Comment before the first move */
+  comment?: string;
+}
+
+/** What makePgn needs: SAN per move, everything else optional */
+export interface PgnSource {
+  tags?: Record<string, string>;
+  startFen?: string;
+  moves: ReadonlyArray<{ san: string } & PgnAnnotations>;
+  result?: GameResult;
+  comment?: string;
+}
+
+// The seven tag roster, written first and in this order
+const ROSTER: Array<[string, string]> = [
+  ['Event', '?'],
+  ['Site', '?'],
+  ['Date', '????.??.??'],
+  ['Round', '?'],
+  ['White', '?'],
+  ['Black', '?'],
+  ['Result', '*'],
+];
+
+const SUFFIX_NAGS: Record<string, number> = { '!': 1, '?': 2, '!!': 3, '??': 4, '!?': 5, '?!': 6 };
+
+const RESULTS: GameResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+type Token =
+  | { type: 'tag'; name: string; value: string }
+  | { type: 'comment'; text: string }
+  | { type: 'open' | 'close' }
+  | { type: 'nag'; nag: number }
+  | { type: 'result'; result: GameResult }
+  | { type: 'san'; san: string };
+
+const TOKEN = new RegExp([
+  String.raw`\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]`, // 1, 2: tag pair
+  String.raw`\{([^}]*)\}`,                           // 3: brace comment
+  String.raw`;([^\n]*)`,                             // 4: rest-of-line comment
+  String.raw`(^|\n)%[^\n]*`,                         // 5: escape line
+  String.raw`([()])`,                                // 6: variation
+  String.raw`\$(\d+)`,                               // 7: NAG
+  String.raw`(1-0|0-1|1\/2-1\/2|\*)(?=[\s()]|$)`,    // 8: result
+  String.raw`\d+\.+`,                                //    move number
+  String.raw`([!?]{1,2})`,                           // 9: suffix annotation
+  String.raw`([^\s{}();$!?\[\]]+)`,                  // 10: SAN
+].join('|'), 'g');
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN)) {
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'tag', name: match[1], value: match[2].replace(/\\(["\\])/g, '$1') });
+    } else if (match[3] !== undefined || match[4] !== undefined) {
+      tokens.push({ type: 'comment', text: (match[3] ?? match[4]).trim().replace(/\s+/g, ' ') });
+    } else if (match[6] !== undefined) {
+      tokens.push({ type: match[6] === '(' ? 'open' : 'close' });
+    } else if (match[7] !== undefined) {
+      tokens.push({ type: 'nag', nag: Number(match[7]) });
+    } else if (match[8] !== undefined) {
+      tokens.push({ type: 'result', result: match[8] as GameResult });
+    } else if (match[9] !== undefined) {
+      const nag = SUFFIX_NAGS[match[9]];
+      if (nag) tokens.push({ type: 'nag', nag });
+    } else if (match[10] !== undefined) {
+      tokens.push({ type: 'san', san: match[10] });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Find the legal move for a SAN token. Beyond exact SAN this accepts 0-0 for
+ * O-O, a missing "=" before the promotion piece and redundant disambiguation.
+ */
+function resolveSan(position: Position, san: string): Move | null {
+  const legal = legalMoves(position);
+  const exact = findLegalMove(legal, san);
+  if (exact) return exact;
+
+  const parts = /^([NBRQK])?([a-h])?([1-8])?[x:-]?([a-h][1-8])(?:=?([NBRQ]))?[+#]*$/.exec(san);
+  if (!parts) return null;
+  const [, piece, file, rank, to, promotion] = parts;
+  const candidates = legal.filter(move =>
+    !move.castle &&
+    move.to === to &&
+    move.piece === (piece?.toLowerCase() ?? 'p') &&
+    (!file || move.from[0] === file) &&
+    (!rank || move.from[1] === rank) &&
+    (!move.promotion || move.promotion === ((promotion?.toLowerCase() ?? 'q') as PieceType))
+  );
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+// A line being parsed: its moves and the position after the last one
+interface Line {
+  moves: PgnMove[];
+  positions: Position[];
+  pendingComment?: string;
+}
+
+function addComment(existing: string | undefined, text: string): string {
+  return existing ? `${existing} ${text}` : text;
+}
+
+function parseGame(tags: Record<string, string>, tokens: Token[]): PgnGame {
+  const startFen = tags.FEN ?? STANDARD_FEN;
+  let start: Position;
+  try {
+    start = parseFen(startFen);
+  } catch {
+    throw new Error(`Invalid PGN: bad FEN tag "${startFen}"`);
+  }
+
+  const main: Line = { moves: [], positions: [start] };
+  const stack: Line[] = [main];
+  let gameComment: string | undefined;
+  let result = (RESULTS as string[]).includes(tags.Result) ? tags.Result as GameResult : '*';
+
+  for (const token of tokens) {
+    const line = stack[stack.length - 1];
+    const last = line.moves[line.moves.length - 1];
+
+    switch (token.type) {
+      case 'comment':
+        if (last) {
+          last.comment = addComment(last.comment, token.text);
+        } else if (stack.length === 1) {
+          gameComment = addComment(gameComment, token.text);
+        } else {
+          line.pendingComment = addComment(line.pendingComment, token.text);
+        }
+        break;
+      case 'nag':
+        if (last) last.nags = [...(last.nags ?? []), token.nag];
+        break;
+      case 'open': {
+        if (!last) throw new Error('Invalid PGN: variation before any move');
+        // The variation replaces the last move, so it starts from the position before it
+        const variation: Line = { moves: [], positions: [line.positions[line.positions.length - 2]] };
+        last.variations = [...(last.variations ?? []), variation.moves];
+        stack.push(variation);
+        break;
+      }
+      case 'close':
+        if (stack.length === 1) throw new Error('Invalid PGN: unmatched ")"');
+        stack.pop();
+        break;
+      case 'result':
+        result = token.result;
+        break;
+      case 'san': {
+        const position = line.positions[line.positions.length - 1];
+        const move = resolveSan(position, token.san);
+        if (!move) {
+          const number = `${position.fullmoves}${position.turn === 'white' ? '.' : '...'}`;
+          throw new Error(`Invalid PGN: illegal move "${token.san}" at ${number}`);
+        }
+        const next = applyMove(position, move);
+        const pgnMove: PgnMove = { ...move, fen: makeFen(next) };
+        if (line.pendingComment) {
+          pgnMove.startingComment = line.pendingComment;
+          line.pendingComment = undefined;
+        }
+        line.moves.push(pgnMove);
+        line.positions.push(next);
+        break;
+      }
+    }
+  }
+
+  if (stack.length > 1) throw new Error('Invalid PGN: unterminated variation');
+
+  return {
+    tags,
+    startFen: makeFen(start),
+    moves: main.moves,
+    result,
+    ...(gameComment ? { comment: gameComment } : {}),
+  };
+}
+
+/**
+ * Parse every game in a PGN file. Throws on illegal moves or broken
+ * variations, naming the move number.
+ */
+export function parsePgnGames(pgn: string): PgnGame[] {
+  const games: PgnGame[] = [];
+  let tags: Record<string, string> = {};
+  let tokens: Token[] = [];
+  let inMovetext = false;
+
+  const finish = () => {
+    if (inMovetext || Object.keys(tags).length > 0) {
+      games.push(parseGame(tags, tokens));
+    }
+    tags = {};
+    tokens = [];
+    inMovetext = false;
+  };
+
+  for (const token of tokenize(pgn)) {
+    if (token.type === 'tag') {
+      // Tags after movetext start the next game
+      if (inMovetext) finish();
+      tags[token.name] = token.value;
+      continue;
+    }
+    inMovetext = true;
+    tokens.push(token);
+    if (token.type === 'result') finish();
+  }
+  finish();
+
+  return games;
+}
+
+/** Parse a single PGN game (the first one in the text) */
+export function parsePgn(pgn: string): PgnGame {
+  const [game] = parsePgnGames(pgn);
+  if (!game) throw new Error('Invalid PGN: no game found');
+  return game;
+}
+
+function escapeTag(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+// Brace comments cannot contain a closing brace
+function escapeComment(text: string): string {
+  return text.replace(/}/g, '');
+}
+
+// Movetext tokens for a line starting at the given move number and color
+function lineTokens(
+  moves: ReadonlyArray<{ san: string } & PgnAnnotations>,
+  fullmove: number,
+  white: boolean
+): string[] {
+  const tokens: string[] = [];
+  // A black move needs "N..." when it doesn't directly follow white's move
+  let needsNumber = true;
+
+  for (const move of moves) {
+    if (move.startingComment) {
+      tokens.push(`{ ${escapeComment(move.startingComment)} }`);
+      needsNumber = true;
+    }
+    if (white) {
+      tokens.push(`${fullmove}.`);
+    } else if (needsNumber) {
+      tokens.push(`${fullmove}...`);
+    }
+    tokens.push(move.san);
+    needsNumber = false;
+
+    for (const nag of move.nags ?? []) {
+      tokens.push(`$${nag}`);
+    }
+    if (move.comment) {
+      tokens.push(`{ ${escapeComment(move.comment)} }`);
+      needsNumber = true;
+    }
+    for (const variation of move.variations ?? []) {
+      if (variation.length === 0) continue;
+      const inner = lineTokens(variation, fullmove, white);
+      inner[0] = `(${inner[0]}`;
+      inner[inner.length - 1] += ')';
+      tokens.push(...inner);
+      needsNumber = true;
+    }
+
+    if (!white) fullmove++;
+    white = !white;
+  }
+  return tokens;
+}
+
+/**
+ * Write a game as PGN. Games that don't start from the standard position get
+ * SetUp and FEN tags, and Variant "Chess960" unless a Variant tag is given.
+ * Lines are wrapped at 80 characters.
+ */
+export function makePgn(game: PgnSource, options: { dialect?: FenDialect } = {}): string {
+  const result = game.result ?? (game.tags?.Result as GameResult | undefined) ?? '*';
+  const tags: Record<string, string> = {};
+  for (const [name, fallback] of ROSTER) {
+    tags[name] = game.tags?.[name] ?? fallback;
+  }
+  tags.Result = result;
+
+  const start = parseFen(game.startFen ?? STANDARD_FEN);
+  if (makeFen(start) !== STANDARD_FEN) {
+    tags.Variant = game.tags?.Variant ?? 'Chess960';
+    tags.SetUp = '1';
+    tags.FEN = makeFen(start, options);
+  } else if (game.tags?.Variant) {
+    tags.Variant = game.tags.Variant;
+  }
+  for (const [name, value] of Object.entries(game.tags ?? {})) {
+    if (!(name in tags) && name !== 'SetUp' && name !== 'FEN') {
+      tags[name] = value;
+    }
+  }
+
+  const tokens: string[] = [];
+  if (game.comment) tokens.push(`{ ${escapeComment(game.comment)} }`);
+  tokens.push(...lineTokens(game.moves, start.fullmoves, start.turn === 'white'), result);
+
+  // Wrap movetext at 80 characters
+  const lines: string[] = [];
+  let current = '';
+  for (const token of tokens) {
+    const joined = current ? `${current} ${token}` : token;
+    if (joined.length > 80 && current) {
+      lines.push(current);
+      current = token;
+    } else {
+      current = joined;
+    }
+  }
+  if (current) lines.push(current);
+
+  const header = Object.entries(tags).map(([name, value]) => `[${name} "${escapeTag(value)}"]`);
+  return `${header.join('\n')}\n\n${lines.join('\n')}\n`;
+}
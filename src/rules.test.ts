@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { Chess960, STANDARD_FEN, applyMove, convertFen, legalMoves, makeFen, parseFen } from './rules';
+import type { Position } from './rules';
+
+function perft(position: Position, depth: number): number {
+  const moves = legalMoves(position);
+  if (depth === 1) return moves.length;
+  return moves.reduce((nodes, move) => nodes + perft(applyMove(position, move), depth - 1), 0);
+}
+
+describe('perft', () => {
+  // Node counts from the chessprogramming wiki
+  const cases: [string, number[]][] = [
+    [STANDARD_FEN, [20, 400, 8902]],
+    ['r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1', [48, 2039]],
+    ['8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1', [14, 191, 2812]],
+    ['bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9', [21, 528, 12189]],
+    ['2nnrbkr/p1qppppp/8/1ppb4/6PP/3PP3/PPP2P2/BQNNRBKR w HEhe - 1 9', [21, 807, 18002]],
+    ['b1q1rrkb/pppppppp/3nn3/8/P7/1PPP4/4PPPP/BQNNRKRB w GE - 1 9', [20, 479, 10471]],
+  ];
+
+  for (const [fen, counts] of cases) {
+    it(fen, () => {
+      const position = parseFen(fen);
+      counts.forEach((count, i) => expect(perft(position, i + 1)).toBe(count));
+    });
+  }
+});
+
+describe('castling', () => {
+  it('castles king-onto-rook on both sides', () => {
+    const kingside = new Chess960('4k3/8/8/8/8/8/8/1RK4R w KQ - 0 1');
+    expect(kingside.move('O-O')).toMatchObject({ from: 'c1', to: 'h1', castle: { kingTo: 'g1', rookFrom: 'h1', rookTo: 'f1' } });
+    expect(kingside.fen().split(' ')[0]).toBe('4k3/8/8/8/8/8/8/1R3RK1');
+
+    const queenside = new Chess960('4k3/8/8/8/8/8/8/1RK4R w KQ - 0 1');
+    expect(queenside.move('O-O-O')).toMatchObject({ from: 'c1', to: 'b1', castle: { kingTo: 'c1', rookTo: 'd1' } });
+    expect(queenside.fen().split(' ')[0]).toBe('4k3/8/8/8/8/8/8/2KR3R');
+  });
+
+  it('castles when the king already stands on its destination', () => {
+    const game = new Chess960('1r4kr/8/8/8/8/8/8/1R4KR w KQkq - 0 1');
+    expect(game.move({ from: 'g1', to: 'h1' })).toMatchObject({ castle: { kingTo: 'g1', rookTo: 'f1' } });
+    expect(game.fen().split(' ')[0]).toBe('1r4kr/8/8/8/8/8/8/1R3RK1');
+  });
+
+  it('does not castle through check or out of it', () => {
+    expect(new Chess960('4kr2/8/8/8/8/8/8/1RK4R w KQ - 0 1').findMove('O-O')).toBeNull();
+    expect(new Chess960('2r1k3/8/8/8/8/8/8/1RK4R w KQ - 0 1').findMove('O-O-O')).toBeNull();
+  });
+});
+
+describe('FEN', () => {
+  it('round-trips X-FEN and Shredder-FEN', () => {
+    const xfen = 'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w KQkq - 2 9';
+    const shredder = convertFen(xfen, 'shredder');
+    expect(shredder.split(' ')[2]).toBe('HFhf');
+    expect(convertFen(shredder, 'xfen')).toBe(xfen);
+    expect(makeFen(parseFen(xfen))).toBe(xfen);
+    expect(makeFen(parseFen(shredder), { dialect: 'shredder' })).toBe(shredder);
+  });
+
+  it('names an inner castling rook by its file in X-FEN', () => {
+    // Rooks on b1 and d1 on the queenside of the king on e1: castling with d1 can't be Q
+    const fen = '4k3/8/8/8/8/8/8/1R1RK3 w D - 0 1';
+    expect(parseFen(fen).castlingRights.white).toEqual(['d1']);
+    expect(convertFen(fen, 'xfen').split(' ')[2]).toBe('D');
+    expect(convertFen('4k3/8/8/8/8/8/8/1R1RK3 w Q - 0 1', 'shredder').split(' ')[2]).toBe('B');
+  });
+
+  it('drops rights without a rook and rejects unknown letters', () => {
+    expect(parseFen('4k3/8/8/8/8/8/8/4K3 w HA - 0 1').castlingRights.white).toEqual([]);
+    expect(() => parseFen('4k3/8/8/8/8/8/8/R3K2R w KX - 0 1')).toThrow(/castling/);
+  });
+
+  it('rejects ranks without 8 files', () => {
+    expect(() => parseFen('rnbqkbn/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1')).toThrow(/8 files/);
+    expect(() => parseFen('rnbqkbnrr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1')).toThrow(/8 files/);
+    expect(() => parseFen('rnbqkbnr/pppppppp/8p/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1')).toThrow(/8 files/);
+  });
+});
+
+describe('findMove', () => {
+  const game = new Chess960('4k3/8/8/8/8/2n5/3P4/B3K3 w - - 0 1');
+
+  it('reads SAN, UCI and from/to', () => {
+    expect(game.findMove('Bxc3')).toMatchObject({ from: 'a1', to: 'c3', piece: 'b' });
+    expect(game.findMove('dxc3')).toMatchObject({ from: 'd2', to: 'c3', piece: 'p' });
+    expect(game.findMove('a1c3')).toMatchObject({ piece: 'b' });
+    expect(game.findMove({ from: 'd2', to: 'd4' })).toMatchObject({ san: 'd4' });
+  });
+
+  it('does not fold the case of SAN', () => {
+    // No b-pawn: a lower-case "b" is a file, not the bishop
+    expect(game.findMove('bxc3')).toBeNull();
+    expect(game.findMove('DXC3')).toBeNull();
+  });
+});
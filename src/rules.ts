@@ -0,0 +1,975 @@
+/**
+ * Chess960 rules engine - native move generation for Fischer Random Chess
+ *
+ * Castling follows the Chess960 rules: the king and a rook that still carries
+ * castling rights may start on any file of the back rank, and after castling
+ * they always stand on the standard squares (king on c/g, rook on d/f).
+ * Castling moves are represented king-takes-rook (`from` = king, `to` = rook),
+ * which stays unambiguous even when the king already stands on its
+ * destination square.
+ *
+ * @packageDocumentation
+ */
+
+import type { Color, Piece, PieceType, Premove, Square } from './types';
+
+export type CastlingSide = 'kingside' | 'queenside';
+
+export interface CastlingMove {
+  side: CastlingSide;
+  /** Square the king ends up on (c- or g-file) */
+  kingTo: Square;
+  /** Square the castling rook starts on */
+  rookFrom: Square;
+  /** Square the castling rook ends up on (d- or f-file) */
+  rookTo: Square;
+}
+
+export interface Move {
+  /** Square the moving piece starts on (the king for castling) */
+  from: Square;
+  /** Destination square - for castling this is the castling rook's square */
+  to: Square;
+  color: Color;
+  piece: PieceType;
+  captured?: PieceType;
+  promotion?: PieceType;
+  /** Castling details, set for castling moves only */
+  castle?: CastlingMove;
+  /** Square of the pawn removed by an en passant capture */
+  enPassant?: Square;
+  /** Standard algebraic notation (O-O / O-O-O for castling) */
+  san: string;
+  /**
+   * chess.js-compatible flags: 'n' normal, 'b' pawn double push, 'c' capture,
+   * 'e' en passant, 'p' promotion, 'k' kingside castle, 'q' queenside castle
+   */
+  flags: string;
+}
+
+export interface Position {
+  /** 64 squares indexed a1 = 0, h1 = 7, a8 = 56, h8 = 63 */
+  board: (Piece | null)[];
+  turn: Color;
+  /** Squares of the rooks that still carry castling rights, per color */
+  castlingRights: Record<Color, Square[]>;
+  epSquare: Square | null;
+  halfmoves: number;
+  fullmoves: number;
+}
+
+export const STANDARD_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const FILES = 'abcdefgh';
+const PROMOTION_PIECES: PieceType[] = ['q', 'r', 'b', 'n'];
+
+const KNIGHT_STEPS = [[1, 2], [2, 1], [2, -1], [1, -2], [-1, -2], [-2, -1], [-2, 1], [-1, 2]];
+const KING_STEPS = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+const ROOK_DIRECTIONS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const BISHOP_DIRECTIONS = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+export function squareIndex(square: Square): number {
+  if (!/^[a-h][1-8]$/.test(square)) return -1;
+  return (square.charCodeAt(1) - 49) * 8 + (square.charCodeAt(0) - 97);
+}
+
+export function squareName(index: number): Square {
+  return `${FILES[index & 7]}${(index >> 3) + 1}`;
+}
+
+export function oppositeColor(color: Color): Color {
+  return color === 'white' ? 'black' : 'white';
+}
+
+/** Rank index (0-7) of a color's back rank */
+export function backRankIndex(color: Color): number {
+  return color === 'white' ? 0 : 7;
+}
+
+// Step from a square by (file, rank) deltas, -1 if it leaves the board
+function offset(index: number, df: number, dr: number): number {
+  const file = (index & 7) + df;
+  const rank = (index >> 3) + dr;
+  if (file < 0 || file > 7 || rank < 0 || rank > 7) return -1;
+  return rank * 8 + file;
+}
+
+function isPiece(piece: Piece | null | undefined, color: Color, type: PieceType): boolean {
+  return !!piece && piece.color === color && piece.type === type;
+}
+
+/** Find the king of the given color, -1 if there is none */
+export function findKing(board: (Piece | null)[], color: Color): number {
+  return board.findIndex(piece => isPiece(piece, color, 'k'));
+}
+
+/** Whether a square is attacked by any piece of the given color */
+export function isSquareAttacked(board: (Piece | null)[], index: number, by: Color): boolean {
+  // Pawns attack diagonally forward, so look one rank "behind" the target
+  const pawnRank = by === 'white' ? -1 : 1;
+  for (const df of [-1, 1]) {
+    const from = offset(index, df, pawnRank);
+    if (from >= 0 && isPiece(board[from], by, 'p')) return true;
+  }
+
+  for (const [df, dr] of KNIGHT_STEPS) {
+    const from = offset(index, df, dr);
+    if (from >= 0 && isPiece(board[from], by, 'n')) return true;
+  }
+
+  for (const [df, dr] of KING_STEPS) {
+    const from = offset(index, df, dr);
+    if (from >= 0 && isPiece(board[from], by, 'k')) return true;
+  }
+
+  const slides: Array<[number[][], PieceType]> = [[ROOK_DIRECTIONS, 'r'], [BISHOP_DIRECTIONS, 'b']];
+  for (const [directions, slider] of slides) {
+    for (const [df, dr] of directions) {
+      let from = offset(index, df, dr);
+      while (from >= 0) {
+        const piece = board[from];
+        if (piece) {
+          if (piece.color === by && (piece.type === slider || piece.type === 'q')) return true;
+          break;
+        }
+        from = offset(from, df, dr);
+      }
+    }
+  }
+
+  return false;
+}
+
+// Move before SAN is known
+type RawMove = Omit<Move, 'san' | 'flags'>;
+
+function pseudoLegalMoves(position: Position): RawMove[] {
+  const { board, turn } = position;
+  const moves: RawMove[] = [];
+  const epIndex = position.epSquare ? squareIndex(position.epSquare) : -1;
+
+  const add = (from: number, to: number, piece: PieceType, extra: Partial<RawMove> = {}) => {
+    const target = board[to];
+    moves.push({
+      from: squareName(from),
+      to: squareName(to),
+      color: turn,
+      piece,
+      ...(target ? { captured: target.type } : {}),
+      ...extra,
+    });
+  };
+
+  for (let from = 0; from < 64; from++) {
+    const piece = board[from];
+    if (!piece || piece.color !== turn) continue;
+
+    if (piece.type === 'p') {
+      const forward = turn === 'white' ? 1 : -1;
+      const startRank = turn === 'white' ? 1 : 6;
+      const lastRank = turn === 'white' ? 7 : 0;
+      const addPawn = (to: number, extra: Partial<RawMove> = {}) => {
+        if (to >> 3 === lastRank) {
+          PROMOTION_PIECES.forEach(promotion => add(from, to, 'p', { ...extra, promotion }));
+        } else {
+          add(from, to, 'p', extra);
+        }
+      };
+
+      const single = offset(from, 0, forward);
+      if (single >= 0 && !board[single]) {
+        addPawn(single);
+        const double = offset(from, 0, 2 * forward);
+        if (from >> 3 === startRank && double >= 0 && !board[double]) {
+          addPawn(double);
+        }
+      }
+      for (const df of [-1, 1]) {
+        const to = offset(from, df, forward);
+        if (to < 0) continue;
+        const target = board[to];
+        if (target && target.color !== turn) {
+          addPawn(to);
+        } else if (to === epIndex && !target) {
+          const victim = offset(to, 0, -forward);
+          if (isPiece(board[victim], oppositeColor(turn), 'p')) {
+            add(from, to, 'p', { captured: 'p', enPassant: squareName(victim) });
+          }
+        }
+      }
+      continue;
+    }
+
+    if (piece.type === 'n' || piece.type === 'k') {
+      for (const [df, dr] of piece.type === 'n' ? KNIGHT_STEPS : KING_STEPS) {
+        const to = offset(from, df, dr);
+        if (to < 0) continue;
+        const target = board[to];
+        if (!target || target.color !== turn) add(from, to, piece.type);
+      }
+      continue;
+    }
+
+    const directions = piece.type === 'r'
+      ? ROOK_DIRECTIONS
+      : piece.type === 'b'
+        ? BISHOP_DIRECTIONS
+        : [...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS];
+    for (const [df, dr] of directions) {
+      let to = offset(from, df, dr);
+      while (to >= 0) {
+        const target = board[to];
+        if (target) {
+          if (target.color !== turn) add(from, to, piece.type);
+          break;
+        }
+        add(from, to, piece.type);
+        to = offset(to, df, dr);
+      }
+    }
+  }
+
+  return moves;
+}
+
+function castlingMoves(position: Position): RawMove[] {
+  const { board, turn } = position;
+  const rank = backRankIndex(turn);
+  const kingIndex = findKing(board, turn);
+  if (kingIndex < 0 || kingIndex >> 3 !== rank) return [];
+  const opponent = oppositeColor(turn);
+  if (isSquareAttacked(board, kingIndex, opponent)) return [];
+
+  const moves: RawMove[] = [];
+  const kingFile = kingIndex & 7;
+
+  for (const rookSquare of position.castlingRights[turn]) {
+    const rookIndex = squareIndex(rookSquare);
+    if (rookIndex >> 3 !== rank || !isPiece(board[rookIndex], turn, 'r')) continue;
+
+    const rookFile = rookIndex & 7;
+    const side: CastlingSide = rookFile > kingFile ? 'kingside' : 'queenside';
+    const kingToFile = side === 'kingside' ? 6 : 2;
+    const rookToFile = side === 'kingside' ? 5 : 3;
+
+    // Every square the king and rook cross (including their destinations) must be
+    // empty apart from the castling king and rook themselves
+    const low = Math.min(kingFile, kingToFile, rookFile, rookToFile);
+    const high = Math.max(kingFile, kingToFile, rookFile, rookToFile);
+    let blocked = false;
+    for (let file = low; file <= high; file++) {
+      const index = rank * 8 + file;
+      if (index !== kingIndex && index !== rookIndex && board[index]) {
+        blocked = true;
+        break;
+      }
+    }
+    if (blocked) continue;
+
+    // The king may not pass through or land on an attacked square. Check with both
+    // castling pieces lifted so neither can shield a square it is about to leave.
+    const lifted = board.slice();
+    lifted[kingIndex] = null;
+    lifted[rookIndex] = null;
+    const step = kingToFile >= kingFile ? 1 : -1;
+    let attacked = false;
+    for (let file = kingFile; ; file += step) {
+      if (isSquareAttacked(lifted, rank * 8 + file, opponent)) {
+        attacked = true;
+        break;
+      }
+      if (file === kingToFile) break;
+    }
+    if (attacked) continue;
+
+    moves.push({
+      from: squareName(kingIndex),
+      to: rookSquare,
+      color: turn,
+      piece: 'k',
+      castle: {
+        side,
+        kingTo: squareName(rank * 8 + kingToFile),
+        rookFrom: rookSquare,
+        rookTo: squareName(rank * 8 + rookToFile),
+      },
+    });
+  }
+
+  return moves;
+}
+
+/** Apply a move to a position without any legality checks */
+export function applyMove(position: Position, move: Omit<Move, 'san' | 'flags'>): Position {
+  const board = position.board.slice();
+  const from = squareIndex(move.from);
+  const to = squareIndex(move.to);
+  const color = position.turn;
+  const castlingRights: Record<Color, Square[]> = {
+    white: position.castlingRights.white.slice(),
+    black: position.castlingRights.black.slice(),
+  };
+  let epSquare: Square | null = null;
+
+  if (move.castle) {
+    const king = board[from];
+    const rook = board[to];
+    board[from] = null;
+    board[to] = null;
+    board[squareIndex(move.castle.kingTo)] = king;
+    board[squareIndex(move.castle.rookTo)] = rook;
+  } else {
+    const piece = board[from];
+    board[from] = null;
+    if (move.enPassant) {
+      board[squareIndex(move.enPassant)] = null;
+    }
+    board[to] = piece && move.promotion ? { type: move.promotion, color: piece.color } : piece;
+
+    // Only record the en passant square when an enemy pawn could use it
+    if (move.piece === 'p' && Math.abs((to >> 3) - (from >> 3)) === 2) {
+      const opponent = oppositeColor(color);
+      if ([-1, 1].some(df => {
+        const neighbour = offset(to, df, 0);
+        return neighbour >= 0 && isPiece(board[neighbour], opponent, 'p');
+      })) {
+        epSquare = squareName((from + to) / 2);
+      }
+    }
+  }
+
+  // Castling rights are lost when the king moves, or when a rook with rights
+  // leaves its square or is captured there
+  if (move.piece === 'k') {
+    castlingRights[color] = [];
+  }
+  for (const side of ['white', 'black'] as Color[]) {
+    castlingRights[side] = castlingRights[side].filter(square => square !== move.from && square !== move.to);
+  }
+
+  const resetsClock = move.piece === 'p' || (!!move.captured && !move.castle);
+
+  return {
+    board,
+    turn: oppositeColor(color),
+    castlingRights,
+    epSquare,
+    halfmoves: resetsClock ? 0 : position.halfmoves + 1,
+    fullmoves: color === 'black' ? position.fullmoves + 1 : position.fullmoves,
+  };
+}
+
+function leavesKingSafe(position: Position, move: RawMove): boolean {
+  const next = applyMove(position, move);
+  const king = findKing(next.board, position.turn);
+  return king < 0 || !isSquareAttacked(next.board, king, next.turn);
+}
+
+function legalRawMoves(position: Position): RawMove[] {
+  return [...pseudoLegalMoves(position), ...castlingMoves(position)]
+    .filter(move => leavesKingSafe(position, move));
+}
+
+/** Whether the side to move is in check */
+export function isCheck(position: Position): boolean {
+  const king = findKing(position.board, position.turn);
+  return king >= 0 && isSquareAttacked(position.board, king, oppositeColor(position.turn));
+}
+
+function moveFlags(move: RawMove): string {
+  if (move.castle) return move.castle.side === 'kingside' ? 'k' : 'q';
+  let flags = '';
+  if (move.enPassant) flags += 'e';
+  else if (move.captured) flags += 'c';
+  if (move.piece === 'p' && Math.abs(squareIndex(move.to) - squareIndex(move.from)) === 16) flags += 'b';
+  if (move.promotion) flags += 'p';
+  return flags || 'n';
+}
+
+function moveSan(position: Position, move: RawMove, legal: RawMove[]): string {
+  let san: string;
+  if (move.castle) {
+    san = move.castle.side === 'kingside' ? 'O-O' : 'O-O-O';
+  } else if (move.piece === 'p') {
+    san = move.captured ? `${move.from[0]}x${move.to}` : move.to;
+    if (move.promotion) san += `=${move.promotion.toUpperCase()}`;
+  } else {
+    // Disambiguate between identical pieces that can reach the same square
+    const rivals = legal.filter(other =>
+      !other.castle &&
+      other.piece === move.piece &&
+      other.to === move.to &&
+      other.from !== move.from
+    );
+    let disambiguation = '';
+    if (rivals.length > 0) {
+      if (!rivals.some(other => other.from[0] === move.from[0])) {
+        disambiguation = move.from[0];
+      } else if (!rivals.some(other => other.from[1] === move.from[1])) {
+        disambiguation = move.from[1];
+      } else {
+        disambiguation = move.from;
+      }
+    }
+    san = `${move.piece.toUpperCase()}${disambiguation}${move.captured ? 'x' : ''}${move.to}`;
+  }
+
+  const next = applyMove(position, move);
+  if (isCheck(next)) {
+    san += legalRawMoves(next).length === 0 ? '#' : '+';
+  }
+  return san;
+}
+
+/** All legal moves for the side to move, with SAN and flags */
+export function legalMoves(position: Position): Move[] {
+  const legal = legalRawMoves(position);
+  return legal.map(move => ({
+    ...move,
+    san: moveSan(position, move, legal),
+    flags: moveFlags(move),
+  }));
+}
+
+/** Piece letter as used in FEN (uppercase for white) */
+export function pieceToFenChar(piece: Piece): string {
+  return piece.color === 'white' ? piece.type.toUpperCase() : piece.type;
+}
+
+// Outermost rook of a color on one side of its king, -1 if none
+function outermostRook(board: (Piece | null)[], color: Color, kingIndex: number, side: CastlingSide): number {
+  const rank = backRankIndex(color);
+  const kingFile = kingIndex & 7;
+  if (side === 'kingside') {
+    for (let file = 7; file > kingFile; file--) {
+      if (isPiece(board[rank * 8 + file], color, 'r')) return rank * 8 + file;
+    }
+  } else {
+    for (let file = 0; file < kingFile; file++) {
+      if (isPiece(board[rank * 8 + file], color, 'r')) return rank * 8 + file;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse a castling field. Accepts classic/X-FEN letters (KQkq name the outermost
+ * rook on that side of the king) and Shredder-FEN/X-FEN rook files (HAha).
+ */
+function parseCastling(field: string, board: (Piece | null)[]): Record<Color, Square[]> {
+  const rights: Record<Color, Square[]> = { white: [], black: [] };
+  if (field === '-') return rights;
+
+  for (const char of field) {
+    if (!/^[KQA-Hkqa-h]$/.test(char)) {
+      throw new Error(`Invalid castling field: ${field}`);
+    }
+    const color: Color = char === char.toUpperCase() ? 'white' : 'black';
+    const rank = backRankIndex(color);
+    const king = findKing(board, color);
+    if (king < 0 || king >> 3 !== rank) continue;
+
+    const lower = char.toLowerCase();
+    let rook: number;
+    if (lower === 'k') {
+      rook = outermostRook(board, color, king, 'kingside');
+    } else if (lower === 'q') {
+      rook = outermostRook(board, color, king, 'queenside');
+    } else {
+      // Rook file given explicitly - it must hold a rook and not be the king's file
+      rook = rank * 8 + FILES.indexOf(lower);
+      if (rook === king || !isPiece(board[rook], color, 'r')) rook = -1;
+    }
+
+    if (rook >= 0 && !rights[color].includes(squareName(rook))) {
+      rights[color].push(squareName(rook));
+    }
+  }
+
+  return rights;
+}
+
+/**
+ * Castling field notation for FEN output:
+ * - 'xfen': KQkq when the castling rook is the outermost rook on its side,
+ *   the rook's file otherwise (fully compatible with standard FEN)
+ * - 'shredder': always the rook's file (e.g. HAha)
+ */
+export type FenDialect = 'xfen' | 'shredder';
+
+function makeCastling(position: Position, dialect: FenDialect): string {
+  let castling = '';
+  for (const color of ['white', 'black'] as Color[]) {
+    const king = findKing(position.board, color);
+    if (king < 0) continue;
+
+    // Kingside rights first, outermost rooks first - matches the usual KQkq / HAha order
+    const rooks = position.castlingRights[color]
+      .map(squareIndex)
+      .sort((a, b) => b - a);
+    for (const rook of rooks) {
+      const side: CastlingSide = (rook & 7) > (king & 7) ? 'kingside' : 'queenside';
+      let char = FILES[rook & 7];
+      if (dialect === 'xfen' && outermostRook(position.board, color, king, side) === rook) {
+        char = side === 'kingside' ? 'k' : 'q';
+      }
+      castling += color === 'white' ? char.toUpperCase() : char;
+    }
+  }
+  return castling || '-';
+}
+
+/** Parse a FEN string into a position, throwing on malformed input */
+export function parseFen(fen: string): Position {
+  const parts = fen.trim().split(/\s+/);
+  const rows = parts[0]?.split('/') ?? [];
+  if (rows.length !== 8) {
+    throw new Error(`Invalid FEN: expected 8 ranks in "${fen}"`);
+  }
+
+  const board: (Piece | null)[] = Array(64).fill(null);
+  rows.forEach((row, rowIndex) => {
+    const rank = 7 - rowIndex;
+    let file = 0;
+    for (const char of row) {
+      if (/[1-8]/.test(char)) {
+        file += Number(char);
+      } else if (/[prnbqk]/i.test(char)) {
+        if (file > 7) {
+          throw new Error(`Invalid FEN: rank ${rank + 1} does not have 8 files in "${fen}"`);
+        }
+        board[rank * 8 + file] = {
+          type: char.toLowerCase() as PieceType,
+          color: char === char.toUpperCase() ? 'white' : 'black',
+        };
+        file++;
+      } else {
+        throw new Error(`Invalid FEN: unexpected "${char}" in "${fen}"`);
+      }
+    }
+    if (file !== 8) {
+      throw new Error(`Invalid FEN: rank ${rank + 1} does not have 8 files in "${fen}"`);
+    }
+  });
+
+  const turnField = parts[1] ?? 'w';
+  if (turnField !== 'w' && turnField !== 'b') {
+    throw new Error(`Invalid FEN: bad side to move in "${fen}"`);
+  }
+
+  const epField = parts[3] ?? '-';
+  if (epField !== '-' && squareIndex(epField) < 0) {
+    throw new Error(`Invalid FEN: bad en passant square in "${fen}"`);
+  }
+
+  return {
+    board,
+    turn: turnField === 'w' ? 'white' : 'black',
+    castlingRights: parseCastling(parts[2] ?? '-', board),
+    epSquare: epField === '-' ? null : epField,
+    halfmoves: Number(parts[4] ?? 0) || 0,
+    fullmoves: Number(parts[5] ?? 1) || 1,
+  };
+}
+
+/** Serialize a position as FEN, in X-FEN (default) or Shredder-FEN castling notation */
+export function makeFen(position: Position, options: { dialect?: FenDialect } = {}): string {
+  const rows: string[] = [];
+  for (let rank = 7; rank >= 0; rank--) {
+    let row = '';
+    let empty = 0;
+    for (let file = 0; file < 8; file++) {
+      const piece = position.board[rank * 8 + file];
+      if (piece) {
+        if (empty) row += empty;
+        empty = 0;
+        row += pieceToFenChar(piece);
+      } else {
+        empty++;
+      }
+    }
+    if (empty) row += empty;
+    rows.push(row);
+  }
+
+  return [
+    rows.join('/'),
+    position.turn === 'white' ? 'w' : 'b',
+    makeCastling(position, options.dialect ?? 'xfen'),
+    position.epSquare ?? '-',
+    position.halfmoves,
+    position.fullmoves,
+  ].join(' ');
+}
+
+/** Re-serialize any accepted FEN (KQkq, X-FEN or Shredder-FEN) in the given dialect */
+export function convertFen(fen: string, dialect: FenDialect): string {
+  return makeFen(parseFen(fen), { dialect });
+}
+
+/**
+ * Squares that can be the en passant target for the side to move: an enemy pawn
+ * stands where a double push would have left it, with the two squares it
+ * passed over empty
+ */
+export function enPassantSquares(position: Position): Square[] {
+  const color = position.turn;
+  const enemy = oppositeColor(color);
+  // Target rank (6th for white to move), the pawn sits one rank closer to the enemy
+  const targetRank = color === 'white' ? 5 : 2;
+  const pawnRank = color === 'white' ? 4 : 3;
+  const startRank = color === 'white' ? 6 : 1;
+  const squares: Square[] = [];
+  for (let file = 0; file < 8; file++) {
+    if (
+      isPiece(position.board[pawnRank * 8 + file], enemy, 'p') &&
+      !position.board[targetRank * 8 + file] &&
+      !position.board[startRank * 8 + file]
+    ) {
+      squares.push(squareName(targetRank * 8 + file));
+    }
+  }
+  return squares;
+}
+
+/**
+ * Problems that make a position unplayable, as human-readable messages.
+ * An empty list means the position is valid.
+ */
+export function validatePosition(position: Position): string[] {
+  const problems: string[] = [];
+  const name = (color: Color) => color === 'white' ? 'White' : 'Black';
+
+  for (const color of ['white', 'black'] as Color[]) {
+    const pieces = position.board.filter((piece): piece is Piece => piece?.color === color);
+    const kings = pieces.filter(piece => piece.type === 'k').length;
+    if (kings !== 1) {
+      problems.push(`${name(color)} must have exactly one king`);
+    }
+    if (pieces.filter(piece => piece.type === 'p').length > 8) {
+      problems.push(`${name(color)} has more than 8 pawns`);
+    }
+    if (pieces.length > 16) {
+      problems.push(`${name(color)} has more than 16 pieces`);
+    }
+
+    // At most one castling rook on each side of the king
+    const king = findKing(position.board, color);
+    const rooks = position.castlingRights[color].map(squareIndex);
+    const kingside = rooks.filter(rook => (rook & 7) > (king & 7)).length;
+    if (kingside > 1 || rooks.length - kingside > 1) {
+      problems.push(`${name(color)} has two castling rights on the same side`);
+    }
+  }
+
+  if (position.board.some((piece, index) => piece?.type === 'p' && (index < 8 || index >= 56))) {
+    problems.push('Pawns cannot stand on the first or last rank');
+  }
+
+  if (position.epSquare && !enPassantSquares(position).includes(position.epSquare)) {
+    problems.push(`${position.epSquare} is not a possible en passant square`);
+  }
+
+  // Only meaningful once both kings are in place
+  if (problems.length === 0) {
+    const waiting = oppositeColor(position.turn);
+    if (isSquareAttacked(position.board, findKing(position.board, waiting), position.turn)) {
+      problems.push(`${name(waiting)} is in check but it is ${name(position.turn)}'s turn`);
+    }
+  }
+
+  return problems;
+}
+
+/** A move as SAN, UCI or a from/to object */
+export type MoveInput = string | { from: Square; to: Square; promotion?: PieceType };
+
+/**
+ * Find the move in a list of legal moves matching the given input.
+ * Accepts SAN ("Nf3", "O-O"), UCI ("e2e4", "e1h1") or a from/to object.
+ * A king move onto its own castling square is resolved as castling only when
+ * no ordinary king move reaches that square.
+ */
+export function findLegalMove(legal: Move[], input: MoveInput): Move | null {
+  if (typeof input === 'string') {
+    const text = input.trim();
+    const uci = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/i.exec(text);
+    if (uci) {
+      return findLegalMove(legal, {
+        from: uci[1].toLowerCase(),
+        to: uci[2].toLowerCase(),
+        promotion: uci[3]?.toLowerCase() as PieceType | undefined,
+      });
+    }
+    const normalize = (san: string) => san.replace(/[+#!?]/g, '').replace(/0/g, 'O');
+    const target = normalize(text);
+    return legal.find(move => normalize(move.san) === target) ?? null;
+  }
+
+  const candidates = legal.filter(move => move.from === input.from);
+  const promotion = input.promotion ?? 'q';
+  const direct = candidates.filter(move => move.to === input.to);
+  if (direct.length > 0) {
+    return direct.find(move => !move.promotion || move.promotion === promotion) ?? null;
+  }
+  return candidates.find(move => move.castle?.kingTo === input.to) ?? null;
+}
+
+/**
+ * Destination squares of a list of moves. Castling contributes both the rook's
+ * square and the king's final square (unless the king is already there).
+ */
+export function moveDests(moves: Move[]): Square[] {
+  const dests = new Set<Square>();
+  for (const move of moves) {
+    dests.add(move.to);
+    if (move.castle && move.castle.kingTo !== move.from) {
+      dests.add(move.castle.kingTo);
+    }
+  }
+  return Array.from(dests);
+}
+
+/**
+ * Squares the piece on a square could be premoved to. Only its own pieces get
+ * in the way: opponent pieces may have moved (or be captured) by the time the
+ * premove is played, so sliders look through them and pawns may always capture
+ * diagonally. Castling is offered while the rights last, by both the rook's
+ * square and the king's final square. Checks are ignored - the premove is
+ * validated when it is played.
+ */
+export function premoveDests(position: Position, square: Square): Square[] {
+  const { board } = position;
+  const from = squareIndex(square);
+  const piece = board[from];
+  if (!piece) return [];
+  const { color } = piece;
+  const isOwn = (index: number) => board[index]?.color === color;
+  const dests = new Set<number>();
+
+  if (piece.type === 'p') {
+    const forward = color === 'white' ? 1 : -1;
+    const single = offset(from, 0, forward);
+    if (single >= 0 && !isOwn(single)) {
+      dests.add(single);
+      const double = offset(from, 0, 2 * forward);
+      if (from >> 3 === (color === 'white' ? 1 : 6) && double >= 0 && !isOwn(double)) {
+        dests.add(double);
+      }
+    }
+    for (const df of [-1, 1]) {
+      const to = offset(from, df, forward);
+      if (to >= 0 && !isOwn(to)) dests.add(to);
+    }
+  } else if (piece.type === 'n' || piece.type === 'k') {
+    for (const [df, dr] of piece.type === 'n' ? KNIGHT_STEPS : KING_STEPS) {
+      const to = offset(from, df, dr);
+      if (to >= 0 && !isOwn(to)) dests.add(to);
+    }
+  } else {
+    const directions = piece.type === 'r'
+      ? ROOK_DIRECTIONS
+      : piece.type === 'b'
+        ? BISHOP_DIRECTIONS
+        : [...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS];
+    for (const [df, dr] of directions) {
+      let to = offset(from, df, dr);
+      while (to >= 0 && !isOwn(to)) {
+        dests.add(to);
+        to = offset(to, df, dr);
+      }
+    }
+  }
+
+  if (piece.type === 'k' && from >> 3 === backRankIndex(color)) {
+    for (const castle of premoveCastles(position, from)) {
+      dests.add(squareIndex(castle.rookFrom));
+      dests.add(squareIndex(castle.kingTo));
+    }
+    dests.delete(from);
+  }
+
+  return Array.from(dests).map(squareName);
+}
+
+// Castlings a king could premove: rook still there and no own piece in the way
+function premoveCastles(position: Position, kingIndex: number): CastlingMove[] {
+  const { board } = position;
+  const king = board[kingIndex];
+  if (!king) return [];
+  const rank = kingIndex >> 3;
+  const kingFile = kingIndex & 7;
+  const castles: CastlingMove[] = [];
+
+  for (const rookSquare of position.castlingRights[king.color]) {
+    const rookIndex = squareIndex(rookSquare);
+    if (rookIndex >> 3 !== rank || !isPiece(board[rookIndex], king.color, 'r')) continue;
+
+    const rookFile = rookIndex & 7;
+    const side: CastlingSide = rookFile > kingFile ? 'kingside' : 'queenside';
+    const kingToFile = side === 'kingside' ? 6 : 2;
+    const rookToFile = side === 'kingside' ? 5 : 3;
+    const low = Math.min(kingFile, kingToFile, rookFile, rookToFile);
+    const high = Math.max(kingFile, kingToFile, rookFile, rookToFile);
+    let blocked = false;
+    for (let file = low; file <= high; file++) {
+      const index = rank * 8 + file;
+      if (index !== kingIndex && index !== rookIndex && board[index]?.color === king.color) {
+        blocked = true;
+        break;
+      }
+    }
+    if (blocked) continue;
+
+    castles.push({
+      side,
+      kingTo: squareName(rank * 8 + kingToFile),
+      rookFrom: rookSquare,
+      rookTo: squareName(rank * 8 + rookToFile),
+    });
+  }
+
+  return castles;
+}
+
+/**
+ * Project queued premoves onto a position (the "ghost" board): each one is
+ * played for its own piece without legality checks. A king landing on its
+ * castling rook, or two or more files away on its castling square, castles;
+ * pawns reaching the last rank promote to the chosen piece (queen by default).
+ * The side to move and the move counters are left as they were.
+ */
+export function premovePosition(position: Position, premoves: Premove[]): Position {
+  return premoves.reduce((current, premove) => {
+    const from = squareIndex(premove.from);
+    const to = squareIndex(premove.to);
+    const piece = current.board[from];
+    if (!piece || from === to) return current;
+
+    let castle: CastlingMove | undefined;
+    if (piece.type === 'k' && from >> 3 === backRankIndex(piece.color)) {
+      castle = premoveCastles(current, from).find(candidate =>
+        candidate.rookFrom === premove.to ||
+        (candidate.kingTo === premove.to && Math.abs((to & 7) - (from & 7)) > 1)
+      );
+    }
+    const lastRank = piece.color === 'white' ? 7 : 0;
+    const promotion = piece.type === 'p' && to >> 3 === lastRank ? premove.promotion ?? 'q' : undefined;
+    const target = current.board[to];
+
+    const next = applyMove({ ...current, turn: piece.color }, {
+      from: premove.from,
+      to: castle ? castle.rookFrom : premove.to,
+      color: piece.color,
+      piece: piece.type,
+      ...(target && !castle ? { captured: target.type } : {}),
+      ...(promotion ? { promotion } : {}),
+      ...(castle ? { castle } : {}),
+    });
+    return {
+      ...next,
+      turn: current.turn,
+      epSquare: null,
+      halfmoves: current.halfmoves,
+      fullmoves: current.fullmoves,
+    };
+  }, position);
+}
+
+/**
+ * Stateful game object with a chess.js-like API, backed by the native
+ * Chess960 move generator
+ */
+export class Chess960 {
+  private position: Position;
+  private cachedMoves: Move[] | null = null;
+
+  constructor(fen: string = STANDARD_FEN) {
+    this.position = parseFen(fen);
+  }
+
+  /** Load a new position, throwing on malformed FEN */
+  load(fen: string): void {
+    this.position = parseFen(fen);
+    this.cachedMoves = null;
+  }
+
+  /** Reset to the standard starting position */
+  reset(): void {
+    this.load(STANDARD_FEN);
+  }
+
+  fen(options: { dialect?: FenDialect } = {}): string {
+    return makeFen(this.position, options);
+  }
+
+  turn(): Color {
+    return this.position.turn;
+  }
+
+  /** Snapshot of the underlying position */
+  getPosition(): Position {
+    return this.position;
+  }
+
+  /** Board as rows from rank 8 down to rank 1 (same layout as chess.js) */
+  board(): (Piece | null)[][] {
+    return Array.from({ length: 8 }, (_, row) =>
+      this.position.board.slice((7 - row) * 8, (8 - row) * 8)
+    );
+  }
+
+  get(square: Square): Piece | null {
+    const index = squareIndex(square);
+    return index >= 0 ? this.position.board[index] : null;
+  }
+
+  /** Legal moves, optionally restricted to a single origin square */
+  moves(options: { square?: Square } = {}): Move[] {
+    if (!this.cachedMoves) {
+      this.cachedMoves = legalMoves(this.position);
+    }
+    return options.square
+      ? this.cachedMoves.filter(move => move.from === options.square)
+      : this.cachedMoves;
+  }
+
+  /** Destination squares for a piece (see moveDests) */
+  dests(square: Square): Square[] {
+    return moveDests(this.moves({ square }));
+  }
+
+  /**
+   * Find the legal move matching the given input without playing it
+   * (see findLegalMove for the accepted notations)
+   */
+  findMove(input: MoveInput): Move | null {
+    return findLegalMove(this.moves(), input);
+  }
+
+  /** Squares of the rooks that still carry castling rights, for both colors */
+  castlingRooks(): Square[] {
+    return [...this.position.castlingRights.white, ...this.position.castlingRights.black];
+  }
+
+  /** Play a move, returning it, or null if it is not legal */
+  move(input: MoveInput): Move | null {
+    const move = this.findMove(input);
+    if (!move) return null;
+    this.position = applyMove(this.position, move);
+    this.cachedMoves = null;
+    return move;
+  }
+
+  inCheck(): boolean {
+    return isCheck(this.position);
+  }
+
+  isCheckmate(): boolean {
+    return this.inCheck() && this.moves().length === 0;
+  }
+
+  isStalemate(): boolean {
+    return !this.inCheck() && this.moves().length === 0;
+  }
+}
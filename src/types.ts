@@ -2,6 +2,15 @@
  * Type definitions for Chess960Board component
  */
 
+import type { CSSProperties } from 'react';
+import type { RulesFactory } from './adapters';
+import type { GameEnd } from './gameEnd';
+import type { FenDialect, MoveInput } from './rules';
+import type { PgnMove } from './pgn';
+import type { MovePath } from './moveTree';
+import type { EngineInfo, EngineScore } from './uci';
+import type { BroadcastConnection } from './broadcast';
+
 export type Square = string;
 export type Color = 'white' | 'black';
 export type PieceType = 'p' | 'r' | 'n' | 'b' | 'q' | 'k';
@@ -26,15 +35,59 @@ export interface Arrow {
   color?: string;
 }
 
+/** A badge on a square, e.g. a move assessment glyph on the destination of the last move */
+export interface SquareGlyph {
+  square: Square;
+  /** Text of the badge, e.g. '??' */
+  glyph: string;
+  /** Badge color (default: grey) */
+  color?: string;
+}
+
+/**
+ * Ways a player can enter a castling move:
+ * - 'kingOntoRook': drag or click the king onto its own rook
+ * - 'kingToSquare': move the king to its final square (c- or g-file)
+ * - 'rookClick': click the rook
+ */
+export type CastlingInputMethod = 'kingOntoRook' | 'kingToSquare' | 'rookClick';
+
+/** A move queued while the opponent is to move, played when the turn comes back */
+export interface Premove {
+  from: Square;
+  to: Square;
+  /** Promotion piece, chosen when the premove was made */
+  promotion?: PieceType;
+}
+
+/**
+ * Controls who may move and who decides legality. With `dests` the parent is
+ * the authority (e.g. a game server): the board shows and accepts exactly
+ * those destinations and never second-guesses them with its rules adapter.
+ */
+export interface MovableConfig {
+  /** Color(s) the user may move (default: currentPlayerColor, or 'both' when that is unset) */
+  color?: Color | 'both';
+  /** Legal destinations per origin square; squares without an entry cannot move */
+  dests?: Map<Square, Square[]>;
+  /** Let pieces of the movable color(s) go to any square, ignoring turn and legality (default: false) */
+  free?: boolean;
+}
+
 export interface Chess960BoardProps {
-  /** FEN string representing the current position */
+  /** FEN string representing the current position (castling field as KQkq, X-FEN or Shredder-FEN) */
   fen?: string;
   /** Board orientation - 'white' shows white at bottom, 'black' shows black at bottom */
   orientation?: Color;
   /** Board width in pixels (board is always square) */
   width?: number;
-  /** Callback when a move is attempted (from, to squares) */
-  onMove?: (from: Square, to: Square, promotion?: PieceType) => void;
+  /**
+   * Callback when a move is attempted (from, to squares). Return a boolean
+   * or a Promise to decide the move yourself, e.g. after the server answers:
+   * the move shows at once, stays on true and is rolled back (animated) on
+   * false or a rejected Promise. Without a return value the next `fen` decides.
+   */
+  onMove?: (from: Square, to: Square, promotion?: PieceType) => void | boolean | Promise<boolean | void>;
   /** If true, board is read-only and moves are disabled */
   readOnly?: boolean;
   /** If true, shows file (a-h) and rank (1-8) labels */
@@ -47,28 +100,66 @@ export interface Chess960BoardProps {
   piecesBaseUrl?: string;
   /** Last move squares to highlight (from, to) */
   lastMove?: [Square, Square] | null;
+  /** Move that led to `fen` (SAN, UCI or from/to), used to animate it; without it the move is worked out from the position change */
+  moveHint?: MoveInput | null;
   /** Square that is currently selected */
   selectedSquare?: Square | null;
   /** Legal moves from selected square (array of target squares) */
   legalMoves?: Square[];
   /** Current player color (for turn validation) */
   currentPlayerColor?: Color;
+  /** Movable configuration: controlled destinations, movable color(s) and free mode */
+  movable?: MovableConfig;
+  /** Called with the new FEN after a free mode edit (piece moved or dragged off the board) */
+  onPositionChange?: (fen: string) => void;
   /** Arrows to display on the board */
   arrows?: Arrow[];
   /** Callback when arrows change (for arrow drawing) */
   onArrowsChange?: (arrows: Arrow[]) => void;
+  /** Engine lines, one per MultiPV rank; each line's first move is drawn as an arrow, bolder for better ranks */
+  engineLines?: EngineInfo[];
+  /** Most engine lines drawn as arrows (default: all) */
+  engineArrowCount?: number;
+  /** Color of the engine arrows (default: 'rgba(21, 120, 27, 0.9)') */
+  engineArrowColor?: string;
+  /** Show this many moves of the best line as numbered ghost arrows (default: 0) */
+  pvPreview?: number;
+  /** Badges to show on squares, such as review glyphs on the last move's destination */
+  glyphs?: SquareGlyph[];
   /** Enable premove support (allow moves when not player's turn) */
   enablePremove?: boolean;
-  /** Callback for promotion piece selection */
+  /** Called when a premove is queued (several can be chained) */
+  onPremoveSet?: (from: Square, to: Square, promotion?: PieceType) => void;
+  /** Called when queued premoves are dropped: cancelled with a right click, or no longer legal when due */
+  onPremoveCancel?: () => void;
+  /** Callback for promotion piece selection (also reported to onMove as `promotion`) */
   onPromotionSelect?: (piece: PieceType) => void;
+  /** Promote to a queen without asking: 'always', only for 'premove's (default), or 'never' */
+  autoQueen?: 'always' | 'premove' | 'never';
   /** Animation duration in milliseconds (0 to disable animations) */
   animationDuration?: number;
+  /** CSS easing of piece animations (default: 'ease-in-out') */
+  animationEasing?: string;
+  /** Animate jumps of several moves (history navigation, resets) by sliding every relocated piece to its new square (default: false) */
+  animateJumps?: boolean;
+  /** Rotate the board into place when `orientation` changes (default: false) */
+  animateOrientation?: boolean;
   /** Show all legal destination squares when a piece is selected (default: true) */
   showDestinations?: boolean;
   /** Snap arrow end to nearest valid move square when drawing (default: true) */
   snapToValidMoves?: boolean;
   /** Enable castling by clicking the rook (default: true) */
   rookCastle?: boolean;
+  /** Accepted castling input conventions (default: all three) */
+  castlingInput?: CastlingInputMethod[];
+  /** Resolves a king move that could be either an ordinary move or castling: 'ask' shows a chooser (default), 'move' or 'castle' decide automatically */
+  castlingAmbiguity?: 'ask' | 'move' | 'castle';
+  /** Show a small badge on rooks that still carry castling rights (default: false) */
+  showCastlingRights?: boolean;
+  /** Preview the castled king and rook while hovering a castling target (default: true) */
+  showCastlePreview?: boolean;
+  /** Rules adapter factory (default: built-in Chess960 engine; see createChessJsRules for chess.js) */
+  rules?: RulesFactory;
   /** Touch ignore radius in squares (default: 0, set to 1 to ignore touches near square boundaries) */
   touchIgnoreRadius?: number;
   /** Enable keyboard move input (default: false) */
@@ -100,5 +191,138 @@ export interface Chess960BoardProps {
   onResize?: (width: number) => void;
   /** Erase arrows when clicking on them (default: false) */
   eraseArrowsOnClick?: boolean;
+  /** FENs of the game's earlier positions, oldest first, for threefold repetition detection */
+  previousFens?: string[];
+  /** Game end decided outside the board (time out, resignation, agreed draw); takes precedence over detection */
+  gameEnd?: GameEnd | null;
+  /** Called once when the game ends, with the result and its reason */
+  onGameEnd?: (end: GameEnd) => void;
+  /** Show the result over the board and badges on both kings when the game ends (default: false) */
+  showGameEndOverlay?: boolean;
+}
+
+export interface Chess960BoardEditorProps {
+  /** Position to edit (default: standard starting position); a new value replaces the current edit */
+  fen?: string;
+  /** Called after every edit with the new FEN and its validation problems (empty when valid) */
+  onChange?: (fen: string, problems: string[]) => void;
+  /** Initial board orientation (default: 'white') */
+  orientation?: Color;
+  /** Board width in pixels (default: 400) */
+  width?: number;
+  /** Castling notation of the FEN output (default: 'xfen') */
+  dialect?: FenDialect;
+  /** Custom board theme colors */
+  theme?: BoardTheme;
+  /** Custom piece set configuration */
+  pieceSet?: PieceSet;
+  /** Base URL for piece images (default: '/pieces') */
+  piecesBaseUrl?: string;
+  /** If true, shows file (a-h) and rank (1-8) labels (default: true) */
+  showCoordinates?: boolean;
 }
 
+export interface MoveListProps {
+  /** Main line of the game; variations hang off its moves */
+  moves: PgnMove[];
+  /** Starting position, used for move numbers (default: standard starting position) */
+  startFen?: string;
+  /** Path of the move being shown ([] = starting position) */
+  currentPath: MovePath;
+  /** Called when a move is clicked or the keyboard steps through the moves */
+  onSelect: (path: MovePath) => void;
+  /** Called with the current path to promote its variation; the action is hidden when omitted */
+  onPromoteVariation?: (path: MovePath) => void;
+  /** Called with the current path to delete its variation; the action is hidden when omitted */
+  onDeleteVariation?: (path: MovePath) => void;
+  /** Navigate with ←/→/Home/End while focus is not in a text field (default: true) */
+  enableKeyboard?: boolean;
+  /** Height of the scrolling move area in pixels (default: grows with the moves) */
+  height?: number;
+  /** Custom CSS class name */
+  className?: string;
+  /** Custom inline styles */
+  style?: CSSProperties;
+}
+
+export interface ClockProps {
+  /** Remaining time in milliseconds */
+  time: number;
+  /** Side the clock belongs to */
+  color: Color;
+  /** This side's clock is running */
+  running?: boolean;
+  /** The clock is paused */
+  paused?: boolean;
+  /** This side ran out of time */
+  flagged?: boolean;
+  /** Share (0-1) of the move's delay still left, shown as a bar */
+  delay?: number;
+  /** Below this time (ms) the clock shows as low (default: 20000) */
+  lowTime?: number;
+  /** Show tenths of a second below this time (ms) (default: 10000) */
+  tenthsBelow?: number;
+  /** Called when the clock is tapped (over-the-board play) */
+  onPress?: () => void;
+  /** Custom CSS class name */
+  className?: string;
+  /** Custom inline styles */
+  style?: CSSProperties;
+}
+
+export interface BroadcastStatusProps {
+  /** Received moves the viewer hasn't seen yet */
+  behind: number;
+  /** The view follows the broadcast by itself (default: true) */
+  following?: boolean;
+  /** Connection of the feed; 'disconnected' replaces the live badge (default: 'connected') */
+  connection?: BroadcastConnection;
+  /** Called by the "go live" action; the action is hidden when omitted */
+  onGoLive?: () => void;
+  /** Custom CSS class name */
+  className?: string;
+  /** Custom inline styles */
+  style?: CSSProperties;
+}
+
+export interface CapturedPiecesProps {
+  /** Current position */
+  fen: string;
+  /** Position the game started from (default: the standard set, the same for every Chess960 start) */
+  startFen?: string;
+  /** Side whose captures are shown - the opponent's pieces it has taken */
+  color: Color;
+  /** Only show captures not matched by the opponent's, i.e. the material imbalance (default: false) */
+  imbalanceOnly?: boolean;
+  /** Show the point lead after the pieces when this side is ahead (default: true) */
+  showDiff?: boolean;
+  /** Piece set for the piece images, as passed to the board */
+  pieceSet?: PieceSet;
+  /** Base URL for piece images, as passed to the board (default: '/pieces') */
+  piecesBaseUrl?: string;
+  /** Piece image size in pixels (default: 20) */
+  pieceSize?: number;
+  /** Custom CSS class name */
+  className?: string;
+  /** Custom inline styles */
+  style?: CSSProperties;
+}
+
+export interface EvalBarProps {
+  /** Evaluation from White's point of view (e.g. `AnalysisInfo.whiteScore`); null shows an even bar */
+  score: EngineScore | null;
+  /** Side at the bottom, matching the board (default: 'white') */
+  orientation?: Color;
+  /** Bar height in pixels, usually the board width (default: 400) */
+  height?: number;
+  /** Bar width in pixels (default: 24) */
+  width?: number;
+  /** Show the score as text (default: true) */
+  showLabel?: boolean;
+  /** Duration of the bar's movement in milliseconds (default: 300) */
+  animationDuration?: number;
+  /** Custom CSS class name */
+  className?: string;
+  /** Custom inline styles */
+  style?: CSSProperties;
+}
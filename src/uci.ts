@@ -0,0 +1,214 @@
+/**
+ * UCI protocol - parsing engine output and converting moves
+ *
+ * With `UCI_Chess960` on, engines write castling king-takes-rook (`e1h1`),
+ * the same form the rules engine uses, so castling is unambiguous from any
+ * starting file. Engines without Chess960 write the king's two-square step
+ * (`e1g1`); both forms are read back into a legal Move.
+ *
+ * @packageDocumentation
+ */
+
+import { applyMove, convertFen, findLegalMove, legalMoves, parseFen } from './rules';
+import type { Move, MoveInput, Position } from './rules';
+import type { Color } from './types';
+
+export interface EngineScore {
+  /** Centipawns, or moves to mate (negative: getting mated) */
+  unit: 'cp' | 'mate';
+  value: number;
+  /** The score is only a bound of the true score */
+  bound?: 'lower' | 'upper';
+  /**
+   * Side that is checkmated, for mate 0 from White's point of view (see
+   * whiteScore). A mate 0 without it is the side to move's own score: mated.
+   */
+  mated?: Color;
+}
+
+/** One `info` line of a search */
+export interface EngineInfo {
+  depth?: number;
+  seldepth?: number;
+  /** Rank of the line with MultiPV (1 = best) */
+  multipv: number;
+  /** Score from the point of view of the side to move, as the engine reports it */
+  score?: EngineScore;
+  nodes?: number;
+  nps?: number;
+  /** Search time in ms */
+  time?: number;
+  hashfull?: number;
+  /** Principal variation in UCI notation */
+  pv: string[];
+  /** Free text after `info string` */
+  string?: string;
+}
+
+export interface BestMove {
+  /** Best move in UCI notation, null if the engine has no move (mate or stalemate) */
+  move: string | null;
+  /** Move the engine expects in reply */
+  ponder: string | null;
+}
+
+/** Limits for `go`; times in ms. Without any limit the search is infinite. */
+export interface SearchLimits {
+  depth?: number;
+  nodes?: number;
+  movetime?: number;
+  /** Search for a mate in this many moves */
+  mate?: number;
+  wtime?: number;
+  btime?: number;
+  winc?: number;
+  binc?: number;
+  movestogo?: number;
+  /** Only search these moves (UCI notation) */
+  searchmoves?: string[];
+  infinite?: boolean;
+}
+
+/** An engine option announced in reply to `uci` */
+export interface EngineOption {
+  name: string;
+  type: 'check' | 'spin' | 'combo' | 'button' | 'string';
+  default?: string;
+  min?: number;
+  max?: number;
+  vars?: string[];
+}
+
+const NUMBER_FIELDS = ['depth', 'seldepth', 'multipv', 'nodes', 'nps', 'time', 'hashfull'] as const;
+
+/** Parse an `info` line; null for any other line */
+export function parseInfo(line: string): EngineInfo | null {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'info') return null;
+
+  const info: EngineInfo = { multipv: 1, pv: [] };
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    if ((NUMBER_FIELDS as readonly string[]).includes(token)) {
+      info[token as typeof NUMBER_FIELDS[number]] = Number(tokens[++i]);
+    } else if (token === 'score') {
+      const unit = tokens[++i];
+      if (unit !== 'cp' && unit !== 'mate') continue;
+      info.score = { unit, value: Number(tokens[++i]) };
+      const bound = tokens[i + 1];
+      if (bound === 'lowerbound' || bound === 'upperbound') {
+        info.score.bound = bound === 'lowerbound' ? 'lower' : 'upper';
+        i++;
+      }
+    } else if (token === 'pv') {
+      // The PV is usually last, but stop at the first token that isn't a move
+      while (i + 1 < tokens.length && /^[a-h][1-8][a-h][1-8][qrbn]?$/.test(tokens[i + 1])) {
+        info.pv.push(tokens[++i]);
+      }
+    } else if (token === 'string') {
+      info.string = tokens.slice(i + 1).join(' ');
+      break;
+    }
+  }
+  return info;
+}
+
+/** Parse a `bestmove` line; null for any other line */
+export function parseBestMove(line: string): BestMove | null {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'bestmove') return null;
+  const move = tokens[1] && tokens[1] !== '(none)' && tokens[1] !== '0000' ? tokens[1] : null;
+  const ponder = tokens[2] === 'ponder' && tokens[3] ? tokens[3] : null;
+  return { move, ponder };
+}
+
+/** Parse an `option` line; null for any other line */
+export function parseOption(line: string): EngineOption | null {
+  const match = /^option\s+name\s+(.+?)\s+type\s+(\w+)(.*)$/.exec(line.trim());
+  if (!match) return null;
+  const option: EngineOption = { name: match[1], type: match[2] as EngineOption['type'] };
+  // Values run up to the next keyword; `default` of a string option may contain spaces
+  const fields = match[3].split(/\s+(?=(?:default|min|max|var)\s)/);
+  for (const field of fields) {
+    const [, key, value] = /^\s*(default|min|max|var)\s+(.*)$/.exec(field) ?? [];
+    if (key === 'default') option.default = value === '<empty>' ? '' : value;
+    else if (key === 'min') option.min = Number(value);
+    else if (key === 'max') option.max = Number(value);
+    else if (key === 'var') option.vars = [...(option.vars ?? []), value];
+  }
+  return option;
+}
+
+/** The `go` command for some search limits */
+export function formatGo(limits: SearchLimits = {}): string {
+  const parts = ['go'];
+  for (const key of ['wtime', 'btime', 'winc', 'binc', 'movestogo', 'depth', 'nodes', 'mate', 'movetime'] as const) {
+    const value = limits[key];
+    if (value !== undefined) parts.push(key, String(Math.max(0, Math.round(value))));
+  }
+  if (limits.searchmoves && limits.searchmoves.length > 0) {
+    parts.push('searchmoves', ...limits.searchmoves);
+  }
+  if (limits.infinite || parts.length === 1) {
+    parts.push('infinite');
+  }
+  return parts.join(' ');
+}
+
+/**
+ * A move in UCI notation. Castling is written king-takes-rook for Chess960
+ * engines (default) and as the king's move otherwise.
+ */
+export function moveToUci(move: Move, chess960 = true): string {
+  const to = move.castle && !chess960 ? move.castle.kingTo : move.to;
+  return `${move.from}${to}${move.promotion ?? ''}`;
+}
+
+/** The legal move for a UCI move in a position, or null if there is none */
+export function uciToMove(position: Position | string, uci: string): Move | null {
+  const pos = typeof position === 'string' ? parseFen(position) : position;
+  if (!/^[a-h][1-8][a-h][1-8][qrbn]?$/.test(uci)) return null;
+  return findLegalMove(legalMoves(pos), uci);
+}
+
+/**
+ * Play a line of UCI moves from a position, stopping at the first move that
+ * isn't legal. Useful to turn a PV into Moves (with SAN) for display.
+ */
+export function uciLineToMoves(position: Position | string, line: string[]): Move[] {
+  let pos = typeof position === 'string' ? parseFen(position) : position;
+  const moves: Move[] = [];
+  for (const uci of line) {
+    const move = uciToMove(pos, uci);
+    if (!move) break;
+    moves.push(move);
+    pos = applyMove(pos, move);
+  }
+  return moves;
+}
+
+/**
+ * The `position` command for a start FEN and the moves played from it, in
+ * any form the board accepts (UCI, SAN or from/to). Throws on an illegal
+ * move. Also returns the position after the moves, the one the engine searches.
+ */
+export function formatPosition(
+  fen: string,
+  moves: MoveInput[] = [],
+  chess960 = true
+): { command: string; position: Position } {
+  let position = parseFen(fen);
+  const uci: string[] = [];
+  for (const input of moves) {
+    const move = findLegalMove(legalMoves(position), input);
+    if (!move) {
+      throw new Error(`Invalid move: ${typeof input === 'string' ? input : `${input.from}${input.to}`}`);
+    }
+    uci.push(moveToUci(move, chess960));
+    position = applyMove(position, move);
+  }
+  // Shredder-FEN names the castling rooks by file, which every Chess960 engine reads
+  const start = chess960 ? convertFen(fen, 'shredder') : fen.trim();
+  const command = `position fen ${start}${uci.length > 0 ? ` moves ${uci.join(' ')}` : ''}`;
+  return { command, position };
+}
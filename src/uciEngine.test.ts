@@ -0,0 +1,158 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createFakeEngine } from './engineTransport';
+import { STANDARD_FEN } from './rules';
+import { formatGo, parseBestMove, parseInfo, parseOption } from './uci';
+import { UciEngine, whiteScore } from './uciEngine';
+
+const CASTLING_FEN = '4k3/8/8/8/8/8/8/1RK4R w HB - 0 1';
+
+describe('UciEngine with the fake engine', () => {
+  it('runs the handshake once and turns on Chess960', async () => {
+    const fake = createFakeEngine();
+    const engine = new UciEngine(fake, { options: { Threads: 2 } });
+    await Promise.all([engine.init(), engine.init()]);
+    expect(fake.commands).toEqual(['uci', 'setoption name UCI_Chess960 value true', 'setoption name Threads value 2', 'isready']);
+    expect(fake.options).toEqual({ UCI_Chess960: 'true', Threads: '2' });
+  });
+
+  it('sends castling king-takes-rook and reads it back as a castling move', async () => {
+    const fake = createFakeEngine({ bestMove: () => 'e8d8' });
+    const engine = new UciEngine(fake);
+    await engine.analyze({ fen: CASTLING_FEN, moves: ['O-O'], limits: { depth: 1 } });
+    expect(fake.commands).toContain('position fen 4k3/8/8/8/8/8/8/1RK4R w HB - 0 1 moves c1h1');
+
+    const castling = createFakeEngine({ bestMove: () => 'c1b1' });
+    const result = await new UciEngine(castling).analyze({ fen: CASTLING_FEN, limits: { depth: 1 } });
+    expect(result.bestMove).toBe('c1b1');
+    expect(result.move).toMatchObject({ san: 'O-O-O', castle: { kingTo: 'c1', rookTo: 'd1' } });
+  });
+
+  it('sends castling as the king move to engines without Chess960', async () => {
+    const fake = createFakeEngine();
+    await new UciEngine(fake, { chess960: false }).analyze({ fen: CASTLING_FEN, moves: ['O-O'], limits: { depth: 1 } });
+    expect(fake.commands).not.toContain('setoption name UCI_Chess960 value true');
+    expect(fake.commands).toContain('position fen 4k3/8/8/8/8/8/8/1RK4R w HB - 0 1 moves c1g1');
+  });
+
+  it('reports every MultiPV line with White\'s score', async () => {
+    const fake = createFakeEngine({
+      bestMove: () => 'e7e5',
+      info: () => [
+        'info depth 5 multipv 2 score cp -80 pv d7d5',
+        'info depth 5 multipv 1 score cp -20 pv e7e5',
+      ],
+    });
+    const engine = new UciEngine(fake);
+    const seen: number[] = [];
+    const result = await engine.analyze({
+      fen: STANDARD_FEN,
+      moves: ['e4'],
+      limits: { depth: 5 },
+      multiPv: 2,
+      onInfo: info => seen.push(info.multipv),
+    });
+    expect(fake.options.MultiPV).toBe('2');
+    expect(seen).toEqual([2, 1]);
+    expect(result.lines.map(line => [line.multipv, line.turn, line.whiteScore])).toEqual([
+      [1, 'black', { unit: 'cp', value: 20 }],
+      [2, 'black', { unit: 'cp', value: 80 }],
+    ]);
+  });
+
+  it('stops a running search for a new one', async () => {
+    const fake = createFakeEngine();
+    const engine = new UciEngine(fake);
+    const first = engine.analyze({ fen: STANDARD_FEN });
+    await vi.waitFor(() => expect(engine.searching).toBe(true));
+    const second = engine.analyze({ fen: STANDARD_FEN, moves: ['e4'], limits: { depth: 1 } });
+    await expect(first).resolves.toMatchObject({ bestMove: expect.any(String) });
+    await expect(second).resolves.toMatchObject({ move: { color: 'black' } });
+    expect(fake.commands.filter(command => command === 'stop')).toHaveLength(1);
+    expect(engine.searching).toBe(false);
+  });
+
+  it('rejects an illegal move without stopping the running search', async () => {
+    const fake = createFakeEngine();
+    const engine = new UciEngine(fake);
+    const running = engine.analyze({ fen: STANDARD_FEN });
+    await vi.waitFor(() => expect(engine.searching).toBe(true));
+    const illegal = engine.analyze({ fen: STANDARD_FEN, moves: ['e5'] });
+    await expect(illegal).rejects.toThrow('Invalid move: e5');
+    expect(fake.commands).not.toContain('stop');
+
+    engine.stop();
+    await expect(running).resolves.toMatchObject({ bestMove: expect.any(String) });
+  });
+
+  it('settles the running and queued searches on quit', async () => {
+    const fake = createFakeEngine();
+    const close = vi.fn();
+    const engine = new UciEngine({ ...fake, close });
+    const running = engine.analyze({ fen: STANDARD_FEN });
+    await vi.waitFor(() => expect(engine.searching).toBe(true));
+    const queued = engine.analyze({ fen: STANDARD_FEN, moves: ['e4'] });
+    engine.quit();
+
+    const empty = { bestMove: null, move: null, ponder: null, lines: [] };
+    await expect(running).resolves.toEqual(empty);
+    await expect(queued).resolves.toEqual(empty);
+    expect(engine.searching).toBe(false);
+    expect(fake.commands.slice(-2)).toEqual(['stop', 'quit']);
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('settles a search still waiting for the handshake on quit', async () => {
+    // An engine that never answers
+    const engine = new UciEngine({ send: () => undefined, listen: () => () => undefined });
+    const waiting = engine.analyze({ fen: STANDARD_FEN });
+    engine.quit();
+    await expect(waiting).resolves.toMatchObject({ bestMove: null });
+  });
+});
+
+describe('whiteScore', () => {
+  it('turns scores of Black to move around', () => {
+    expect(whiteScore({ unit: 'cp', value: 35 }, 'white')).toEqual({ unit: 'cp', value: 35 });
+    expect(whiteScore({ unit: 'cp', value: 35 }, 'black')).toEqual({ unit: 'cp', value: -35 });
+    expect(whiteScore({ unit: 'mate', value: 3 }, 'black')).toEqual({ unit: 'mate', value: -3 });
+    expect(whiteScore({ unit: 'cp', value: 20, bound: 'lower' }, 'black')).toEqual({ unit: 'cp', value: -20, bound: 'upper' });
+    expect(Object.is(whiteScore({ unit: 'cp', value: 0 }, 'black').value, 0)).toBe(true);
+  });
+
+  it('names the mated side of mate 0', () => {
+    expect(whiteScore({ unit: 'mate', value: 0 }, 'white')).toEqual({ unit: 'mate', value: 0, mated: 'white' });
+    expect(whiteScore({ unit: 'mate', value: 0 }, 'black')).toEqual({ unit: 'mate', value: 0, mated: 'black' });
+  });
+});
+
+describe('UCI parsing', () => {
+  it('reads info lines', () => {
+    expect(parseInfo('info depth 12 seldepth 18 multipv 2 score mate -3 upperbound nodes 5000 pv e2e4 e7e5 string x')).toEqual({
+      depth: 12,
+      seldepth: 18,
+      multipv: 2,
+      score: { unit: 'mate', value: -3, bound: 'upper' },
+      nodes: 5000,
+      pv: ['e2e4', 'e7e5'],
+      string: 'x',
+    });
+    expect(parseInfo('bestmove e2e4')).toBeNull();
+  });
+
+  it('reads best moves and options', () => {
+    expect(parseBestMove('bestmove e7e8q ponder a2a3')).toEqual({ move: 'e7e8q', ponder: 'a2a3' });
+    expect(parseBestMove('bestmove (none)')).toEqual({ move: null, ponder: null });
+    expect(parseOption('option name Hash type spin default 16 min 1 max 33554432')).toEqual({
+      name: 'Hash', type: 'spin', default: '16', min: 1, max: 33554432,
+    });
+    expect(parseOption('option name Style type combo default Normal var Solid var Normal')).toMatchObject({
+      vars: ['Solid', 'Normal'],
+    });
+  });
+
+  it('writes go commands', () => {
+    expect(formatGo()).toBe('go infinite');
+    expect(formatGo({ depth: 20, searchmoves: ['e2e4'] })).toBe('go depth 20 searchmoves e2e4');
+    expect(formatGo({ wtime: 60000.4, btime: 59000, winc: 1000 })).toBe('go wtime 60000 btime 59000 winc 1000');
+  });
+});
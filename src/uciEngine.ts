@@ -0,0 +1,297 @@
+/**
+ * UciEngine - a UCI engine client for Chess960 analysis
+ *
+ * Talks to an engine over any EngineTransport: runs the `uci` handshake,
+ * turns on `UCI_Chess960`, sets options, and runs searches with limits,
+ * reporting `info` lines as they arrive and resolving with the best move.
+ * One search runs at a time; starting a new one stops the current one.
+ *
+ * ```ts
+ * const engine = new UciEngine(workerTransport('/stockfish/stockfish.js'));
+ * await engine.init();
+ * const result = await engine.analyze({
+ *   fen: game.startFen,
+ *   moves: game.history.slice(0, game.ply),
+ *   limits: { depth: 20 },
+ *   multiPv: 3,
+ *   onInfo: info => console.log(info.depth, info.score),
+ * });
+ * if (result.bestMove) game.move(result.bestMove);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { formatGo, formatPosition, parseBestMove, parseInfo, parseOption, uciToMove } from './uci';
+import type { EngineInfo, EngineOption, EngineScore, SearchLimits } from './uci';
+import type { EngineTransport } from './engineTransport';
+import type { Move, MoveInput, Position } from './rules';
+import type { Color } from './types';
+
+export interface UciEngineOptions {
+  /** Play and read castling the Chess960 way and set `UCI_Chess960` (default: true) */
+  chess960?: boolean;
+  /** Engine options set after the handshake, e.g. `{ Threads: 2, Hash: 128 }` */
+  options?: Record<string, string | number | boolean>;
+  /** Called with every line sent ('out') or received ('in'), for logging */
+  onLine?: (line: string, direction: 'in' | 'out') => void;
+}
+
+export interface AnalysisRequest {
+  /** Position the moves start from */
+  fen: string;
+  /** Moves played from `fen`, in UCI, SAN or from/to form */
+  moves?: MoveInput[];
+  /** Search limits (default: infinite, until `stop()`) */
+  limits?: SearchLimits;
+  /** Number of lines to search; sets MultiPV for this and later searches */
+  multiPv?: number;
+  /** Called for every `info` line with a PV or score */
+  onInfo?: (info: AnalysisInfo) => void;
+}
+
+/** An info line with its score turned to White's point of view */
+export interface AnalysisInfo extends EngineInfo {
+  /** Score from White's point of view */
+  whiteScore?: EngineScore;
+  /** Side to move in the searched position */
+  turn: Color;
+}
+
+export interface AnalysisResult {
+  /** Best move in UCI notation, null without a legal move */
+  bestMove: string | null;
+  /** The best move as a legal Move in the searched position */
+  move: Move | null;
+  ponder: string | null;
+  /** Latest info per line, best line first */
+  lines: AnalysisInfo[];
+}
+
+interface ActiveSearch {
+  turn: Color;
+  position: Position;
+  lines: Map<number, AnalysisInfo>;
+  onInfo?: (info: AnalysisInfo) => void;
+  resolve: (result: AnalysisResult) => void;
+}
+
+// Result of a search that never ran or was cut off
+function emptyResult(): AnalysisResult {
+  return { bestMove: null, move: null, ponder: null, lines: [] };
+}
+
+/** A score from the side to move's point of view, turned to White's */
+export function whiteScore(score: EngineScore, turn: Color): EngineScore {
+  // Mate 0: the side to move is checkmated
+  if (score.unit === 'mate' && score.value === 0) {
+    return { unit: 'mate', value: 0, mated: turn };
+  }
+  if (turn === 'white') return score;
+  const bound = score.bound === 'lower' ? 'upper' : score.bound === 'upper' ? 'lower' : undefined;
+  // A level score stays 0, not -0
+  return { unit: score.unit, value: score.value === 0 ? 0 : -score.value, ...(bound ? { bound } : {}) };
+}
+
+export class UciEngine {
+  private readonly transport: EngineTransport;
+  private readonly chess960: boolean;
+  private readonly settings: Record<string, string | number | boolean>;
+  private readonly onLine?: (line: string, direction: 'in' | 'out') => void;
+  private readonly unlisten: () => void;
+  private initialized: Promise<void> | null = null;
+  private uciOk: (() => void) | null = null;
+  private readyWaiters: (() => void)[] = [];
+  private search: ActiveSearch | null = null;
+  // Searches run one after another; this settles when the last one ends
+  private queue: Promise<unknown> = Promise.resolve();
+  // Resolvers of every analyze() call not settled yet, for quit()
+  private pending = new Set<(result: AnalysisResult) => void>();
+  // Bumped by stop() so searches still waiting in the queue don't start
+  private generation = 0;
+  private multiPv = 1;
+
+  /** Engine name and author from the handshake */
+  readonly id: { name: string; author: string } = { name: '', author: '' };
+  /** Options the engine announced, by name */
+  readonly options = new Map<string, EngineOption>();
+
+  constructor(transport: EngineTransport, options: UciEngineOptions = {}) {
+    this.transport = transport;
+    this.chess960 = options.chess960 ?? true;
+    this.settings = options.options ?? {};
+    this.onLine = options.onLine;
+    this.unlisten = transport.listen(line => this.receive(line));
+  }
+
+  private send(command: string): void {
+    this.onLine?.(command, 'out');
+    this.transport.send(command);
+  }
+
+  private receive(line: string): void {
+    this.onLine?.(line, 'in');
+    if (line === 'uciok') {
+      this.uciOk?.();
+      this.uciOk = null;
+    } else if (line === 'readyok') {
+      this.readyWaiters.shift()?.();
+    } else if (line.startsWith('id ')) {
+      const [, key, ...value] = line.split(/\s+/);
+      if (key === 'name' || key === 'author') this.id[key] = value.join(' ');
+    } else if (line.startsWith('option ')) {
+      const option = parseOption(line);
+      if (option) this.options.set(option.name, option);
+    } else if (line.startsWith('info ')) {
+      this.receiveInfo(line);
+    } else if (line.startsWith('bestmove')) {
+      this.receiveBestMove(line);
+    }
+  }
+
+  private receiveInfo(line: string): void {
+    const search = this.search;
+    const info = parseInfo(line);
+    // Progress lines (currmove, hashfull alone) carry no evaluation
+    if (!search || !info || (info.pv.length === 0 && !info.score)) return;
+    const analysis: AnalysisInfo = {
+      ...info,
+      turn: search.turn,
+      ...(info.score ? { whiteScore: whiteScore(info.score, search.turn) } : {}),
+    };
+    search.lines.set(info.multipv, analysis);
+    search.onInfo?.(analysis);
+  }
+
+  private receiveBestMove(line: string): void {
+    const search = this.search;
+    const best = parseBestMove(line);
+    if (!search || !best) return;
+    this.search = null;
+    search.resolve({
+      bestMove: best.move,
+      move: best.move ? uciToMove(search.position, best.move) : null,
+      ponder: best.ponder,
+      lines: Array.from(search.lines.values()).sort((a, b) => a.multipv - b.multipv),
+    });
+  }
+
+  /**
+   * Run the `uci` handshake, turn on Chess960 and set the options. Called by
+   * the first search if not called before; calling it again does nothing.
+   */
+  init(): Promise<void> {
+    if (!this.initialized) {
+      this.initialized = new Promise<void>(resolve => {
+        this.uciOk = resolve;
+        this.send('uci');
+      }).then(() => {
+        if (this.chess960) this.setOption('UCI_Chess960', true);
+        for (const [name, value] of Object.entries(this.settings)) {
+          this.setOption(name, value);
+        }
+        return this.isReady();
+      });
+    }
+    return this.initialized;
+  }
+
+  /** Set an engine option; takes effect for the next search */
+  setOption(name: string, value?: string | number | boolean): void {
+    if (name === 'MultiPV' && value !== undefined) this.multiPv = Number(value);
+    this.send(value === undefined ? `setoption name ${name}` : `setoption name ${name} value ${value}`);
+  }
+
+  /** Resolves when the engine has processed everything sent so far */
+  isReady(): Promise<void> {
+    return new Promise(resolve => {
+      this.readyWaiters.push(resolve);
+      this.send('isready');
+    });
+  }
+
+  /** Tell the engine the next searches belong to a new game */
+  async newGame(): Promise<void> {
+    await this.init();
+    this.stop();
+    await this.queue;
+    this.send('ucinewgame');
+    await this.isReady();
+  }
+
+  /**
+   * Search a position. Resolves with the best move once the search ends -
+   * when a limit is reached or after `stop()`. A search already running is
+   * stopped first (its promise still resolves with what it found). Rejects
+   * on an illegal move in `moves`, leaving a running search alone; `onInfo`
+   * scores are also given from White's point of view as `whiteScore`.
+   */
+  async analyze(request: AnalysisRequest): Promise<AnalysisResult> {
+    // Check the moves before stopping anything so an illegal one only fails this call
+    const { command, position } = formatPosition(request.fen, request.moves, this.chess960);
+    this.stop();
+    const generation = this.generation;
+
+    const run = this.queue.then(async (): Promise<AnalysisResult> => {
+      await this.init();
+      if (generation !== this.generation) {
+        return emptyResult();
+      }
+      if (request.multiPv !== undefined && request.multiPv !== this.multiPv) {
+        this.setOption('MultiPV', request.multiPv);
+      }
+      return new Promise<AnalysisResult>(resolve => {
+        this.search = {
+          turn: position.turn,
+          position,
+          lines: new Map(),
+          onInfo: request.onInfo,
+          resolve,
+        };
+        this.send(command);
+        this.send(formatGo(request.limits));
+      });
+    });
+    this.queue = run.catch(() => undefined);
+    return new Promise<AnalysisResult>((resolve, reject) => {
+      const settle = (result: AnalysisResult) => {
+        this.pending.delete(settle);
+        resolve(result);
+      };
+      this.pending.add(settle);
+      run.then(settle, error => {
+        this.pending.delete(settle);
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Stop the running search; its promise resolves with the best move so far.
+   * Searches that haven't started yet resolve without a move.
+   */
+  stop(): void {
+    this.generation++;
+    if (this.search) this.send('stop');
+  }
+
+  /** A search is running */
+  get searching(): boolean {
+    return this.search !== null;
+  }
+
+  /**
+   * Quit the engine and close the transport. Nothing answers after that, so
+   * the running search and those queued behind it resolve without a move.
+   */
+  quit(): void {
+    this.stop();
+    this.search = null;
+    for (const settle of Array.from(this.pending)) {
+      settle(emptyResult());
+    }
+    this.send('quit');
+    this.unlisten();
+    this.transport.close?.();
+  }
+}
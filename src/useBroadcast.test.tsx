@@ -0,0 +1,34 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { describe, expect, it, vi } from 'vitest';
+import { BroadcastStatus } from './BroadcastStatus';
+import { createMemoryFeed } from './broadcast';
+import { useBroadcast } from './useBroadcast';
+import type { Broadcast } from './useBroadcast';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe('useBroadcast connection', () => {
+  it('shows a failed feed as disconnected', () => {
+    const feed = createMemoryFeed();
+    const onError = vi.fn();
+    const container = document.createElement('div');
+    let broadcast: Broadcast | null = null;
+    function View() {
+      broadcast = useBroadcast(feed, { onError });
+      return <BroadcastStatus {...broadcast.statusProps} />;
+    }
+    act(() => createRoot(container).render(<View />));
+    expect(broadcast!.connection).toBe('connected');
+    expect(container.textContent).toBe('LIVE');
+
+    const error = new Error('Broadcast feed failed: HTTP 502');
+    act(() => feed.setStatus('disconnected', error));
+    expect(broadcast!.connection).toBe('disconnected');
+    expect(broadcast!.error).toBe(error);
+    expect(broadcast!.live).toBe(false);
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(container.textContent).toBe('Disconnected');
+  });
+});
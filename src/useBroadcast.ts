@@ -0,0 +1,236 @@
+/**
+ * useBroadcast - a spectator view of a game played elsewhere
+ *
+ * Follows a BroadcastFeed, queues the moves it brings and plays them on the
+ * board one at a time, `delay` ms apart, so a burst of updates still
+ * animates move by move. The viewer can step back through the game while
+ * new moves keep arriving, and catch up with `goLive()`:
+ *
+ * ```tsx
+ * const feed = useMemo(() => ndjsonFeed(`/api/broadcast/${gameId}`), [gameId]);
+ * const broadcast = useBroadcast(feed, { fen: startFen });
+ * <BroadcastStatus {...broadcast.statusProps} />
+ * <Chess960Board {...broadcast.boardProps} />
+ * <MoveList {...broadcast.moveListProps} />
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { chess960Rules } from './adapters';
+import { applyBroadcast, createBroadcastState } from './broadcast';
+import { pathPly } from './moveTree';
+import type { BroadcastConnection, BroadcastFeed, BroadcastMessage, BroadcastState } from './broadcast';
+import type { RulesFactory } from './adapters';
+import type { MoveInput } from './rules';
+import type { MovePath } from './moveTree';
+import type { GameMove } from './useChess960Game';
+import type { BroadcastStatusProps, Square } from './types';
+
+export interface UseBroadcastOptions {
+  /** Position the broadcast starts from (default: standard chess) */
+  fen?: string;
+  /** Time between two queued moves in ms; keep it above the board's animation (default: 800) */
+  delay?: number;
+  /** While following, queued moves beyond this many are skipped without animation (default: 8) */
+  maxQueue?: number;
+  /** Rules adapter factory (default: built-in Chess960 engine) */
+  rules?: RulesFactory;
+  /** Called with every message as it arrives */
+  onMessage?: (message: BroadcastMessage) => void;
+  /** Called when the feed fails */
+  onError?: (error: Error) => void;
+}
+
+/** Props for Chess960Board, showing the position the viewer is at */
+export interface BroadcastBoardProps {
+  fen: string;
+  lastMove: [Square, Square] | null;
+  /** The move that led to `fen`, so the board animates castling and promotions from it */
+  moveHint: MoveInput | null;
+  readOnly: true;
+}
+
+/** Props for MoveList over the received moves */
+export interface BroadcastMoveListProps {
+  moves: GameMove[];
+  startFen: string;
+  currentPath: MovePath;
+  onSelect: (path: MovePath) => void;
+}
+
+export interface Broadcast {
+  /** Start position of the broadcast (a position the feed jumped to starts over) */
+  startFen: string;
+  /** Every move received */
+  moves: GameMove[];
+  /** FEN of the position shown */
+  fen: string;
+  /** Moves played to reach the shown position */
+  ply: number;
+  /** Moves received so far */
+  latestPly: number;
+  /** Received moves not shown yet (queued, or skipped by stepping back) */
+  behind: number;
+  /** The view moves on by itself as moves arrive; false after stepping back */
+  following: boolean;
+  /** Connected, following and showing the latest position */
+  live: boolean;
+  /** Connection of the feed */
+  connection: BroadcastConnection;
+  /** Why the feed disconnected, null unless it failed */
+  error: Error | null;
+  lastMove: [Square, Square] | null;
+  /** Show the position after `ply` moves; stops following unless it is the latest */
+  goTo: (ply: number) => void;
+  back: () => void;
+  forward: () => void;
+  /** Jump to the latest position and follow again */
+  goLive: () => void;
+  /** Props to spread onto Chess960Board */
+  boardProps: BroadcastBoardProps;
+  /** Props to spread onto MoveList */
+  moveListProps: BroadcastMoveListProps;
+  /** Props to spread onto BroadcastStatus */
+  statusProps: BroadcastStatusProps;
+}
+
+/** Follow a broadcast feed; pass a memoized feed, a new one starts over */
+export function useBroadcast(feed: BroadcastFeed | null, options: UseBroadcastOptions = {}): Broadcast {
+  const { fen: initialFen, delay = 800, maxQueue = 8, rules = chess960Rules, onMessage, onError } = options;
+
+  const [game, setGame] = useState<BroadcastState>(() => createBroadcastState(initialFen, rules));
+  const [shown, setShown] = useState(0);
+  const [following, setFollowing] = useState(true);
+  const [connection, setConnection] = useState<BroadcastConnection>('connecting');
+  const [error, setError] = useState<Error | null>(null);
+  // When the last queued move was shown, to space the next one
+  const lastStepRef = useRef(0);
+
+  const onMessageRef = useRef(onMessage);
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
+
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onErrorRef.current = onError;
+  }, [onError]);
+
+  useEffect(() => {
+    setGame(createBroadcastState(initialFen, rules));
+    setShown(0);
+    setFollowing(true);
+    setConnection(feed ? 'connected' : 'connecting');
+    setError(null);
+    if (!feed) return;
+    const unlistenStatus = feed.onStatus?.((next, reason) => {
+      setConnection(next);
+      setError(reason);
+      if (reason) onErrorRef.current?.(reason);
+    });
+    const unlisten = feed.listen(message => {
+      onMessageRef.current?.(message);
+      setGame(current => applyBroadcast(current, message, rules));
+    });
+    return () => {
+      unlistenStatus?.();
+      unlisten();
+    };
+  }, [feed, initialFen, rules]);
+
+  // A new start position is a new game: show it from its start
+  useEffect(() => {
+    setShown(0);
+  }, [game.startFen]);
+
+  const latestPly = game.moves.length;
+  // Corrections can take back moves the view is past
+  const ply = Math.min(shown, latestPly);
+
+  // Play queued moves one at a time while following
+  useEffect(() => {
+    if (!following || ply >= latestPly) return;
+    if (latestPly - ply > maxQueue) {
+      setShown(latestPly - maxQueue);
+      return;
+    }
+    const wait = Math.max(0, lastStepRef.current + delay - Date.now());
+    const timer = setTimeout(() => {
+      lastStepRef.current = Date.now();
+      setShown(ply + 1);
+    }, wait);
+    return () => clearTimeout(timer);
+  }, [following, ply, latestPly, delay, maxQueue]);
+
+  const goTo = useCallback((target: number) => {
+    const clamped = Math.max(0, Math.min(latestPly, target));
+    setShown(clamped);
+    setFollowing(clamped === latestPly);
+  }, [latestPly]);
+
+  const back = useCallback(() => goTo(ply - 1), [goTo, ply]);
+  const forward = useCallback(() => goTo(ply + 1), [goTo, ply]);
+  const goLive = useCallback(() => {
+    setShown(latestPly);
+    setFollowing(true);
+  }, [latestPly]);
+
+  const current = ply > 0 ? game.moves[ply - 1] : null;
+  const fen = current ? current.fen : game.startFen;
+  const behind = latestPly - ply;
+
+  const lastMove = useMemo((): [Square, Square] | null => {
+    if (!current) return null;
+    return [current.from, current.castle ? current.castle.kingTo : current.to];
+  }, [current]);
+
+  const moveHint = useMemo((): MoveInput | null => (
+    current ? { from: current.from, to: current.to, promotion: current.promotion } : null
+  ), [current]);
+
+  const selectPath = useCallback((path: MovePath) => goTo(pathPly(path)), [goTo]);
+
+  const boardProps = useMemo((): BroadcastBoardProps => ({
+    fen,
+    lastMove,
+    moveHint,
+    readOnly: true,
+  }), [fen, lastMove, moveHint]);
+
+  const moveListProps = useMemo((): BroadcastMoveListProps => ({
+    moves: game.moves,
+    startFen: game.startFen,
+    currentPath: ply > 0 ? [ply - 1] : [],
+    onSelect: selectPath,
+  }), [game, ply, selectPath]);
+
+  const statusProps = useMemo((): BroadcastStatusProps => ({
+    behind,
+    following,
+    connection,
+    onGoLive: goLive,
+  }), [behind, following, connection, goLive]);
+
+  return {
+    startFen: game.startFen,
+    moves: game.moves,
+    fen,
+    ply,
+    latestPly,
+    behind,
+    following,
+    live: connection === 'connected' && following && behind === 0,
+    connection,
+    error,
+    lastMove,
+    goTo,
+    back,
+    forward,
+    goLive,
+    boardProps,
+    moveListProps,
+    statusProps,
+  };
+}
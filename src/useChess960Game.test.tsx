@@ -0,0 +1,203 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { describe, expect, it } from 'vitest';
+import { useChess960Game } from './useChess960Game';
+import type { Chess960Game, UseChess960GameOptions } from './useChess960Game';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Render the hook and hand back a getter for its latest value
+function renderGame(options: UseChess960GameOptions = {}): () => Chess960Game {
+  let game: Chess960Game | null = null;
+  function Probe() {
+    game = useChess960Game(options);
+    return null;
+  }
+  act(() => createRoot(document.createElement('div')).render(<Probe />));
+  return () => game!;
+}
+
+function play(game: () => Chess960Game, ...moves: string[]) {
+  for (const move of moves) {
+    act(() => {
+      expect(game().move(move)).not.toBeNull();
+    });
+  }
+}
+
+const sans = (game: Chess960Game) => game.history.map(move => move.san);
+
+describe('useChess960Game history', () => {
+  it('undoes and redoes without losing moves', () => {
+    const game = renderGame();
+    play(game, 'e4', 'e5', 'Nf3');
+    act(() => game().undo());
+    act(() => game().undo());
+    expect(game().ply).toBe(1);
+    expect(game().turn).toBe('black');
+    expect(game().canRedo).toBe(true);
+    act(() => game().redo());
+    expect(game().ply).toBe(2);
+    expect(sans(game())).toEqual(['e4', 'e5', 'Nf3']);
+  });
+
+  it('keeps the redo moves when the next move is replayed, and drops them for a new one', () => {
+    const game = renderGame();
+    play(game, 'e4', 'e5', 'Nf3');
+    act(() => game().goTo(1));
+    play(game, 'e5');
+    expect(sans(game())).toEqual(['e4', 'e5', 'Nf3']);
+    play(game, 'Nc3');
+    expect(sans(game())).toEqual(['e4', 'e5', 'Nc3']);
+    expect(game().canRedo).toBe(false);
+  });
+
+  it('goes to a ply, clamped to the game', () => {
+    const game = renderGame();
+    play(game, 'e4', 'e5');
+    act(() => game().goTo(0));
+    expect(game().fen).toBe(game().startFen);
+    act(() => game().goTo(10));
+    expect(game().ply).toBe(2);
+    expect(game().lastMove).toEqual(['e7', 'e5']);
+  });
+
+  it('takes back one move, or a move pair against an opponent', () => {
+    const local = renderGame();
+    play(local, 'e4', 'e5');
+    act(() => local().takeback());
+    expect(sans(local())).toEqual(['e4']);
+
+    const versus = renderGame({ playerColor: 'white' });
+    play(versus, 'e4', 'e5', 'Nf3', 'Nc6');
+    act(() => versus().takeback());
+    expect(sans(versus())).toEqual(['e4', 'e5']);
+    expect(versus().turn).toBe('white');
+  });
+
+  it('resets to the start or to a new position', () => {
+    const game = renderGame();
+    play(game, 'e4');
+    act(() => game().reset());
+    expect(game().history).toEqual([]);
+    expect(game().fen).toBe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1');
+
+    const fen = 'bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w KQkq - 0 1';
+    act(() => game().reset(fen));
+    expect(game().startFen).toBe(fen);
+    expect(game().fen).toBe(fen);
+  });
+});
+
+describe('useChess960Game result', () => {
+  it('detects checkmate and stops taking moves', () => {
+    const game = renderGame();
+    play(game, 'f3', 'e5', 'g4', 'Qh4#');
+    expect(game().result).toBe('0-1');
+    expect(game().boardProps.movable.dests?.size).toBe(0);
+    act(() => {
+      expect(game().move('a3')).toBeNull();
+    });
+  });
+
+  it('sets a declared result and clears it on takeback', () => {
+    const game = renderGame();
+    play(game, 'e4', 'e5');
+    act(() => game().setResult('1/2-1/2'));
+    expect(game().result).toBe('1/2-1/2');
+    act(() => game().takeback());
+    expect(game().result).toBe('*');
+  });
+});
+
+describe('useChess960Game board props', () => {
+  it('lets the side to move play, or only the player\'s color', () => {
+    const local = renderGame();
+    play(local, 'e4');
+    expect(local().boardProps.movable.color).toBe('black');
+    expect(local().boardProps.movable.dests?.get('e7')).toEqual(['e6', 'e5']);
+
+    const versus = renderGame({ playerColor: 'white' });
+    play(versus, 'e4');
+    expect(versus().boardProps.movable.color).toBe('white');
+  });
+
+  it('plays the moves the board reports', () => {
+    const game = renderGame();
+    act(() => game().boardProps.onMove('g1', 'f3'));
+    expect(sans(game())).toEqual(['Nf3']);
+    expect(game().boardProps.lastMove).toEqual(['g1', 'f3']);
+    expect(game().boardProps.moveHint).toEqual({ from: 'g1', to: 'f3', promotion: undefined });
+    act(() => game().undo());
+    expect(game().boardProps.moveHint).toBeNull();
+  });
+});
+
+describe('useChess960Game PGN', () => {
+  it('round-trips a game through pgn and loadPgn', () => {
+    const game = renderGame({ fen: 'bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w KQkq - 0 1' });
+    play(game, 'e4', 'e5', 'Nd3');
+    const pgn = game().pgn({ tags: { White: 'Ann' } });
+
+    const copy = renderGame();
+    act(() => {
+      copy().loadPgn(pgn);
+    });
+    expect(copy().startFen).toBe(game().startFen);
+    expect(sans(copy())).toEqual(['e4', 'e5', 'Nd3']);
+    expect(copy().fen).toBe(game().fen);
+    expect(copy().pgn({ tags: { White: 'Ann' } })).toBe(pgn);
+  });
+});
+
+describe('useChess960Game variations', () => {
+  it('applies a declared result only at the end of the main line', () => {
+    const game = renderGame();
+    play(game, 'e4', 'e5');
+    act(() => game().setResult('1-0'));
+    expect(game().result).toBe('1-0');
+    act(() => game().undo());
+    expect(game().result).toBe('*');
+    play(game, 'c5');
+    expect(game().path).toEqual([1, 0, 0]);
+    expect(game().result).toBe('*');
+    act(() => game().goToPath([1]));
+    expect(game().result).toBe('1-0');
+  });
+});
+
+describe('useChess960Game onMove verdicts', () => {
+  it('does not record a move refused with false', () => {
+    const game = renderGame({ onMove: () => false });
+    act(() => {
+      expect(game().move('e4')).toBeNull();
+    });
+    expect(game().history).toEqual([]);
+  });
+
+  it('takes a move back when the Promise resolves false', async () => {
+    let answer: (accepted: boolean) => void = () => undefined;
+    const game = renderGame({
+      onMove: move => (move.color === 'white' ? new Promise<boolean>(resolve => { answer = resolve; }) : undefined),
+    });
+    act(() => {
+      game().move('e4');
+    });
+    expect(game().history.map(move => move.san)).toEqual(['e4']);
+
+    await act(async () => answer(false));
+    expect(game().history).toEqual([]);
+    expect(game().ply).toBe(0);
+  });
+
+  it('keeps a move confirmed later', async () => {
+    let answer: (accepted: boolean) => void = () => undefined;
+    const game = renderGame({ onMove: () => new Promise<boolean>(resolve => { answer = resolve; }) });
+    act(() => {
+      game().move('e4');
+    });
+    await act(async () => answer(true));
+    expect(game().history.map(move => move.san)).toEqual(['e4']);
+  });
+});
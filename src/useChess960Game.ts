@@ -0,0 +1,383 @@
+/**
+ * useChess960Game - game state for a Chess960Board
+ *
+ * Owns the move tree (main line and variations), the shown move, undo/redo/
+ * takeback, the result and the last move, and returns props ready to spread
+ * onto the board and a MoveList:
+ *
+ * ```tsx
+ * const game = useChess960Game({ fen: startFen });
+ * <Chess960Board {...game.boardProps} />
+ * <MoveList {...game.moveListProps} />
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import { STANDARD_FEN } from './rules';
+import { chess960Rules } from './adapters';
+import { makePgn, parsePgn } from './pgn';
+import {
+  addMove,
+  deleteFrom,
+  deleteVariation as deleteTreeVariation,
+  isMainLine,
+  linePaths,
+  moveAtPath,
+  nextPath,
+  pathPly,
+  previousPath,
+  promoteVariation as promoteTreeVariation,
+} from './moveTree';
+import type { FenDialect, Move, MoveInput } from './rules';
+import type { RulesFactory } from './adapters';
+import { detectGameEnd, makeGameEnd } from './gameEnd';
+import type { GameResult, PgnGame, PgnMove } from './pgn';
+import type { GameEnd, GameEndReason } from './gameEnd';
+import type { MovePath } from './moveTree';
+import type { Color, MovableConfig, PieceType, Square } from './types';
+
+/** A played move with the position it led to (and, for loaded games, its annotations and variations) */
+export type GameMove = PgnMove;
+
+export interface UseChess960GameOptions {
+  /** Starting position (default: standard chess) */
+  fen?: string;
+  /** Rules adapter factory (default: built-in Chess960 engine) */
+  rules?: RulesFactory;
+  /** Color the user plays; omitted lets the user move both sides (local play, analysis) */
+  playerColor?: Color;
+  /**
+   * Called after every move played through the hook. Return false, or a
+   * Promise that resolves false or rejects, to take the move back - e.g.
+   * when the server refuses it.
+   */
+  onMove?: (move: GameMove) => void | boolean | Promise<boolean | void>;
+}
+
+/** Props for Chess960Board, kept in sync with the game */
+export interface Chess960GameBoardProps {
+  fen: string;
+  lastMove: [Square, Square] | null;
+  /** Earlier positions of the shown line, for threefold repetition */
+  previousFens: string[];
+  /** How the game ended at the shown position, null while it goes on */
+  gameEnd: GameEnd | null;
+  /** The move that led to `fen`, so the board animates castling and promotions from it */
+  moveHint: MoveInput | null;
+  onMove: (from: Square, to: Square, promotion?: PieceType) => void;
+  currentPlayerColor: Color;
+  movable: MovableConfig;
+}
+
+/** Props for MoveList, kept in sync with the game */
+export interface Chess960GameMoveListProps {
+  moves: GameMove[];
+  startFen: string;
+  currentPath: MovePath;
+  onSelect: (path: MovePath) => void;
+  onPromoteVariation: (path: MovePath) => void;
+  onDeleteVariation: (path: MovePath) => void;
+}
+
+export interface Chess960Game {
+  /** FEN of the position being shown (the current ply) */
+  fen: string;
+  /** FEN the game started from */
+  startFen: string;
+  /** Moves of the line being shown, including moves after the current ply (redo) */
+  history: GameMove[];
+  /** Main line of the game; variations hang off its moves */
+  tree: GameMove[];
+  /** Path of the shown move in the tree ([] = start) */
+  path: MovePath;
+  /** Number of moves played to reach the shown position (0 = start) */
+  ply: number;
+  /** Side to move in the shown position */
+  turn: Color;
+  inCheck: boolean;
+  /** Result at the shown position: checkmate, stalemate and the automatic draws are detected, anything else is set with setResult (and applies at the end of the main line) */
+  result: GameResult;
+  /** How the game ended at the shown position, with the reason; null while it goes on */
+  gameEnd: GameEnd | null;
+  /** Last move as (from, to) squares, the king's final square for castling */
+  lastMove: [Square, Square] | null;
+  /** Legal moves of the shown position */
+  moves: Move[];
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Play a move (SAN, UCI or from/to) from the shown position; returns null if illegal. A move that differs from the next one starts a variation */
+  move: (input: MoveInput) => GameMove | null;
+  /** Step back one ply, keeping the moves for redo */
+  undo: () => void;
+  /** Step forward along the shown line */
+  redo: () => void;
+  /** Remove the shown move and everything after it, or also the move before when it was the opponent's and a playerColor is set */
+  takeback: () => void;
+  /** Show the position after `ply` moves of the shown line */
+  goTo: (ply: number) => void;
+  /** Show the position after the move at a tree path */
+  goToPath: (path: MovePath) => void;
+  /** Make the variation containing a path the line it branches from */
+  promoteVariation: (path: MovePath) => void;
+  /** Delete the variation containing a path (on the main line: the move and everything after it) */
+  deleteVariation: (path: MovePath) => void;
+  /** Start over, optionally from a new position */
+  reset: (fen?: string) => void;
+  /** Set the result for outcomes the board cannot see (resignation, agreed draw, flag); '*' clears it */
+  setResult: (result: GameResult, reason?: GameEndReason) => void;
+  /** Tags of the loaded PGN (empty for games started in the hook) */
+  tags: Record<string, string>;
+  /** Load a PGN game (throws on invalid PGN) and show its final position */
+  loadPgn: (pgn: string) => PgnGame;
+  /** The game as PGN; `tags` are added to (and override) the loaded ones */
+  pgn: (options?: { tags?: Record<string, string>; dialect?: FenDialect }) => string;
+  /** Props to spread onto Chess960Board */
+  boardProps: Chess960GameBoardProps;
+  /** Props to spread onto MoveList */
+  moveListProps: Chess960GameMoveListProps;
+}
+
+// A declared result as a game end; without a reason, decisive results are
+// taken as resignations and draws as agreed
+function declaredEnd(result: GameResult, reason?: GameEndReason): GameEnd | null {
+  if (result === '*') return null;
+  const winner = result === '1-0' ? 'white' : result === '0-1' ? 'black' : null;
+  return makeGameEnd(reason ?? (winner ? 'resignation' : 'agreement'), winner);
+}
+
+export function useChess960Game(options: UseChess960GameOptions = {}): Chess960Game {
+  const { rules = chess960Rules, playerColor, onMove } = options;
+
+  const [startFen, setStartFen] = useState(() => rules(options.fen ?? STANDARD_FEN).fen());
+  const [tree, setTree] = useState<GameMove[]>([]);
+  const [path, setPath] = useState<MovePath>([]);
+  // Result declared by the parent (resignation, draw by agreement, ...)
+  const [declared, setDeclared] = useState<GameEnd | null>(null);
+  const [tags, setTags] = useState<Record<string, string>>({});
+
+  const current = moveAtPath(tree, path);
+  const fen = current ? current.fen : startFen;
+  const ply = pathPly(path);
+
+  // Moves of the shown line, from the first move to the end of the line
+  const line = useMemo(() => linePaths(tree, path), [tree, path]);
+  const history = useMemo(() => line.map(linePath => moveAtPath(tree, linePath)!), [tree, line]);
+
+  // Rules for the shown position
+  const position = useMemo(() => rules(fen), [rules, fen]);
+  const moves = useMemo(() => position.moves(), [position]);
+  const turn = position.turn();
+  const inCheck = position.inCheck();
+
+  // Positions before the shown one on its line, for repetition
+  const previousFens = useMemo(
+    () => (ply === 0 ? [] : [startFen, ...history.slice(0, ply - 1).map(move => move.fen)]),
+    [startFen, history, ply]
+  );
+
+  // The board's own verdict wins; a declared result applies at the end of the main line
+  const atEnd = isMainLine(path) && ply === tree.length;
+  const gameEnd = useMemo(
+    (): GameEnd | null => detectGameEnd(position, previousFens) ?? (atEnd ? declared : null),
+    [position, previousFens, atEnd, declared]
+  );
+  const result: GameResult = gameEnd?.result ?? '*';
+
+  const lastMove = useMemo((): [Square, Square] | null => {
+    if (!current) return null;
+    return [current.from, current.castle ? current.castle.kingTo : current.to];
+  }, [current]);
+
+  const move = useCallback((input: MoveInput): GameMove | null => {
+    if (result !== '*') return null;
+    const game = rules(fen);
+    const played = game.move(input);
+    if (!played) return null;
+    const gameMove: GameMove = { ...played, fen: game.fen() };
+
+    const verdict = onMove ? onMove(gameMove) : undefined;
+    if (verdict === false) return null;
+
+    // Replaying a move already in the tree just follows it; anything else
+    // extends the line or starts a variation from here
+    const added = addMove(tree, path, gameMove);
+    const isNew = added.moves !== tree;
+    if (isNew) {
+      setTree(added.moves);
+      if (isMainLine(added.path)) {
+        setDeclared(null);
+      }
+    }
+    setPath(added.path);
+
+    if (verdict instanceof Promise) {
+      // Refused later: remove the move (and anything played after it) and go back
+      const rollback = () => {
+        if (isNew) {
+          setTree(moves => deleteFrom(moves, added.path).moves);
+        }
+        setPath(path);
+      };
+      verdict.then(accepted => {
+        if (accepted === false) rollback();
+      }, rollback);
+    }
+    return gameMove;
+  }, [result, rules, fen, tree, path, onMove]);
+
+  const goTo = useCallback((target: number) => {
+    const clamped = Math.max(0, Math.min(line.length, target));
+    setPath(clamped > 0 ? line[clamped - 1] : []);
+  }, [line]);
+
+  const goToPath = useCallback((target: MovePath) => {
+    if (target.length === 0 || moveAtPath(tree, target)) {
+      setPath(target);
+    }
+  }, [tree]);
+
+  const undo = useCallback(() => setPath(previousPath(path)), [path]);
+  const redo = useCallback(() => {
+    const next = nextPath(tree, path);
+    if (next) setPath(next);
+  }, [tree, path]);
+
+  const takeback = useCallback(() => {
+    if (!current) return;
+    let target = path;
+    // Against an opponent, go back to a position where it is our turn
+    const previous = previousPath(path);
+    if (playerColor && current.color !== playerColor && previous.length > 0) {
+      target = previous;
+    }
+    const removed = deleteFrom(tree, target);
+    setTree(removed.moves);
+    setPath(removed.path);
+    if (isMainLine(target)) {
+      setDeclared(null);
+    }
+  }, [current, path, playerColor, tree]);
+
+  // Both follow the tree edit to the returned path: the promoted move, or the
+  // position the deleted moves started from
+  const promoteVariation = useCallback((target: MovePath) => {
+    const promoted = promoteTreeVariation(tree, target);
+    setTree(promoted.moves);
+    setPath(promoted.path);
+  }, [tree]);
+
+  const deleteVariation = useCallback((target: MovePath) => {
+    const deleted = deleteTreeVariation(tree, target);
+    setTree(deleted.moves);
+    setPath(deleted.path);
+    if (isMainLine(target)) {
+      setDeclared(null);
+    }
+  }, [tree]);
+
+  const setResult = useCallback((newResult: GameResult, reason?: GameEndReason) => {
+    setDeclared(declaredEnd(newResult, reason));
+  }, []);
+
+  const reset = useCallback((newFen?: string) => {
+    setStartFen(rules(newFen ?? startFen).fen());
+    setTree([]);
+    setPath([]);
+    setDeclared(null);
+    setTags({});
+  }, [rules, startFen]);
+
+  // Loaded moves keep their comments, NAGs and variations, so they survive a
+  // round trip through pgn()
+  const loadPgn = useCallback((pgn: string): PgnGame => {
+    const game = parsePgn(pgn);
+    setStartFen(game.startFen);
+    setTree(game.moves);
+    setPath(game.moves.length > 0 ? [game.moves.length - 1] : []);
+    setDeclared(declaredEnd(game.result));
+    setTags(game.tags);
+    return game;
+  }, []);
+
+  const pgn = useCallback((options: { tags?: Record<string, string>; dialect?: FenDialect } = {}): string => {
+    const fens = [startFen, ...tree.map(move => move.fen)];
+    const finalEnd = detectGameEnd(rules(fens[fens.length - 1]), fens.slice(0, -1)) ?? declared;
+    return makePgn({
+      tags: { ...tags, ...options.tags },
+      startFen,
+      moves: tree,
+      result: finalEnd?.result ?? '*',
+    }, { dialect: options.dialect });
+  }, [tags, startFen, tree, declared, rules]);
+
+  const dests = useMemo(() => {
+    const map = new Map<Square, Square[]>();
+    if (result !== '*') return map;
+    for (const legal of moves) {
+      map.set(legal.from, position.dests(legal.from));
+    }
+    return map;
+  }, [moves, position, result]);
+
+  const handleBoardMove = useCallback((from: Square, to: Square, promotion?: PieceType) => {
+    move({ from, to, promotion });
+  }, [move]);
+
+  const moveHint = useMemo((): MoveInput | null => (
+    current ? { from: current.from, to: current.to, promotion: current.promotion } : null
+  ), [current]);
+
+  const boardProps = useMemo((): Chess960GameBoardProps => ({
+    fen,
+    lastMove,
+    previousFens,
+    gameEnd,
+    moveHint,
+    onMove: handleBoardMove,
+    currentPlayerColor: playerColor ?? turn,
+    movable: { color: playerColor ?? turn, dests },
+  }), [fen, lastMove, previousFens, gameEnd, moveHint, handleBoardMove, playerColor, turn, dests]);
+
+  const moveListProps = useMemo((): Chess960GameMoveListProps => ({
+    moves: tree,
+    startFen,
+    currentPath: path,
+    onSelect: goToPath,
+    onPromoteVariation: promoteVariation,
+    onDeleteVariation: deleteVariation,
+  }), [tree, startFen, path, goToPath, promoteVariation, deleteVariation]);
+
+  return {
+    fen,
+    startFen,
+    history,
+    tree,
+    path,
+    ply,
+    turn,
+    inCheck,
+    result,
+    gameEnd,
+    lastMove,
+    moves,
+    canUndo: ply > 0,
+    canRedo: ply < line.length,
+    move,
+    undo,
+    redo,
+    takeback,
+    goTo,
+    goToPath,
+    promoteVariation,
+    deleteVariation,
+    reset,
+    setResult,
+    tags,
+    loadPgn,
+    pgn,
+    boardProps,
+    moveListProps,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * useChessClock - a ticking ChessClock for React
+ *
+ * Keeps a ChessClock's times in state, fires low-time and flag callbacks, and
+ * returns props for a Clock per side. Switch it from the board's onMove:
+ *
+ * ```tsx
+ * const clock = useChessClock({ timeControl: '300+3' });
+ * const game = useChess960Game({ onMove: () => clock.switch() });
+ * <Clock {...clock.clockProps.black} />
+ * <Chess960Board {...game.boardProps} readOnly={clock.flagged !== null} />
+ * <Clock {...clock.clockProps.white} />
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ChessClock } from './chessClock';
+import type { ClockState, ClockSync, TimeControl } from './chessClock';
+import type { ClockProps, Color } from './types';
+
+export interface UseChessClockOptions {
+  /** Time control as stages or PGN TimeControl notation (`'300+2'`, `'40/5400+30:1800+30'`) */
+  timeControl: TimeControl | string;
+  /** Remaining times (ms) at which onLowTime fires, once per side each time the clock drops below them */
+  lowTime?: number | number[];
+  /** Called when a side's time drops below a lowTime threshold */
+  onLowTime?: (color: Color, threshold: number) => void;
+  /** Called when a side runs out of time; the clock stops */
+  onFlag?: (color: Color) => void;
+  /** How often the shown times update in ms (default: 100) */
+  tickInterval?: number;
+  /** Time source (default: Date.now) */
+  now?: () => number;
+}
+
+export interface ChessClockControls extends ClockState {
+  /** Start the clock of a side (default: white) */
+  start: (color?: Color) => void;
+  /** End the running side's turn and start the other side's clock; call it from onMove */
+  switch: () => void;
+  /** A side taps its clock (over-the-board): ends its turn, or starts the opponent's clock before the game */
+  press: (color: Color) => void;
+  pause: () => void;
+  resume: () => void;
+  /** Stop the clock for good, keeping the times */
+  stop: () => void;
+  /** Back to the starting times, optionally with a new time control */
+  reset: (timeControl?: TimeControl | string) => void;
+  /** Correct the clock with times from the server */
+  sync: (times: ClockSync) => void;
+  /** The underlying clock */
+  clock: ChessClock;
+  /** Props for a Clock per side */
+  clockProps: Record<Color, ClockProps>;
+}
+
+const DEFAULT_LOW_TIME = 20000;
+
+export function useChessClock(options: UseChessClockOptions): ChessClockControls {
+  const { timeControl, lowTime, onLowTime, onFlag, tickInterval = 100, now } = options;
+
+  const [clock, setClock] = useState(() => new ChessClock(timeControl, { now }));
+  const [state, setState] = useState<ClockState>(() => clock.state());
+
+  const thresholds = useMemo(
+    () => (lowTime === undefined ? [] : Array.isArray(lowTime) ? lowTime : [lowTime]),
+    [lowTime]
+  );
+
+  // Callbacks in refs so ticking doesn't restart when the parent re-renders
+  const onLowTimeRef = useRef(onLowTime);
+  const onFlagRef = useRef(onFlag);
+  useEffect(() => {
+    onLowTimeRef.current = onLowTime;
+    onFlagRef.current = onFlag;
+  }, [onLowTime, onFlag]);
+
+  const refresh = useCallback(() => setState(clock.state()), [clock]);
+
+  useEffect(() => {
+    if (!state.running || state.paused) return;
+    const interval = setInterval(refresh, tickInterval);
+    return () => clearInterval(interval);
+  }, [state.running, state.paused, tickInterval, refresh]);
+
+  // Thresholds already reported per side, re-armed when the time goes back above them
+  const reportedRef = useRef<Record<Color, Set<number>>>({ white: new Set(), black: new Set() });
+  useEffect(() => {
+    for (const color of ['white', 'black'] as Color[]) {
+      const reported = reportedRef.current[color];
+      for (const threshold of thresholds) {
+        if (state.remaining[color] >= threshold) {
+          reported.delete(threshold);
+        } else if (!reported.has(threshold) && state.flagged !== color) {
+          reported.add(threshold);
+          onLowTimeRef.current?.(color, threshold);
+        }
+      }
+    }
+  }, [state.remaining, state.flagged, thresholds]);
+
+  useEffect(() => {
+    if (state.flagged) {
+      onFlagRef.current?.(state.flagged);
+    }
+  }, [state.flagged]);
+
+  const start = useCallback((color?: Color) => {
+    clock.start(color);
+    refresh();
+  }, [clock, refresh]);
+
+  const switchSides = useCallback(() => {
+    clock.switch();
+    refresh();
+  }, [clock, refresh]);
+
+  const press = useCallback((color: Color) => {
+    const current = clock.state();
+    if (current.flagged) return;
+    // Only the running side can end its turn; before the game either side starts the other's clock
+    if (current.running === color || (current.running === null && current.moves.white + current.moves.black === 0)) {
+      clock.switch(color);
+      refresh();
+    }
+  }, [clock, refresh]);
+
+  const pause = useCallback(() => {
+    clock.pause();
+    refresh();
+  }, [clock, refresh]);
+
+  const resume = useCallback(() => {
+    clock.resume();
+    refresh();
+  }, [clock, refresh]);
+
+  const stop = useCallback(() => {
+    clock.stop();
+    refresh();
+  }, [clock, refresh]);
+
+  const reset = useCallback((newTimeControl?: TimeControl | string) => {
+    reportedRef.current = { white: new Set(), black: new Set() };
+    if (newTimeControl !== undefined) {
+      const next = new ChessClock(newTimeControl, { now });
+      setClock(next);
+      setState(next.state());
+    } else {
+      clock.reset();
+      refresh();
+    }
+  }, [clock, now, refresh]);
+
+  const sync = useCallback((times: ClockSync) => {
+    clock.sync(times);
+    refresh();
+  }, [clock, refresh]);
+
+  const clockProps = useMemo((): Record<Color, ClockProps> => {
+    const warning = thresholds.length > 0 ? Math.max(...thresholds) : DEFAULT_LOW_TIME;
+    const bonus = (color: Color) => clock.timeControl().stages[state.stage[color]].increment || 1;
+    const props = (color: Color): ClockProps => ({
+      time: state.remaining[color],
+      color,
+      running: state.running === color,
+      paused: state.paused,
+      flagged: state.flagged === color,
+      delay: state.running === color && state.delay > 0 ? state.delay / bonus(color) : 0,
+      lowTime: warning,
+      onPress: () => press(color),
+    });
+    return { white: props('white'), black: props('black') };
+  }, [state, thresholds, press, clock]);
+
+  return {
+    ...state,
+    start,
+    switch: switchSides,
+    press,
+    pause,
+    resume,
+    stop,
+    reset,
+    sync,
+    clock,
+    clockProps,
+  };
+}